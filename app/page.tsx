@@ -1,18 +1,30 @@
 'use client';
 
-import { useEffect } from 'react';
-import { AlertCircle, Wallet } from 'lucide-react';
+import { useEffect, useRef } from 'react';
+import { AlertCircle, Clock, History, Wallet } from 'lucide-react';
 import { Header } from '@/components/kyc/header';
 import { KYCForm } from '@/components/kyc/kyc-form';
 import { VerificationProgress } from '@/components/kyc/verification-progress';
 import { VerificationResultDisplay } from '@/components/kyc/verification-result';
 import { InfoSidebar } from '@/components/kyc/info-sidebar';
+import { ProofRequestCard } from '@/components/kyc/proof-request-card';
+import { MyDataPanel } from '@/components/kyc/my-data-panel';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useWallet } from '@/hooks/use-wallet';
 import { useKYCVerification } from '@/hooks/use-kyc-verification';
-import type { KYCData } from '@/lib/types/kyc';
+import { useProofRequest } from '@/hooks/use-proof-request';
+import { useVerificationStatus } from '@/hooks/use-verification-status';
+import type { KYCData, VerificationSessionStep } from '@/lib/types/kyc';
+
+const SESSION_STEP_LABELS: Record<VerificationSessionStep, string> = {
+  protected: 'your data was protected',
+  granted: 'access was granted to the verification app',
+  task: 'the TEE task was started',
+  verified: 'the TEE verified your identity',
+  submitted: 'the result was submitted on-chain',
+};
 
 export default function KYCVerificationPage() {
   const {
@@ -27,8 +39,18 @@ export default function KYCVerificationPage() {
     clearError,
     provider,
     chainId,
+    addressScreening,
   } = useWallet();
 
+  const {
+    signedRequest,
+    status: proofRequestStatus,
+    errors: proofRequestErrors,
+    request: proofRequest,
+    respond: respondToProofRequest,
+    dismiss: dismissProofRequest,
+  } = useProofRequest();
+
   const {
     status,
     currentStep,
@@ -38,21 +60,55 @@ export default function KYCVerificationPage() {
     verificationResult,
     transactionHash,
     error: verificationError,
+    isCancelling,
+    teeTask,
+    taskProgress,
+    resumableSession,
+    renewableSession,
     startVerification,
+    cancelVerification,
+    resumeSession,
+    renewVerification,
+    discardSession,
     reset,
-  } = useKYCVerification(address, provider, chainId);
+  } = useKYCVerification(address, provider, chainId, proofRequest);
 
-  const handleSubmit = async (kycData: KYCData) => {
+  // Send the proof back to the requesting dApp once, when verification completes
+  const respondedProof = useRef<typeof zkProof>(null);
+  useEffect(() => {
+    if (status === 'completed' && proofRequest && address && zkProof && respondedProof.current !== zkProof) {
+      respondedProof.current = zkProof;
+      respondToProofRequest(address, zkProof);
+    }
+  }, [status, proofRequest, address, zkProof, respondToProofRequest]);
+
+  const handleSubmit = async (kycData: KYCData, documentImage?: File) => {
     if (!isConnected) {
       connect();
       return;
     }
-    await startVerification(kycData);
+    await startVerification(kycData, documentImage);
   };
 
+  const isWalletBlocked = addressScreening?.status === 'blocked';
   const isVerifying = ['encrypting', 'protecting', 'computing', 'verifying', 'submitting'].includes(status);
   const isCompleted = status === 'completed';
   const isFailed = status === 'failed';
+  const isCancelled = status === 'cancelled';
+  const runEnded = isCompleted || isFailed || isCancelled ? status : null;
+
+  const { expiry: verificationExpiry } = useVerificationStatus(
+    isConnected && isCorrectNetwork ? provider : null,
+    address,
+    renewableSession?.verificationResult ?? null,
+    runEnded
+  );
+  // Renewing reruns the TEE on the stored record, which cannot outlast its document or answer a dApp's request
+  const canRenew = !!renewableSession && status === 'idle' && !isWalletBlocked &&
+    proofRequestStatus === 'none' && !verificationExpiry?.endsWithDocument;
+  const showExpiryNotice = !!verificationExpiry && status === 'idle' && !resumableSession &&
+    (verificationExpiry.state === 'expiring' || verificationExpiry.state === 'expired' ||
+      (verificationExpiry.state === 'active' && verificationExpiry.endsWithDocument));
 
   return (
     <div className="min-h-screen bg-background">
@@ -64,6 +120,8 @@ export default function KYCVerificationPage() {
         onConnect={connect}
         onDisconnect={disconnect}
         onSwitchNetwork={switchToArbitrumSepolia}
+        verificationExpiry={verificationExpiry}
+        onRenew={canRenew ? renewVerification : undefined}
       />
 
       <main className="container mx-auto px-4 py-8">
@@ -80,6 +138,19 @@ export default function KYCVerificationPage() {
           </Alert>
         )}
 
+        {addressScreening && addressScreening.status !== 'clear' && (
+          <Alert variant={isWalletBlocked ? 'destructive' : 'default'} className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{isWalletBlocked ? 'Wallet Not Eligible' : 'Wallet Flagged'}</AlertTitle>
+            <AlertDescription>
+              {isWalletBlocked
+                ? 'This wallet address appears on a sanctions list. Verification is not available for it.'
+                : 'This wallet address is flagged as high risk. Verification can continue, and the flag is recorded in the result.'}
+              {' '}({addressScreening.hits.map(hit => hit.label ? `${hit.source}: ${hit.label}` : hit.source).join('; ')})
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2 space-y-6">
             <div className="space-y-2">
@@ -92,6 +163,15 @@ export default function KYCVerificationPage() {
               </p>
             </div>
 
+            {proofRequestStatus !== 'none' && !isCompleted && (
+              <ProofRequestCard
+                signedRequest={signedRequest}
+                status={proofRequestStatus}
+                errors={proofRequestErrors}
+                onDismiss={dismissProofRequest}
+              />
+            )}
+
             {!isConnected ? (
               <Card className="border-border/50">
                 <CardHeader className="text-center">
@@ -132,34 +212,99 @@ export default function KYCVerificationPage() {
               />
             ) : (
               <>
-                {(isVerifying || isFailed) && (
+                {resumableSession && status === 'idle' && (
+                  <Alert>
+                    <History className="h-4 w-4" />
+                    <AlertTitle>Unfinished Verification</AlertTitle>
+                    <AlertDescription className="flex items-center justify-between gap-4">
+                      <span>
+                        A verification started {new Date(resumableSession.startedAt).toLocaleString()} stopped
+                        after {SESSION_STEP_LABELS[resumableSession.step]}. Resume to continue from there
+                        without protecting your data again.
+                      </span>
+                      <div className="flex gap-2 shrink-0">
+                        <Button variant="outline" size="sm" onClick={discardSession}>
+                          Dismiss
+                        </Button>
+                        <Button size="sm" onClick={resumeSession}>
+                          Resume
+                        </Button>
+                      </div>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {showExpiryNotice && verificationExpiry && (
+                  <Alert variant={verificationExpiry.state === 'expired' ? 'destructive' : 'default'}>
+                    <Clock className="h-4 w-4" />
+                    <AlertTitle>
+                      {verificationExpiry.state === 'expired'
+                        ? 'Verification Expired'
+                        : verificationExpiry.state === 'expiring'
+                          ? 'Verification Expiring Soon'
+                          : 'Verification Ends With Your Document'}
+                    </AlertTitle>
+                    <AlertDescription className="flex items-center justify-between gap-4">
+                      <span>
+                        Your verification {verificationExpiry.state === 'expired' ? 'expired' : 'is valid until'}{' '}
+                        {new Date(verificationExpiry.expiresAt * 1000).toLocaleDateString()}
+                        {verificationExpiry.endsWithDocument
+                          ? ', when your identity document expires. Renew your document, then verify again with it below.'
+                          : canRenew
+                            ? '. Renew to verify again from your protected data, without entering it again.'
+                            : '. Verify again below to renew it.'}
+                      </span>
+                      {canRenew && (
+                        <Button size="sm" className="shrink-0" onClick={renewVerification}>
+                          Renew
+                        </Button>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {(isVerifying || isFailed || isCancelled) && (
                   <VerificationProgress
                     status={status}
                     currentStep={currentStep}
                     steps={steps}
                     error={verificationError}
+                    teeTask={teeTask}
+                    taskProgress={taskProgress}
                   />
                 )}
 
-                {isFailed && (
+                {/* A transaction cannot be called back once the wallet has it */}
+                {isVerifying && status !== 'submitting' && (
+                  <div className="flex justify-center">
+                    <Button onClick={cancelVerification} variant="outline" disabled={isCancelling}>
+                      {isCancelling ? 'Cancelling...' : 'Cancel Verification'}
+                    </Button>
+                  </div>
+                )}
+
+                {(isFailed || isCancelled) && (
                   <div className="flex justify-center">
                     <Button onClick={reset} variant="outline">
-                      Try Again
+                      {isCancelled ? 'Start Again' : 'Try Again'}
                     </Button>
                   </div>
                 )}
 
-                {!isVerifying && !isFailed && (
+                {!isVerifying && !isFailed && !isCancelled && (
                   <KYCForm
                     onSubmit={handleSubmit}
-                    isDisabled={!isConnected || !isCorrectNetwork}
+                    isDisabled={!isConnected || !isCorrectNetwork || isWalletBlocked || ['verifying', 'invalid'].includes(proofRequestStatus)}
                   />
                 )}
               </>
             )}
           </div>
 
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
+            {isConnected && isCorrectNetwork && provider && address && (
+              <MyDataPanel provider={provider} address={address} refreshKey={runEnded} />
+            )}
             <InfoSidebar />
           </div>
         </div>
@@ -0,0 +1,53 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/poseidon.circom";
+include "./lib/kyc.circom";
+
+/*
+ * Age Verification Circuit
+ * Proves: birth_date + minimum_age <= current_date
+ * Without revealing: actual birth_date
+ */
+template AgeVerification() {
+    // Private inputs (not revealed)
+    signal input birthYear;
+    signal input birthMonth;
+    signal input birthDay;
+    
+    // Public inputs
+    signal input currentYear;
+    signal input currentMonth;
+    signal input currentDay;
+    signal input minimumAge;
+    
+    // Output
+    signal output isAboveMinimumAge;
+    signal output nullifierHash;
+    
+    // Calculate age (accounting for birthday)
+    component age = AgeInYears();
+    age.birthYear <== birthYear;
+    age.birthMonth <== birthMonth;
+    age.birthDay <== birthDay;
+    age.currentYear <== currentYear;
+    age.currentMonth <== currentMonth;
+    age.currentDay <== currentDay;
+    
+    // Check if above minimum age
+    component ageCheck = GreaterEqThan(8);
+    ageCheck.in[0] <== age.age;
+    ageCheck.in[1] <== minimumAge;
+    
+    isAboveMinimumAge <== ageCheck.out;
+    
+    // Generate nullifier (for preventing double-verification)
+    component hasher = Poseidon(3);
+    hasher.inputs[0] <== birthYear;
+    hasher.inputs[1] <== birthMonth;
+    hasher.inputs[2] <== birthDay;
+    
+    nullifierHash <== hasher.out;
+}
+
+component main {public [currentYear, currentMonth, currentDay, minimumAge]} = AgeVerification();
@@ -0,0 +1,137 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/comparators.circom";
+include "./lib/kyc.circom";
+include "./lib/merkle.circom";
+
+/*
+ * Full KYC Verification Circuit
+ * Combines: age, document validity, and identity verification
+ *
+ * Field encodings (document type codes, string hashes, packed dates) are
+ * defined in lib/utils/field.ts; vectors/full_kyc.json pins them down.
+ */
+template FullKYCVerification(NATIONALITY_DEPTH) {
+    // Private inputs
+    signal input birthYear;
+    signal input birthMonth;
+    signal input birthDay;
+    signal input documentType;  // DOCUMENT_TYPE_CODES
+    signal input documentHash;  // hashString(normalized document number)
+    signal input nameHash;      // hashString(normalized full name)
+    signal input nationalityCode; // ISO 3166-1 numeric code
+    signal input expiryYear;
+    signal input expiryMonth;
+    signal input expiryDay;
+    signal input nationalityPathElements[NATIONALITY_DEPTH];
+    signal input nationalityPathIndices[NATIONALITY_DEPTH];
+    
+    // Public inputs
+    signal input currentYear;
+    signal input currentMonth;
+    signal input currentDay;
+    signal input minimumAge;
+    signal input nationalityRoot;        // root of the accepted-nationality tree, 0 if any
+    signal input userAddress;            // binds the proof to one wallet
+    signal input nullifierScope;         // application the nullifier is scoped to, 0 for per-wallet
+    
+    // Outputs
+    signal output isFullyVerified;
+    signal output nullifierHash;
+    signal output commitment;
+    
+    // --- Age Verification ---
+    component age = AgeInYears();
+    age.birthYear <== birthYear;
+    age.birthMonth <== birthMonth;
+    age.birthDay <== birthDay;
+    age.currentYear <== currentYear;
+    age.currentMonth <== currentMonth;
+    age.currentDay <== currentDay;
+    
+    component ageCheck = GreaterEqThan(8);
+    ageCheck.in[0] <== age.age;
+    ageCheck.in[1] <== minimumAge;
+    
+    signal isAdult;
+    isAdult <== ageCheck.out;
+    
+    // --- Document Validity ---
+    component birthDate = PackDate();
+    birthDate.year <== birthYear;
+    birthDate.month <== birthMonth;
+    birthDate.day <== birthDay;
+    
+    component expiryDate = PackDate();
+    expiryDate.year <== expiryYear;
+    expiryDate.month <== expiryMonth;
+    expiryDate.day <== expiryDay;
+    
+    component today = PackDate();
+    today.year <== currentYear;
+    today.month <== currentMonth;
+    today.day <== currentDay;
+    
+    component expiryCheck = GreaterThan(32);
+    expiryCheck.in[0] <== expiryDate.out;
+    expiryCheck.in[1] <== today.out;
+    
+    signal isDocumentValid;
+    isDocumentValid <== expiryCheck.out;
+    
+    // --- Nationality Check ---
+    // Membership of nationalityCode in the list tree (lib/utils/nationality-set.ts)
+    component nationalityTree = MerkleTreeInclusion(NATIONALITY_DEPTH);
+    nationalityTree.leaf <== nationalityCode;
+    for (var d = 0; d < NATIONALITY_DEPTH; d++) {
+        nationalityTree.pathElements[d] <== nationalityPathElements[d];
+        nationalityTree.pathIndices[d] <== nationalityPathIndices[d];
+    }
+    
+    component natCheck = IsZero();
+    natCheck.in <== nationalityRoot;
+    
+    component natMatch = IsEqual();
+    natMatch.in[0] <== nationalityTree.root;
+    natMatch.in[1] <== nationalityRoot;
+    
+    // Empty leaves are 0, so a zero code must never count as a member
+    component noNationality = IsZero();
+    noNationality.in <== nationalityCode;
+    
+    signal isListMember;
+    isListMember <== natMatch.out * (1 - noNationality.out);
+    
+    signal isNationalityValid;
+    isNationalityValid <== natCheck.out + (1 - natCheck.out) * isListMember;
+    
+    // --- Combined Verification ---
+    signal isAdultAndValid;
+    isAdultAndValid <== isAdult * isDocumentValid;
+    isFullyVerified <== isAdultAndValid * isNationalityValid;
+    
+    // --- Generate Nullifier ---
+    // Per wallet by default; scoped to an application, one document gets one nullifier there
+    component perWallet = IsZero();
+    perWallet.in <== nullifierScope;
+    
+    component nullifier = KYCNullifier();
+    nullifier.documentType <== documentType;
+    nullifier.documentHash <== documentHash;
+    nullifier.scope <== nullifierScope + perWallet.out * userAddress;
+    
+    nullifierHash <== nullifier.out;
+    
+    // --- Commit to the full record ---
+    component committer = KYCCommitment();
+    committer.documentType <== documentType;
+    committer.documentHash <== documentHash;
+    committer.nameHash <== nameHash;
+    committer.nationalityCode <== nationalityCode;
+    committer.birthDate <== birthDate.out;
+    committer.expiryDate <== expiryDate.out;
+    
+    commitment <== committer.out;
+}
+
+component main {public [currentYear, currentMonth, currentDay, minimumAge, nationalityRoot, userAddress, nullifierScope]} = FullKYCVerification(8);
@@ -0,0 +1,89 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/poseidon.circom";
+
+/*
+ * Building blocks shared by the KYC circuits
+ * Encodings match lib/utils/field.ts
+ */
+
+// Whole years between a birth date and the current date
+template AgeInYears() {
+    signal input birthYear;
+    signal input birthMonth;
+    signal input birthDay;
+    signal input currentYear;
+    signal input currentMonth;
+    signal input currentDay;
+    
+    signal output age;
+    
+    // Check if birthday has passed this year
+    component monthCheck = LessThan(8);
+    monthCheck.in[0] <== currentMonth;
+    monthCheck.in[1] <== birthMonth;
+    
+    component sameMonth = IsEqual();
+    sameMonth.in[0] <== currentMonth;
+    sameMonth.in[1] <== birthMonth;
+    
+    component dayCheck = LessThan(8);
+    dayCheck.in[0] <== currentDay;
+    dayCheck.in[1] <== birthDay;
+    
+    signal birthdayNotPassed;
+    birthdayNotPassed <== monthCheck.out + sameMonth.out * dayCheck.out;
+    
+    age <== currentYear - birthYear - birthdayNotPassed;
+}
+
+// YYYYMMDD, comparable as an integer (packDate in field.ts)
+template PackDate() {
+    signal input year;
+    signal input month;
+    signal input day;
+    
+    signal output out;
+    
+    out <== year * 10000 + month * 100 + day;
+}
+
+// Same as generateNullifierHash() in lib/utils/crypto.ts
+// scope is the wallet's address, or an application's nullifier scope
+template KYCNullifier() {
+    signal input documentType;
+    signal input documentHash;
+    signal input scope;
+    
+    signal output out;
+    
+    component hasher = Poseidon(3);
+    hasher.inputs[0] <== documentType;
+    hasher.inputs[1] <== documentHash;
+    hasher.inputs[2] <== scope;
+    
+    out <== hasher.out;
+}
+
+// Same as createCommitment() in lib/utils/crypto.ts
+template KYCCommitment() {
+    signal input documentType;
+    signal input documentHash;
+    signal input nameHash;
+    signal input nationalityCode;
+    signal input birthDate;
+    signal input expiryDate;
+    
+    signal output out;
+    
+    component hasher = Poseidon(6);
+    hasher.inputs[0] <== documentType;
+    hasher.inputs[1] <== documentHash;
+    hasher.inputs[2] <== nameHash;
+    hasher.inputs[3] <== nationalityCode;
+    hasher.inputs[4] <== birthDate;
+    hasher.inputs[5] <== expiryDate;
+    
+    out <== hasher.out;
+}
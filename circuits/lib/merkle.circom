@@ -0,0 +1,37 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/poseidon.circom";
+
+/*
+ * Root of a fixed-depth Poseidon Merkle tree from a leaf and its path
+ * Matches computeMerkleRoot in lib/utils/merkle.ts:
+ *   pathIndices[i] = 0 -> node is the left child, 1 -> right child
+ */
+template MerkleTreeInclusion(depth) {
+    signal input leaf;
+    signal input pathElements[depth];
+    signal input pathIndices[depth];
+
+    signal output root;
+
+    component hashers[depth];
+    signal nodes[depth + 1];
+    signal left[depth];
+    signal right[depth];
+
+    nodes[0] <== leaf;
+    for (var i = 0; i < depth; i++) {
+        pathIndices[i] * (1 - pathIndices[i]) === 0;
+
+        // swap = 1 puts the sibling on the left
+        left[i] <== nodes[i] + pathIndices[i] * (pathElements[i] - nodes[i]);
+        right[i] <== pathElements[i] - pathIndices[i] * (pathElements[i] - nodes[i]);
+
+        hashers[i] = Poseidon(2);
+        hashers[i].inputs[0] <== left[i];
+        hashers[i].inputs[1] <== right[i];
+        nodes[i + 1] <== hashers[i].out;
+    }
+
+    root <== nodes[depth];
+}
@@ -0,0 +1,90 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/comparators.circom";
+
+/*
+ * One selective-disclosure predicate slot
+ * predicateType codes match PREDICATE_CODES in lib/services/zkproof.ts:
+ *   0 none                 always true
+ *   1 min_age              age >= param
+ *   2 document_valid_until expiryDate (YYYYMMDD) >= param
+ *   3 document_type        documentType == param
+ *   4 nationality_is       nationalityCode == param
+ *   5 nationality_is_not   nationalityCode != param
+ *   6 nationality_in       nationalityRoot == param, i.e. the nationality
+ *                          is a leaf of the list tree whose root is param
+ */
+template DisclosurePredicate() {
+    var NUM_TYPES = 7;
+    
+    signal input predicateType;
+    signal input param;
+    
+    signal input age;
+    signal input expiryDate;
+    signal input documentType;
+    signal input nationalityCode;
+    signal input nationalityRoot;  // root computed from the holder's list witness
+    
+    signal output out;
+    
+    // One-hot decode of the predicate type; unknown types are unsatisfiable
+    component isType[NUM_TYPES];
+    var typeSum = 0;
+    for (var k = 0; k < NUM_TYPES; k++) {
+        isType[k] = IsEqual();
+        isType[k].in[0] <== predicateType;
+        isType[k].in[1] <== k;
+        typeSum += isType[k].out;
+    }
+    typeSum === 1;
+    
+    // Range-checked comparators only see the param when it belongs to them
+    signal ageParam;
+    ageParam <== isType[1].out * param;
+    
+    component ageOk = GreaterEqThan(8);
+    ageOk.in[0] <== age;
+    ageOk.in[1] <== ageParam;
+    
+    signal dateParam;
+    dateParam <== isType[2].out * param;
+    
+    component expiryOk = GreaterEqThan(32);
+    expiryOk.in[0] <== expiryDate;
+    expiryOk.in[1] <== dateParam;
+    
+    component documentTypeEq = IsEqual();
+    documentTypeEq.in[0] <== documentType;
+    documentTypeEq.in[1] <== param;
+    
+    component nationalityEq = IsEqual();
+    nationalityEq.in[0] <== nationalityCode;
+    nationalityEq.in[1] <== param;
+    
+    // Empty leaves are 0, so a zero code must never count as a member
+    component rootEq = IsEqual();
+    rootEq.in[0] <== nationalityRoot;
+    rootEq.in[1] <== param;
+    
+    component noNationality = IsZero();
+    noNationality.in <== nationalityCode;
+    
+    signal isListMember;
+    isListMember <== rootEq.out * (1 - noNationality.out);
+    
+    signal terms[NUM_TYPES];
+    terms[0] <== isType[0].out;
+    terms[1] <== isType[1].out * ageOk.out;
+    terms[2] <== isType[2].out * expiryOk.out;
+    terms[3] <== isType[3].out * documentTypeEq.out;
+    terms[4] <== isType[4].out * nationalityEq.out;
+    terms[5] <== isType[5].out * (1 - nationalityEq.out);
+    terms[6] <== isType[6].out * isListMember;
+    
+    var result = 0;
+    for (var k = 0; k < NUM_TYPES; k++) {
+        result += terms[k];
+    }
+    out <== result;
+}
@@ -0,0 +1,121 @@
+pragma circom 2.1.6;
+
+include "./lib/kyc.circom";
+include "./lib/predicates.circom";
+include "./lib/merkle.circom";
+
+/*
+ * Selective Disclosure Circuit
+ * Proves an arbitrary conjunction of up to N predicates chosen by the
+ * verifier, revealing only whether each predicate holds.
+ *
+ * Public signal layout (see getPublicSignalLayout in lib/services/zkproof.ts):
+ *   allSatisfied, nullifierHash, commitment, results[N],
+ *   currentYear, currentMonth, currentDay, userAddress, challenge,
+ *   predicateTypes[N], predicateParams[N]
+ */
+template SelectiveDisclosure(N, NATIONALITY_DEPTH) {
+    // Private inputs
+    signal input birthYear;
+    signal input birthMonth;
+    signal input birthDay;
+    signal input documentType;
+    signal input documentHash;
+    signal input nameHash;
+    signal input nationalityCode;
+    signal input expiryYear;
+    signal input expiryMonth;
+    signal input expiryDay;
+    // Inclusion path of nationalityCode in the requested list tree (any path if unused)
+    signal input nationalityPathElements[NATIONALITY_DEPTH];
+    signal input nationalityPathIndices[NATIONALITY_DEPTH];
+    
+    // Public inputs
+    signal input currentYear;
+    signal input currentMonth;
+    signal input currentDay;
+    signal input userAddress;
+    signal input challenge;  // verifier nonce from the proof request, 0 if none
+    signal input predicateTypes[N];
+    signal input predicateParams[N];
+    
+    // Outputs
+    signal output allSatisfied;
+    signal output nullifierHash;
+    signal output commitment;
+    signal output results[N];
+    
+    component age = AgeInYears();
+    age.birthYear <== birthYear;
+    age.birthMonth <== birthMonth;
+    age.birthDay <== birthDay;
+    age.currentYear <== currentYear;
+    age.currentMonth <== currentMonth;
+    age.currentDay <== currentDay;
+    
+    component birthDate = PackDate();
+    birthDate.year <== birthYear;
+    birthDate.month <== birthMonth;
+    birthDate.day <== birthDay;
+    
+    component expiryDate = PackDate();
+    expiryDate.year <== expiryYear;
+    expiryDate.month <== expiryMonth;
+    expiryDate.day <== expiryDay;
+    
+    // At most one list tree per proof; every nationality_in slot compares to it
+    component nationalityTree = MerkleTreeInclusion(NATIONALITY_DEPTH);
+    nationalityTree.leaf <== nationalityCode;
+    for (var d = 0; d < NATIONALITY_DEPTH; d++) {
+        nationalityTree.pathElements[d] <== nationalityPathElements[d];
+        nationalityTree.pathIndices[d] <== nationalityPathIndices[d];
+    }
+    
+    // A public input only binds the proof if it appears in a constraint
+    signal challengeSquare;
+    challengeSquare <== challenge * challenge;
+    
+    // --- Predicates ---
+    component predicates[N];
+    signal satisfied[N];
+    for (var i = 0; i < N; i++) {
+        predicates[i] = DisclosurePredicate();
+        predicates[i].predicateType <== predicateTypes[i];
+        predicates[i].param <== predicateParams[i];
+        predicates[i].age <== age.age;
+        predicates[i].expiryDate <== expiryDate.out;
+        predicates[i].documentType <== documentType;
+        predicates[i].nationalityCode <== nationalityCode;
+        predicates[i].nationalityRoot <== nationalityTree.root;
+        
+        results[i] <== predicates[i].out;
+        
+        if (i == 0) {
+            satisfied[i] <== results[i];
+        } else {
+            satisfied[i] <== satisfied[i - 1] * results[i];
+        }
+    }
+    allSatisfied <== satisfied[N - 1];
+    
+    // --- Generate Nullifier ---
+    component nullifier = KYCNullifier();
+    nullifier.documentType <== documentType;
+    nullifier.documentHash <== documentHash;
+    nullifier.scope <== userAddress;
+    
+    nullifierHash <== nullifier.out;
+    
+    // --- Commit to the full record ---
+    component committer = KYCCommitment();
+    committer.documentType <== documentType;
+    committer.documentHash <== documentHash;
+    committer.nameHash <== nameHash;
+    committer.nationalityCode <== nationalityCode;
+    committer.birthDate <== birthDate.out;
+    committer.expiryDate <== expiryDate.out;
+    
+    commitment <== committer.out;
+}
+
+component main {public [currentYear, currentMonth, currentDay, userAddress, challenge, predicateTypes, predicateParams]} = SelectiveDisclosure(4, 8);
@@ -0,0 +1,179 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Camera, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import type { DocumentType, KYCData } from '@/lib/types/kyc';
+import { scanDocumentImage, SUPPORTED_IMAGE_TYPES } from '@/lib/services/document-ocr';
+import type { DocumentScan, ExtractedFieldName } from '@/lib/services/document-ocr';
+
+interface DocumentUploadProps {
+  documentType?: DocumentType;
+  nationality?: string;
+  onConfirm: (fields: Partial<KYCData>, image: File) => void;
+  isDisabled?: boolean;
+}
+
+const FIELD_LABELS: Record<ExtractedFieldName, string> = {
+  documentType: 'Document type',
+  documentNumber: 'Document number',
+  fullName: 'Full name',
+  dateOfBirth: 'Date of birth',
+  nationality: 'Nationality',
+  expiryDate: 'Expiry date',
+};
+
+export function DocumentUpload({ documentType, nationality, onConfirm, isDisabled }: DocumentUploadProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [image, setImage] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [scan, setScan] = useState<DocumentScan | null>(null);
+  const [selected, setSelected] = useState<Set<ExtractedFieldName>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!image) return;
+    const url = URL.createObjectURL(image);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImage(file);
+    setScan(null);
+    setError(null);
+    setProgress(0);
+
+    try {
+      const result = await scanDocumentImage(file, { documentType, nationality, onProgress: setProgress });
+      setScan(result);
+      // Values that failed a check digit must be opted into
+      setSelected(new Set(result.proposals.filter(p => !p.warning).map(p => p.field)));
+    } catch (err) {
+      console.error('[v0] Document scan failed:', err);
+      setError(err instanceof Error ? err.message : 'Could not read the document image');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const toggleField = (field: ExtractedFieldName, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(field);
+      } else {
+        next.delete(field);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    if (!scan || !image) return;
+    const fields: Partial<KYCData> = { documentHash: scan.documentHash };
+    for (const proposal of scan.proposals) {
+      if (selected.has(proposal.field)) {
+        Object.assign(fields, { [proposal.field]: proposal.value });
+      }
+    }
+    onConfirm(fields, image);
+    setIsOpen(false);
+  };
+
+  if (!isOpen) {
+    return (
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        disabled={isDisabled}
+        className="gap-2 bg-transparent"
+      >
+        <Camera className="w-4 h-4" />
+        Upload Document
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border border-border bg-muted/30">
+      <Label htmlFor="documentImage" className="flex items-center gap-2">
+        <Camera className="w-4 h-4 text-muted-foreground" />
+        Document Photo or Scan
+      </Label>
+      <Input
+        id="documentImage"
+        type="file"
+        accept={SUPPORTED_IMAGE_TYPES.join(',')}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        disabled={isDisabled || progress !== null}
+      />
+      <p className="text-xs text-muted-foreground">
+        Text is read in your browser; the image is not uploaded. Only its hash is attached to your
+        identity data.
+      </p>
+
+      {previewUrl && (
+        <img src={previewUrl} alt="Uploaded document" className="max-h-48 rounded-md border border-border" />
+      )}
+
+      {progress !== null && (
+        <div className="space-y-1">
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Reading document...
+          </p>
+          <Progress value={Math.round(progress * 100)} />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {scan && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            {scan.mrzFormat
+              ? `Read the ${scan.mrzFormat} machine readable zone.`
+              : 'No machine readable zone found; values below are best guesses.'}{' '}
+            Select the values to copy into the form.
+          </p>
+          {scan.proposals.length === 0 && (
+            <p className="text-sm text-muted-foreground">No fields could be recognised. Please type them in.</p>
+          )}
+          {scan.proposals.map((proposal) => (
+            <div key={proposal.field} className="flex items-start gap-2">
+              <Checkbox
+                id={`ocr-${proposal.field}`}
+                checked={selected.has(proposal.field)}
+                onCheckedChange={(checked) => toggleField(proposal.field, checked === true)}
+              />
+              <div className="grid gap-0.5">
+                <Label htmlFor={`ocr-${proposal.field}`} className="text-sm font-normal">
+                  {FIELD_LABELS[proposal.field]}: <span className="font-mono">{proposal.value}</span>
+                </Label>
+                {proposal.warning && <p className="text-xs text-destructive">{proposal.warning}</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
+          Close
+        </Button>
+        <Button type="button" size="sm" onClick={handleConfirm} disabled={isDisabled || !scan}>
+          Use Selected
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { Shield, Wallet, ChevronDown, ExternalLink } from 'lucide-react';
+import { Shield, Wallet, ChevronDown, ExternalLink, Clock, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -10,6 +10,28 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Badge } from '@/components/ui/badge';
+import { formatTimeLeft } from '@/lib/services/renewal';
+import type { VerificationExpiry } from '@/lib/types/kyc';
+
+const EXPIRY_BADGE_STYLES: Record<VerificationExpiry['state'], string> = {
+  active: 'bg-emerald-500/10 text-emerald-600 border-emerald-500/30',
+  expiring: 'bg-amber-500/10 text-amber-600 border-amber-500/30',
+  expired: 'bg-destructive/10 text-destructive border-destructive/30',
+  inactive: 'bg-muted text-muted-foreground border-border',
+};
+
+function expiryLabel(expiry: VerificationExpiry): string {
+  switch (expiry.state) {
+    case 'active':
+      return `Verified · ${formatTimeLeft(expiry.secondsLeft)} left`;
+    case 'expiring':
+      return `Expires in ${formatTimeLeft(expiry.secondsLeft)}`;
+    case 'expired':
+      return 'Verification expired';
+    case 'inactive':
+      return 'Verification inactive';
+  }
+}
 
 interface HeaderProps {
   isConnected: boolean;
@@ -19,6 +41,10 @@ interface HeaderProps {
   onConnect: () => void;
   onDisconnect: () => void;
   onSwitchNetwork: () => void;
+  // The wallet's on-chain verification, or null if it has none
+  verificationExpiry?: VerificationExpiry | null;
+  // Set when the verification can be renewed from the last run's protected data
+  onRenew?: () => void;
 }
 
 export function Header({
@@ -29,6 +55,8 @@ export function Header({
   onConnect,
   onDisconnect,
   onSwitchNetwork,
+  verificationExpiry,
+  onRenew,
 }: HeaderProps) {
   const truncateAddress = (addr: string) => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
@@ -66,6 +94,19 @@ export function Header({
             </Badge>
           )}
 
+          {isConnected && isCorrectNetwork && verificationExpiry && (
+            <Badge
+              variant="outline"
+              className={`gap-1.5 px-3 py-1.5 ${EXPIRY_BADGE_STYLES[verificationExpiry.state]}`}
+              title={`Valid until ${new Date(verificationExpiry.expiresAt * 1000).toLocaleString()}${
+                verificationExpiry.endsWithDocument ? ', when your document expires' : ''
+              }`}
+            >
+              <Clock className="w-3.5 h-3.5" />
+              {expiryLabel(verificationExpiry)}
+            </Badge>
+          )}
+
           {!isConnected ? (
             <Button
               onClick={onConnect}
@@ -92,6 +133,12 @@ export function Header({
                   <ExternalLink className="w-4 h-4" />
                   View on Explorer
                 </DropdownMenuItem>
+                {onRenew && (
+                  <DropdownMenuItem onClick={onRenew} className="gap-2">
+                    <RefreshCw className="w-4 h-4" />
+                    Renew Verification
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem
                   onClick={onDisconnect}
@@ -3,7 +3,7 @@
 import React from "react"
 
 import { useState } from 'react';
-import { FileText, User, Calendar, Globe, CreditCard } from 'lucide-react';
+import { FileText, User, Calendar, Globe, CreditCard, Paperclip, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -16,9 +16,15 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import type { KYCData, DocumentType } from '@/lib/types/kyc';
+import { COUNTRIES } from '@/lib/utils/countries';
+import { validateDocument } from '@/lib/services/document-validation';
+import type { MrzImport as MrzImportResult } from '@/lib/services/mrz';
+import { MrzImport } from '@/components/kyc/mrz-import';
+import { DocumentUpload } from '@/components/kyc/document-upload';
 
 interface KYCFormProps {
-  onSubmit: (data: KYCData) => void;
+  // The document image, if one was uploaded, is protected alongside the fields
+  onSubmit: (data: KYCData, documentImage?: File) => void;
   isDisabled?: boolean;
 }
 
@@ -30,18 +36,8 @@ const DOCUMENT_TYPES: { value: DocumentType; label: string }[] = [
   { value: 'pan_card', label: 'PAN Card' },
 ];
 
-const NATIONALITIES = [
-  'United States',
-  'United Kingdom',
-  'Canada',
-  'Australia',
-  'Germany',
-  'France',
-  'India',
-  'Japan',
-  'Singapore',
-  'Other',
-];
+// Every ISO 3166-1 country; the proof encodes the nationality as its numeric code
+const NATIONALITIES = COUNTRIES.map((country) => country.name);
 
 export function KYCForm({ onSubmit, isDisabled }: KYCFormProps) {
   const [formData, setFormData] = useState<Partial<KYCData>>({
@@ -49,6 +45,7 @@ export function KYCForm({ onSubmit, isDisabled }: KYCFormProps) {
     nationality: '',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [documentImage, setDocumentImage] = useState<File | null>(null);
 
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
@@ -56,8 +53,17 @@ export function KYCForm({ onSubmit, isDisabled }: KYCFormProps) {
     if (!formData.documentType) {
       newErrors.documentType = 'Please select a document type';
     }
-    if (!formData.documentNumber || formData.documentNumber.length < 5) {
+    if (!formData.documentNumber) {
       newErrors.documentNumber = 'Please enter a valid document number';
+    } else if (formData.documentType) {
+      const validation = validateDocument({
+        documentType: formData.documentType,
+        documentNumber: formData.documentNumber,
+        nationality: formData.nationality ?? '',
+      });
+      if (!validation.isValid) {
+        newErrors.documentNumber = validation.errors[0];
+      }
     }
     if (!formData.fullName || formData.fullName.length < 2) {
       newErrors.fullName = 'Please enter your full name';
@@ -92,7 +98,7 @@ export function KYCForm({ onSubmit, isDisabled }: KYCFormProps) {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validateForm()) {
-      onSubmit(formData as KYCData);
+      onSubmit(formData as KYCData, documentImage ?? undefined);
     }
   };
 
@@ -107,6 +113,26 @@ export function KYCForm({ onSubmit, isDisabled }: KYCFormProps) {
     }
   };
 
+  // Fill the fields read from the MRZ and flag the ones whose check digits failed
+  const handleMrzImport = ({ fields, errors: mrzErrors }: MrzImportResult) => {
+    setFormData(prev => ({ ...prev, ...fields }));
+    setErrors(Object.fromEntries(
+      Object.entries(mrzErrors).filter(([field]) => field !== 'mrz')
+    ) as Record<string, string>);
+  };
+
+  // Copy the values the holder confirmed from the scan and attach the image hash
+  const handleDocumentUpload = (fields: Partial<KYCData>, image: File) => {
+    setFormData(prev => ({ ...prev, ...fields }));
+    setErrors({});
+    setDocumentImage(image);
+  };
+
+  const removeDocumentImage = () => {
+    setFormData(prev => ({ ...prev, documentHash: undefined }));
+    setDocumentImage(null);
+  };
+
   return (
     <Card className="border-border/50">
       <CardHeader>
@@ -121,6 +147,35 @@ export function KYCForm({ onSubmit, isDisabled }: KYCFormProps) {
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="flex flex-wrap items-start gap-2">
+            <DocumentUpload
+              documentType={formData.documentType}
+              nationality={formData.nationality}
+              onConfirm={handleDocumentUpload}
+              isDisabled={isDisabled}
+            />
+            <MrzImport onImport={handleMrzImport} isDisabled={isDisabled} />
+          </div>
+
+          {formData.documentHash && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Paperclip className="w-4 h-4" />
+              <span className="truncate">
+                {documentImage?.name ?? 'Document image'} attached (SHA-256 {formData.documentHash.slice(0, 12)}...)
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={removeDocumentImage}
+                disabled={isDisabled}
+                aria-label="Remove document image"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+
           <div className="grid gap-6 sm:grid-cols-2">
             <div className="space-y-2">
               <Label htmlFor="documentType" className="flex items-center gap-2">
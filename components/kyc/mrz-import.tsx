@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { ScanLine } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { importMrz } from '@/lib/services/mrz';
+import type { MrzImport as MrzImportResult } from '@/lib/services/mrz';
+
+interface MrzImportProps {
+  onImport: (result: MrzImportResult) => void;
+  isDisabled?: boolean;
+}
+
+export function MrzImport({ onImport, isDisabled }: MrzImportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [format, setFormat] = useState<string | null>(null);
+
+  const handleImport = () => {
+    try {
+      const result = importMrz(text);
+      setFormat(result.format);
+      setError(result.errors.mrz ?? null);
+      onImport(result);
+    } catch (err) {
+      setFormat(null);
+      setError(err instanceof Error ? err.message : 'Could not read the machine readable zone');
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        disabled={isDisabled}
+        className="gap-2 bg-transparent"
+      >
+        <ScanLine className="w-4 h-4" />
+        Fill from MRZ
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-2 p-4 rounded-lg border border-border bg-muted/30">
+      <Label htmlFor="mrz" className="flex items-center gap-2">
+        <ScanLine className="w-4 h-4 text-muted-foreground" />
+        Machine Readable Zone
+      </Label>
+      <Textarea
+        id="mrz"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={'P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<\nL898902C36UTO7408122F1204159ZE184226B<<<<<10'}
+        className="font-mono text-xs"
+        rows={3}
+        spellCheck={false}
+        disabled={isDisabled}
+      />
+      <p className="text-xs text-muted-foreground">
+        Paste the 2 or 3 lines at the bottom of your passport or ID card. They are parsed in your browser only.
+      </p>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {format && !error && (
+        <p className="text-sm text-muted-foreground">Read {format} machine readable zone. Check the fields below.</p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
+          Close
+        </Button>
+        <Button type="button" size="sm" onClick={handleImport} disabled={isDisabled || !text.trim()}>
+          Fill Form
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Database, KeyRound, Loader2, RefreshCw, ShieldOff } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useProtectedData } from '@/hooks/use-protected-data';
+import { IEXEC_KYC_APP_ADDRESS } from '@/lib/services/iexec';
+import type { EthereumProvider, GrantedAccess } from '@/lib/services/data-protector';
+
+interface MyDataPanelProps {
+  provider: EthereumProvider | null;
+  address: string;
+  // Reloads the list when it changes, e.g. when a verification run ends
+  refreshKey?: string | null;
+}
+
+const ANY_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const truncateAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function MyDataPanel({ provider, address, refreshKey }: MyDataPanelProps) {
+  const { datasets, isLoading, revoking, error, refresh, revokeOne, revokeAll } = useProtectedData(provider, address);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  const describeApp = (app: string) => {
+    if (sameAddress(app, ANY_ADDRESS)) return 'Any app';
+    if (sameAddress(app, IEXEC_KYC_APP_ADDRESS)) return 'KYC verification app';
+    return truncateAddress(app);
+  };
+
+  const describeUser = (user: string) => {
+    if (sameAddress(user, ANY_ADDRESS)) return 'anyone';
+    if (sameAddress(user, address)) return 'you';
+    return truncateAddress(user);
+  };
+
+  const renderAccess = (access: GrantedAccess) => (
+    <li key={access.sign} className="flex items-center justify-between gap-2 text-sm">
+      <div className="min-w-0">
+        <p className="text-foreground truncate">{describeApp(access.apprestrict)}</p>
+        <p className="text-xs text-muted-foreground">
+          Run by {describeUser(access.requesterrestrict)} · {access.remainingAccess} of {access.volume} accesses left
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => revokeOne(access)}
+        disabled={revoking !== null}
+        aria-label="Revoke access"
+      >
+        {revoking === access.sign ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Revoke'}
+      </Button>
+    </li>
+  );
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg text-foreground">
+            <Database className="w-5 h-5" />
+            My Data
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={refresh} disabled={isLoading} aria-label="Refresh">
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <CardDescription>
+          Protected data owned by your wallet and who can read it inside a TEE.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!isLoading && datasets.length === 0 && !error && (
+          <p className="text-sm text-muted-foreground">You have not protected any data yet.</p>
+        )}
+
+        {datasets.map(({ protectedData, grantedAccess }) => (
+          <div key={protectedData.address} className="space-y-3 p-3 rounded-lg border border-border">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">
+                  {protectedData.name || 'Unnamed data'}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono">{truncateAddress(protectedData.address)}</p>
+                <p className="text-xs text-muted-foreground">
+                  Protected {new Date(protectedData.creationTimestamp * 1000).toLocaleDateString()}
+                </p>
+              </div>
+              <Badge variant={grantedAccess.length ? 'secondary' : 'outline'} className="gap-1 shrink-0">
+                <KeyRound className="w-3 h-3" />
+                {grantedAccess.length}
+              </Badge>
+            </div>
+
+            {grantedAccess.length > 0 ? (
+              <>
+                <ul className="space-y-2">{grantedAccess.map(renderAccess)}</ul>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" className="w-full gap-2" disabled={revoking !== null}>
+                      {revoking === protectedData.address ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <ShieldOff className="w-4 h-4" />
+                      )}
+                      Revoke All
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Revoke all access?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        No app will be able to read {protectedData.name || 'this data'} until you grant access
+                        again. Each revocation is a transaction signed by your wallet.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => revokeAll(protectedData.address)}>
+                        Revoke All
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">No app can read this data.</p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
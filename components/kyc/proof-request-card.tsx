@@ -0,0 +1,141 @@
+'use client';
+
+import { ShieldQuestion, CheckCircle2, XCircle, Loader2, Globe, Clock, KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { SignedProofRequest } from '@/lib/types/kyc';
+import type { ProofRequestStatus } from '@/hooks/use-proof-request';
+import { toDisclosureRequest } from '@/lib/services/proof-request';
+import { describePredicate } from '@/lib/services/zkproof';
+import { cn } from '@/lib/utils';
+
+interface ProofRequestCardProps {
+  signedRequest: SignedProofRequest | null;
+  status: ProofRequestStatus;
+  errors: string[];
+  onDismiss: () => void;
+}
+
+export function ProofRequestCard({
+  signedRequest,
+  status,
+  errors,
+  onDismiss,
+}: ProofRequestCardProps) {
+  const request = signedRequest?.request;
+
+  const truncate = (value: string, chars: number = 6) => {
+    return `${value.slice(0, chars + 2)}...${value.slice(-chars)}`;
+  };
+
+  const formatDate = (seconds: number) => {
+    return new Date(seconds * 1000).toLocaleString();
+  };
+
+  const getRequestedChecks = (): string[] => {
+    if (!request) return [];
+    try {
+      return toDisclosureRequest(request).predicates.map(describePredicate);
+    } catch {
+      return [];
+    }
+  };
+
+  const requestedChecks = getRequestedChecks();
+
+  return (
+    <Card className={cn(
+      "border-border/50",
+      status === 'valid' && "border-primary/30 bg-primary/5",
+      status === 'invalid' && "border-destructive/30 bg-destructive/5"
+    )}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <ShieldQuestion className="w-5 h-5" />
+          Verification Request
+          {status === 'verifying' && (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          )}
+          {status === 'valid' && (
+            <Badge variant="outline" className="ml-auto gap-1 bg-emerald-500/10 text-emerald-600 border-emerald-500/30">
+              <CheckCircle2 className="w-3 h-3" />
+              Signature valid
+            </Badge>
+          )}
+          {status === 'invalid' && (
+            <Badge variant="outline" className="ml-auto gap-1 bg-destructive/10 text-destructive border-destructive/30">
+              <XCircle className="w-3 h-3" />
+              Rejected
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {request
+            ? `${request.verifier.name} is asking you to prove the following. Nothing else about you is shared.`
+            : 'A verification request was received but could not be read.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {requestedChecks.length > 0 && (
+          <ul className="space-y-2">
+            {requestedChecks.map((check) => (
+              <li key={check} className="flex items-center gap-2 text-sm text-foreground">
+                <CheckCircle2 className="w-4 h-4 text-primary shrink-0" />
+                {check}
+              </li>
+            ))}
+            {request?.requiredAttributes.includes('isNotSanctioned') && (
+              <li className="flex items-center gap-2 text-sm text-foreground">
+                <CheckCircle2 className="w-4 h-4 text-primary shrink-0" />
+                Not on a sanctions list (attested on-chain by the TEE)
+              </li>
+            )}
+          </ul>
+        )}
+
+        {request && (
+          <div className="grid gap-2 text-xs">
+            <div className="flex items-center justify-between p-2 bg-muted rounded-lg">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <Globe className="w-3 h-3" />
+                Requested by
+              </span>
+              <span className="font-mono text-foreground">
+                {request.verifier.origin} ({truncate(request.verifier.address, 4)})
+              </span>
+            </div>
+            <div className="flex items-center justify-between p-2 bg-muted rounded-lg">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <KeyRound className="w-3 h-3" />
+                Challenge
+              </span>
+              <span className="font-mono text-foreground">{truncate(request.challenge)}</span>
+            </div>
+            <div className="flex items-center justify-between p-2 bg-muted rounded-lg">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <Clock className="w-3 h-3" />
+                Request expires
+              </span>
+              <span className="font-mono text-foreground">{formatDate(request.expiresAt)}</span>
+            </div>
+          </div>
+        )}
+
+        {status === 'invalid' && errors.length > 0 && (
+          <div className="p-3 rounded-lg text-sm bg-destructive/10 text-destructive space-y-1">
+            {errors.map((error) => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={onDismiss} className="bg-transparent">
+            {status === 'invalid' ? 'Continue without request' : 'Ignore request'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
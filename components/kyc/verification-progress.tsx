@@ -1,9 +1,10 @@
 'use client';
 
-import { CheckCircle2, Circle, Loader2, XCircle, Shield, Lock, Cpu, FileCheck, Send, PartyPopper } from 'lucide-react';
+import { Ban, CheckCircle2, Circle, Loader2, XCircle, Shield, Lock, Cpu, FileCheck, Send, PartyPopper } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import type { VerificationStatus } from '@/lib/types/kyc';
+import type { TeeTask, TeeTaskProgress, VerificationStatus } from '@/lib/types/kyc';
+import { TEE_TASK_STAGES } from '@/lib/services/tee-task';
 import { cn } from '@/lib/utils';
 
 interface VerificationProgressProps {
@@ -11,8 +12,15 @@ interface VerificationProgressProps {
   currentStep: number;
   steps: string[];
   error?: string | null;
+  teeTask?: TeeTask | null;
+  taskProgress?: TeeTaskProgress | null;
 }
 
+// Index of 'TEE Verification' in the steps
+const TEE_STEP = 4;
+
+const truncateHash = (hash: string) => `${hash.slice(0, 10)}...${hash.slice(-8)}`;
+
 const STEP_ICONS = [
   Shield,      // Connect Wallet
   FileCheck,   // Submit Identity
@@ -28,16 +36,69 @@ export function VerificationProgress({
   currentStep,
   steps,
   error,
+  teeTask,
+  taskProgress,
 }: VerificationProgressProps) {
   const progress = (currentStep / (steps.length - 1)) * 100;
 
   const getStepStatus = (index: number) => {
     if (status === 'failed' && index === currentStep) return 'failed';
+    if (status === 'cancelled' && index === currentStep) return 'cancelled';
     if (index < currentStep) return 'completed';
     if (index === currentStep) return 'active';
     return 'pending';
   };
 
+  const getStageStatus = (index: number) => {
+    const current = taskProgress ? TEE_TASK_STAGES.findIndex(({ stage }) => stage === taskProgress.stage) : -1;
+    if (index < current || (index === current && taskProgress?.isDone)) return 'completed';
+    if (index === current || (current < 0 && index === 0)) {
+      if (status === 'failed') return 'failed';
+      return status === 'cancelled' ? 'cancelled' : 'active';
+    }
+    return 'pending';
+  };
+
+  const renderTaskStages = () => (
+    <div className="ml-11 space-y-2">
+      {TEE_TASK_STAGES.map(({ stage, label }, index) => {
+        const stageStatus = getStageStatus(index);
+        return (
+          <div key={stage} className={cn(
+            "flex items-center gap-2 text-xs",
+            stageStatus === 'completed' && "text-emerald-700 dark:text-emerald-400",
+            stageStatus === 'active' && "text-foreground",
+            stageStatus === 'failed' && "text-destructive",
+            stageStatus === 'cancelled' && "text-muted-foreground",
+            stageStatus === 'pending' && "text-muted-foreground opacity-50"
+          )}>
+            {stageStatus === 'completed' ? (
+              <CheckCircle2 className="w-3 h-3" />
+            ) : stageStatus === 'active' ? (
+              <Loader2 className="w-3 h-3 animate-spin" />
+            ) : stageStatus === 'failed' ? (
+              <XCircle className="w-3 h-3" />
+            ) : stageStatus === 'cancelled' ? (
+              <Ban className="w-3 h-3" />
+            ) : (
+              <Circle className="w-3 h-3" />
+            )}
+            <span>{label}</span>
+            {stage === 'running' && taskProgress?.taskStatus && stageStatus !== 'pending' && (
+              <span className="text-muted-foreground">({taskProgress.taskStatus.toLowerCase()})</span>
+            )}
+          </div>
+        );
+      })}
+      {teeTask && (
+        <div className="space-y-1 pt-1 text-xs text-muted-foreground font-mono">
+          <p>Deal {truncateHash(teeTask.dealId)}</p>
+          <p>Task {truncateHash(teeTask.taskId)}</p>
+        </div>
+      )}
+    </div>
+  );
+
   const getStatusMessage = () => {
     switch (status) {
       case 'encrypting':
@@ -54,6 +115,8 @@ export function VerificationProgress({
         return 'Verification complete! Your identity has been verified.';
       case 'failed':
         return error || 'Verification failed. Please try again.';
+      case 'cancelled':
+        return 'Verification cancelled. Access granted for this run has been revoked and nothing was submitted on-chain.';
       default:
         return 'Ready to verify your identity';
     }
@@ -71,6 +134,8 @@ export function VerificationProgress({
             <CheckCircle2 className="w-5 h-5 text-emerald-500" />
           ) : status === 'failed' ? (
             <XCircle className="w-5 h-5 text-destructive" />
+          ) : status === 'cancelled' ? (
+            <Ban className="w-5 h-5 text-muted-foreground" />
           ) : (
             <Shield className="w-5 h-5" />
           )}
@@ -95,7 +160,7 @@ export function VerificationProgress({
           !['completed', 'failed'].includes(status) && "bg-muted text-muted-foreground"
         )}>
           <div className="flex items-center gap-2">
-            {!['completed', 'failed', 'idle'].includes(status) && (
+            {!['completed', 'failed', 'cancelled', 'idle'].includes(status) && (
               <Loader2 className="w-4 h-4 animate-spin" />
             )}
             {getStatusMessage()}
@@ -108,49 +173,56 @@ export function VerificationProgress({
             const Icon = STEP_ICONS[index] || Circle;
 
             return (
-              <div
-                key={step}
-                className={cn(
-                  "flex items-center gap-3 p-3 rounded-lg transition-all",
-                  stepStatus === 'completed' && "bg-emerald-500/10",
-                  stepStatus === 'active' && "bg-primary/10",
-                  stepStatus === 'failed' && "bg-destructive/10",
-                  stepStatus === 'pending' && "opacity-50"
-                )}
-              >
-                <div className={cn(
-                  "w-8 h-8 rounded-full flex items-center justify-center shrink-0",
-                  stepStatus === 'completed' && "bg-emerald-500 text-background",
-                  stepStatus === 'active' && "bg-primary text-primary-foreground",
-                  stepStatus === 'failed' && "bg-destructive text-background",
-                  stepStatus === 'pending' && "bg-muted text-muted-foreground"
-                )}>
-                  {stepStatus === 'completed' ? (
-                    <CheckCircle2 className="w-4 h-4" />
-                  ) : stepStatus === 'active' ? (
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                  ) : stepStatus === 'failed' ? (
-                    <XCircle className="w-4 h-4" />
-                  ) : (
-                    <Icon className="w-4 h-4" />
+              <div key={step} className="space-y-2">
+                <div
+                  className={cn(
+                    "flex items-center gap-3 p-3 rounded-lg transition-all",
+                    stepStatus === 'completed' && "bg-emerald-500/10",
+                    stepStatus === 'active' && "bg-primary/10",
+                    stepStatus === 'failed' && "bg-destructive/10",
+                    stepStatus === 'cancelled' && "bg-muted",
+                    stepStatus === 'pending' && "opacity-50"
                   )}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className={cn(
-                    "font-medium text-sm",
-                    stepStatus === 'completed' && "text-emerald-700 dark:text-emerald-400",
-                    stepStatus === 'active' && "text-foreground",
-                    stepStatus === 'failed' && "text-destructive",
-                    stepStatus === 'pending' && "text-muted-foreground"
+                >
+                  <div className={cn(
+                    "w-8 h-8 rounded-full flex items-center justify-center shrink-0",
+                    stepStatus === 'completed' && "bg-emerald-500 text-background",
+                    stepStatus === 'active' && "bg-primary text-primary-foreground",
+                    stepStatus === 'failed' && "bg-destructive text-background",
+                    stepStatus === 'cancelled' && "bg-muted-foreground text-background",
+                    stepStatus === 'pending' && "bg-muted text-muted-foreground"
                   )}>
-                    {step}
-                  </p>
+                    {stepStatus === 'completed' ? (
+                      <CheckCircle2 className="w-4 h-4" />
+                    ) : stepStatus === 'active' ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : stepStatus === 'failed' ? (
+                      <XCircle className="w-4 h-4" />
+                    ) : stepStatus === 'cancelled' ? (
+                      <Ban className="w-4 h-4" />
+                    ) : (
+                      <Icon className="w-4 h-4" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className={cn(
+                      "font-medium text-sm",
+                      stepStatus === 'completed' && "text-emerald-700 dark:text-emerald-400",
+                      stepStatus === 'active' && "text-foreground",
+                      stepStatus === 'failed' && "text-destructive",
+                      stepStatus === 'cancelled' && "text-muted-foreground",
+                      stepStatus === 'pending' && "text-muted-foreground"
+                    )}>
+                      {step}
+                    </p>
+                  </div>
+                  {stepStatus === 'completed' && (
+                    <span className="text-xs text-emerald-600 dark:text-emerald-400 font-medium">
+                      Done
+                    </span>
+                  )}
                 </div>
-                {stepStatus === 'completed' && (
-                  <span className="text-xs text-emerald-600 dark:text-emerald-400 font-medium">
-                    Done
-                  </span>
-                )}
+                {index === TEE_STEP && (teeTask || taskProgress) && renderTaskStages()}
               </div>
             );
           })}
@@ -2,7 +2,15 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import crypto from 'node:crypto';
 import { IExecDataProtectorDeserializer } from '@iexec/dataprotector-deserializer';
+import { isAddressEqual } from 'viem';
 import winston from 'winston';
+import { screenIdentity } from './sanctions/screening.js';
+import { loadSanctionsLists } from './sanctions/load.js';
+import { isSupportedDocumentType, validateDocumentNumber } from './documents/validators.js';
+import { readKYCRecord } from './protected-data/kyc-record.js';
+import { recordCommitment, recordNullifier } from './protected-data/commitment.js';
+import { DEFAULT_CHAIN_RPC_URL, readProtectedDataOwner } from './protected-data/owner.js';
+import { attestAttributes, attestationExpiry, hashReportEntry, signAttestation } from './attestation/attestation.js';
 
 const main = async () => {
   const { IEXEC_OUT } = process.env;
@@ -31,59 +39,121 @@ const main = async () => {
   let computedJsonObj = {};
 
   try {
+    // Sanctions lists bundled in the image, or mounted at SANCTIONS_LISTS_DIR
+    const sanctionsLists = await loadSanctionsLists(process.env.SANCTIONS_LISTS_DIR || undefined);
+    logger.info('Loaded sanctions lists', {
+      lists: sanctionsLists.map(({ source, version, entries }) => ({ source, version, entries: entries.length })),
+    });
+
+    // The enclave's signing key is the app developer secret; KYCVerifier trusts its address
+    const { IEXEC_APP_DEVELOPER_SECRET } = process.env;
+    const enclaveKey = IEXEC_APP_DEVELOPER_SECRET && /^0x[0-9a-fA-F]{64}$/.test(IEXEC_APP_DEVELOPER_SECRET)
+      ? IEXEC_APP_DEVELOPER_SECRET
+      : null;
+    if (!enclaveKey) {
+      logger.warn('No enclave signing key in the app developer secret, results will not be signed');
+    }
+
+    // KYCVerifier's nullifier scope, which the web app passes as the task's argument; 0 for per-wallet nullifiers
+    const scopeArg = process.argv[2] ?? '0';
+    if (!/^\d+$/.test(scopeArg)) {
+      throw new Error(`Invalid nullifier scope argument: ${scopeArg}`);
+    }
+    const nullifierScope = BigInt(scopeArg);
+
     let verificationResults = [];
     let documentHashes = [];
 
-    // Process protected KYC data in bulk
+    // One protected record, or IEXEC_BULK_SLICE_SIZE of them in bulk
     const bulkSize = parseInt(process.env.IEXEC_BULK_SLICE_SIZE);
-    if (bulkSize > 0) {
-      logger.info(`Got ${bulkSize} protected KYC documents to process in bulk!`);
-      for (let i = 1; i <= bulkSize; i++) {
-        try {
-          const deserializer = new IExecDataProtectorDeserializer({
-            protectedDataPath: path.join(
-              process.env.IEXEC_IN,
-              process.env[`IEXEC_DATASET_${i}_FILENAME`]
-            ),
-          });
-
-          // Extract KYC document data
-          const documentData = await deserializer.getValue('documentData', 'string');
-          const documentType = await deserializer.getValue('documentType', 'string');
-          const userId = await deserializer.getValue('userId', 'string');
-
-          logger.info(`Processing KYC document ${i} for user: ${userId}`, { userId, documentType });
-
-          // Calculate document hash for verification
-          const docHash = crypto.createHash('sha256').update(documentData).digest('hex');
-
-          // Perform basic KYC verification
-          const verification = await performKYCVerification({
-            documentData,
-            documentType,
-            userId,
-            documentHash: docHash
-          });
-
-          verificationResults.push({
-            userId,
-            documentType,
-            documentHash: docHash,
-            verificationStatus: verification.status,
-            verificationDetails: verification.details,
-            timestamp: new Date().toISOString()
-          });
-
-          documentHashes.push(docHash);
-
-        } catch (e) {
-          logger.error(`Error processing KYC document ${i}`, { error: e.message, documentIndex: i });
-          verificationResults.push({
-            documentIndex: i,
-            error: e.message,
-            timestamp: new Date().toISOString()
-          });
+    const datasets = bulkSize > 0
+      ? Array.from({ length: bulkSize }, (_, i) => ({
+        filename: process.env[`IEXEC_DATASET_${i + 1}_FILENAME`],
+        address: process.env[`IEXEC_DATASET_${i + 1}_ADDRESS`],
+      }))
+      : [{ filename: process.env.IEXEC_DATASET_FILENAME, address: process.env.IEXEC_DATASET_ADDRESS }]
+        .filter(({ filename }) => filename);
+    logger.info(`Got ${datasets.length} protected KYC records to process`);
+    const rpcUrl = process.env.CHAIN_RPC_URL || DEFAULT_CHAIN_RPC_URL;
+
+    for (const [index, { filename, address }] of datasets.entries()) {
+      try {
+        const deserializer = new IExecDataProtectorDeserializer({
+          protectedDataPath: path.join(process.env.IEXEC_IN, filename),
+        });
+
+        // Layout shared with the web app (src/protected-data/kyc-record.js)
+        const record = await readKYCRecord((key, type) => deserializer.getValue(key, type));
+
+        // The record's content is its author's to choose: the subject is the protected data's owner on-chain,
+        // and the commitment the ZK proof is bound to must be the one of the fields verified here
+        if (!address) {
+          throw new Error('The task does not name the protected data it was given');
+        }
+        const userId = await readProtectedDataOwner(address, rpcUrl);
+        if (!isAddressEqual(record.owner, userId)) {
+          throw new Error(`KYC record names ${record.owner} as its owner, but the protected data belongs to ${userId}`);
         }
+        if (recordCommitment(record) !== record.commitment) {
+          throw new Error('KYC record commitment does not match its fields');
+        }
+        const documentType = record.document.type;
+
+        logger.info(`Processing KYC record ${index + 1} for user: ${userId}`, {
+          userId,
+          documentType,
+          schemaVersion: record.schemaVersion,
+          hasImage: record.document.image !== undefined
+        });
+
+        const verification = await performKYCVerification(record, userId, sanctionsLists);
+        const { documentHash } = verification.details;
+
+        const verifiedAt = Date.now();
+        const entry = {
+          userId,
+          documentType,
+          documentHash,
+          commitment: record.commitment,
+          verificationStatus: verification.status,
+          verificationDetails: verification.details,
+          timestamp: new Date(verifiedAt).toISOString()
+        };
+
+        // Signed so the holder can submit the result to KYCVerifier
+        // The expiry is counted from the entry's timestamp, so the web app can tell when the document cut it short
+        const expiryTimestamp = attestationExpiry(record.document.expiryDate, Math.floor(verifiedAt / 1000));
+        const { checks = {} } = verification.details;
+        const attestation = enclaveKey
+          ? await signAttestation({
+            user: userId,
+            isValid: verification.status === 'VERIFIED',
+            proofHash: hashReportEntry(entry),
+            expiryTimestamp,
+            ...attestAttributes({
+              isAdult: checks.isAdult === true,
+              isNotExpired: checks.notExpired === true,
+              isNotSanctioned: checks.notSanctioned === true
+            }, { expiryTimestamp, documentExpiryDate: record.document.expiryDate }),
+            commitment: record.commitment,
+            nullifierHash: recordNullifier(record, userId, nullifierScope),
+            nullifierScope: nullifierScope.toString()
+          }, enclaveKey)
+          : null;
+
+        verificationResults.push({ ...entry, attestation });
+
+        if (documentHash) {
+          documentHashes.push(documentHash);
+        }
+
+      } catch (e) {
+        logger.error(`Error processing KYC record ${index + 1}`, { error: e.message, documentIndex: index + 1 });
+        verificationResults.push({
+          documentIndex: index + 1,
+          error: e.message,
+          timestamp: new Date().toISOString()
+        });
       }
     }
 
@@ -105,14 +175,6 @@ const main = async () => {
       documentHashes.push(fileHash);
     }
 
-    // Handle secrets (API keys, verification keys, etc.)
-    const { IEXEC_APP_DEVELOPER_SECRET } = process.env;
-    let verificationKey = null;
-    if (IEXEC_APP_DEVELOPER_SECRET) {
-      verificationKey = IEXEC_APP_DEVELOPER_SECRET;
-      logger.info('Using app developer secret for enhanced verification');
-    }
-
     const { IEXEC_REQUESTER_SECRET_1 } = process.env;
     let complianceApiKey = null;
     if (IEXEC_REQUESTER_SECRET_1) {
@@ -157,30 +219,45 @@ const main = async () => {
   }
 };
 
+const MINIMUM_AGE = 18;
+
+// Whole years between a YYYY-MM-DD date of birth and today
+const ageInYears = (dateOfBirth, today = new Date()) => {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const hadBirthday = today.getUTCMonth() + 1 > month
+    || (today.getUTCMonth() + 1 === month && today.getUTCDate() >= day);
+  return today.getUTCFullYear() - year - (hadBirthday ? 0 : 1);
+};
+
 // KYC Verification function
-const performKYCVerification = async (documentInfo) => {
-  const { documentData, documentType, userId, documentHash } = documentInfo;
+const performKYCVerification = async (record, userId, sanctionsLists) => {
+  const { document, holder } = record;
+  const today = new Date().toISOString().slice(0, 10);
 
   try {
-    // Basic validation checks
+    // The image, when present, must be the one the holder hashed in the browser
+    const documentHash = document.image
+      ? crypto.createHash('sha256').update(Buffer.from(document.image)).digest('hex')
+      : document.imageHash ?? null;
+
     const checks = {
-      hasData: documentData && documentData.length > 0,
-      validType: ['passport', 'id_card', 'drivers_license', 'utility_bill'].includes(documentType),
-      validUserId: userId && userId.length > 0,
-      dataIntegrity: documentHash && documentHash.length === 64
+      validType: isSupportedDocumentType(document.type),
+      dataIntegrity: !document.image || documentHash === document.imageHash,
+      notExpired: document.expiryDate > today,
+      isAdult: ageInYears(holder.dateOfBirth) >= MINIMUM_AGE
     };
 
-    // Document format validation
-    let formatValid = false;
-    if (documentType === 'passport') {
-      formatValid = validatePassportFormat(documentData);
-    } else if (documentType === 'id_card') {
-      formatValid = validateIdCardFormat(documentData);
-    } else {
-      formatValid = true; // Basic check for other document types
-    }
+    // Document number format, same rules as the web app (src/documents/validators.js)
+    const documentValidation = validateDocumentNumber(document.type, document.number, {
+      issuingCountry: document.issuingCountry || undefined
+    });
+    checks.formatValid = documentValidation.isValid;
 
-    checks.formatValid = formatValid;
+    const sanctions = screenIdentity(
+      { fullName: holder.fullName, dateOfBirth: holder.dateOfBirth },
+      sanctionsLists
+    );
+    checks.notSanctioned = !sanctions.isMatch;
 
     // Determine verification status
     const allChecksPass = Object.values(checks).every(check => check === true);
@@ -189,9 +266,16 @@ const performKYCVerification = async (documentInfo) => {
       status: allChecksPass ? 'VERIFIED' : 'FAILED',
       details: {
         checks,
-        documentType,
+        documentType: document.type,
         userId,
-        documentHash
+        documentHash,
+        nationality: holder.nationality,
+        documentValidation: {
+          isValid: documentValidation.isValid,
+          rule: documentValidation.rule,
+          errors: documentValidation.errors
+        },
+        sanctions
       }
     };
 
@@ -200,29 +284,11 @@ const performKYCVerification = async (documentInfo) => {
       status: 'ERROR',
       details: {
         error: error.message,
-        documentType,
+        documentType: document.type,
         userId
       }
     };
   }
 };
 
-// Basic document format validators
-const validatePassportFormat = (data) => {
-  // Basic passport validation - check for common passport elements
-  const hasPassportNumber = /[A-Z0-9]{6,9}/.test(data);
-  const hasName = /[A-Z][a-z]+ [A-Z][a-z]+/.test(data);
-  const hasDate = /\d{2}\/\d{2}\/\d{4}/.test(data);
-
-  return hasPassportNumber && hasName && hasDate;
-};
-
-const validateIdCardFormat = (data) => {
-  // Basic ID card validation
-  const hasIdNumber = /[A-Z0-9]{8,12}/.test(data);
-  const hasName = /[A-Z][a-z]+ [A-Z][a-z]+/.test(data);
-
-  return hasIdNumber && hasName;
-};
-
 main();
@@ -0,0 +1,141 @@
+// Verification attestations shared by the TEE app and the web app
+//
+// The enclave signs each verification result so that KYCVerifier.submitProof
+// accepts it. The contract recovers the signer from an EIP-191 signature over
+// keccak256(abi.encodePacked(user, result, proofHash, expiryTimestamp,
+// attributes, attributeExpiries, commitment, nullifierHash, nullifierScope)),
+// and this file builds exactly that digest. The enclave signs with its key,
+// the simulator with a test key, and the web app recovers the signer before
+// it sends a transaction. The signed commitment is what lets the holder's ZK
+// proofs over that record through KYCVerifier.submitZKProof, and the signed
+// nullifier binds the document to the holder's wallet.
+
+import { encodePacked, getAddress, keccak256, recoverMessageAddress, stringToHex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+// The longest an attestation stays valid (1 year in seconds); it ends sooner when the document expires first
+export const ATTESTATION_VALIDITY_PERIOD = 365 * 24 * 60 * 60;
+
+// Attributes KYCVerifier stores, in bit order: bit i of a mask is ATTESTED_ATTRIBUTES[i]
+export const ATTESTED_ATTRIBUTES = ['isAdult', 'isNotExpired', 'isNotSanctioned'];
+
+/**
+ * @typedef {Object} Attestation
+ * @property {`0x${string}`} user        Wallet the verification is for
+ * @property {boolean} isValid           Whether every check passed
+ * @property {`0x${string}`} proofHash   bytes32 identifying the report entry (see hashReportEntry)
+ * @property {number} expiryTimestamp    Unix seconds
+ * @property {number} attributes         Bitmask of the attributes that hold (see ATTESTED_ATTRIBUTES)
+ * @property {number[]} attributeExpiries Unix seconds each attribute holds until, by bit; 0 when it does not hold
+ * @property {string} commitment         Record commitment recomputed from the verified fields, as a decimal or hex string
+ * @property {string} nullifierHash      The document's nullifier in nullifierScope (see computeNullifier), as a decimal string
+ * @property {string} nullifierScope     KYCVerifier's nullifier scope the nullifier was computed for, 0 for per-wallet
+ */
+
+/**
+ * @typedef {Attestation & { signer: `0x${string}`, signature: `0x${string}` }} SignedAttestation
+ */
+
+/**
+ * @typedef {Object} ReportEntryFields
+ * @property {string} userId
+ * @property {string} commitment
+ * @property {string | null} documentHash
+ * @property {string} verificationStatus
+ * @property {string} timestamp
+ */
+
+/**
+ * Hash of the report entry fields an attestation vouches for
+ * The web app recomputes it to check the attestation belongs to the entry
+ * @param {ReportEntryFields} entry
+ * @returns {`0x${string}`}
+ */
+export const hashReportEntry = (entry) => {
+  return keccak256(stringToHex(JSON.stringify([
+    getAddress(entry.userId),
+    entry.commitment,
+    entry.documentHash ?? null,
+    entry.verificationStatus,
+    entry.timestamp,
+  ])));
+};
+
+/**
+ * When an attestation signed at `now` expires: a validity period later, or when the document expires if that is sooner
+ * A malformed date leaves the full period; attestAttributes then attests isNotExpired for no time at all
+ * @param {string} documentExpiryDate  YYYY-MM-DD; the document counts as expired from that day on
+ * @param {number} [now]               Unix seconds
+ * @returns {number} Unix seconds
+ */
+export const attestationExpiry = (documentExpiryDate, now = Math.floor(Date.now() / 1000)) => {
+  const documentExpiry = Date.parse(`${documentExpiryDate}T00:00:00Z`) / 1000;
+  const expiry = now + ATTESTATION_VALIDITY_PERIOD;
+  return Number.isNaN(documentExpiry) ? expiry : Math.min(expiry, documentExpiry);
+};
+
+/**
+ * Bitmask and per-attribute expiries of the attributes that hold
+ * Each attribute lasts as long as the attestation, except isNotExpired, which ends when the document expires
+ * @param {Record<string, boolean>} attributes  e.g. { isAdult: true, isNotExpired: true, isNotSanctioned: true }
+ * @param {{ expiryTimestamp: number, documentExpiryDate: string }} expiry
+ *   documentExpiryDate is YYYY-MM-DD; the document counts as expired from that day on
+ * @returns {{ attributes: number, attributeExpiries: number[] }}
+ */
+export const attestAttributes = (attributes, { expiryTimestamp, documentExpiryDate }) => {
+  // NaN, and so 0, for a malformed date
+  const documentExpiry = Math.min(expiryTimestamp, Date.parse(`${documentExpiryDate}T00:00:00Z`) / 1000) || 0;
+  const expiries = { isAdult: expiryTimestamp, isNotExpired: documentExpiry, isNotSanctioned: expiryTimestamp };
+
+  let mask = 0;
+  const attributeExpiries = ATTESTED_ATTRIBUTES.map((attribute, bit) => {
+    if (!attributes[attribute]) return 0;
+    mask |= 1 << bit;
+    return expiries[attribute];
+  });
+  return { attributes: mask, attributeExpiries };
+};
+
+/**
+ * The digest KYCVerifier.submitProof signs over, before the EIP-191 prefix
+ * @param {Attestation} attestation
+ * @returns {`0x${string}`}
+ */
+export const attestationDigest = (attestation) => {
+  return keccak256(encodePacked(
+    ['address', 'bool', 'bytes32', 'uint256', 'uint256', 'uint256[]', 'uint256', 'uint256', 'uint256'],
+    [
+      getAddress(attestation.user),
+      attestation.isValid,
+      attestation.proofHash,
+      BigInt(attestation.expiryTimestamp),
+      BigInt(attestation.attributes),
+      attestation.attributeExpiries.map(BigInt),
+      BigInt(attestation.commitment),
+      BigInt(attestation.nullifierHash),
+      BigInt(attestation.nullifierScope),
+    ]
+  ));
+};
+
+/**
+ * Sign an attestation with an enclave private key
+ * @param {Attestation} attestation
+ * @param {`0x${string}`} privateKey
+ * @returns {Promise<SignedAttestation>}
+ */
+export const signAttestation = async (attestation, privateKey) => {
+  const account = privateKeyToAccount(privateKey);
+  const signature = await account.signMessage({ message: { raw: attestationDigest(attestation) } });
+  return { ...attestation, user: getAddress(attestation.user), signer: account.address, signature };
+};
+
+/**
+ * The address that signed an attestation, as the contract would recover it
+ * @param {Attestation} attestation
+ * @param {`0x${string}`} signature
+ * @returns {Promise<`0x${string}`>}
+ */
+export const recoverAttestationSigner = async (attestation, signature) => {
+  return recoverMessageAddress({ message: { raw: attestationDigest(attestation) }, signature });
+};
@@ -0,0 +1,228 @@
+// ICAO 9303 machine readable zone helpers shared by the TEE app and the web app
+
+/**
+ * Value of an MRZ character: digits 0-9, A-Z 10-35, filler '<' 0
+ * @param {string} char
+ * @returns {number}
+ */
+const mrzCharValue = (char) => {
+  if (char >= '0' && char <= '9') return char.charCodeAt(0) - 48;
+  if (char >= 'A' && char <= 'Z') return char.charCodeAt(0) - 55;
+  if (char === '<') return 0;
+  throw new Error(`Invalid MRZ character: ${char}`);
+};
+
+/**
+ * ICAO 9303 check digit: weights 7, 3, 1 repeating, sum modulo 10
+ * @param {string} value
+ * @returns {number}
+ */
+export const computeMrzCheckDigit = (value) => {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    sum += mrzCharValue(value[i]) * weights[i % 3];
+  }
+  return sum % 10;
+};
+
+/**
+ * Check a field against its check digit ('<' counts as 0 for empty fields)
+ * @param {string} value
+ * @param {string} checkDigit
+ * @returns {boolean}
+ */
+export const isValidMrzCheckDigit = (value, checkDigit) => {
+  const expected = checkDigit === '<' ? 0 : Number(checkDigit);
+  return /^[0-9<]$/.test(checkDigit) && computeMrzCheckDigit(value) === expected;
+};
+
+/**
+ * Pad a document number to the 9-character MRZ field
+ * @param {string} documentNumber
+ * @returns {string}
+ */
+export const toMrzDocumentNumber = (documentNumber) => {
+  return documentNumber.toUpperCase().replace(/[^A-Z0-9]/g, '').padEnd(9, '<');
+};
+
+/**
+ * @typedef {'TD1' | 'TD2' | 'TD3'} MrzFormat
+ */
+
+/**
+ * @typedef {Object} ParsedMrz
+ * @property {MrzFormat} format
+ * @property {string} documentCode   e.g. "P" (passport), "I" / "ID" (identity card)
+ * @property {string} issuingState   3-letter code as printed (Germany is "D")
+ * @property {string} documentNumber
+ * @property {string} surname
+ * @property {string} givenNames
+ * @property {string} nationality    3-letter code as printed
+ * @property {string | null} dateOfBirth  YYYY-MM-DD, null if unreadable
+ * @property {string} sex            "M", "F" or "X"
+ * @property {string | null} expiryDate   YYYY-MM-DD, null if unreadable
+ * @property {Record<string, string>} errors  Per-field problems (documentNumber, dateOfBirth, expiryDate, composite)
+ */
+
+// Line count and length of each ICAO 9303 format
+const MRZ_FORMATS = {
+  TD1: { lines: 3, length: 30 },
+  TD2: { lines: 2, length: 36 },
+  TD3: { lines: 2, length: 44 },
+};
+
+const stripFillers = (value) => value.replace(/<+$/, '').replace(/</g, ' ').trim();
+
+/**
+ * Split "SURNAME<<GIVEN<NAMES" into its parts
+ */
+const parseNames = (field) => {
+  const [surname, ...given] = field.split('<<');
+  return {
+    surname: stripFillers(surname),
+    givenNames: stripFillers(given.join('<<')),
+  };
+};
+
+/**
+ * YYMMDD to YYYY-MM-DD; birth dates in the future belong to the previous century
+ */
+const parseMrzDate = (value, kind, today = new Date()) => {
+  if (!/^[0-9]{6}$/.test(value)) return null;
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const currentYY = today.getFullYear() % 100;
+  const century = kind === 'birth' && yy > currentYY ? 1900 : 2000;
+  return `${century + yy}-${value.slice(2, 4)}-${value.slice(4, 6)}`;
+};
+
+/**
+ * Normalize pasted or OCR'd MRZ text into its lines
+ * @param {string} text
+ * @returns {string[]}
+ */
+const toMrzLines = (text) => {
+  return text
+    .toUpperCase()
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, '').replace(/«/g, '<'))
+    .filter(Boolean);
+};
+
+/**
+ * Detect the format from the line count and lengths
+ * @param {string[]} lines
+ * @returns {MrzFormat | null}
+ */
+const detectMrzFormat = (lines) => {
+  for (const [format, { lines: count, length }] of Object.entries(MRZ_FORMATS)) {
+    if (lines.length === count && lines.every((line) => line.length === length)) {
+      return /** @type {MrzFormat} */ (format);
+    }
+  }
+  return null;
+};
+
+/**
+ * Parse a TD1 (ID card, 3 x 30), TD2 (2 x 36) or TD3 (passport, 2 x 44) MRZ
+ * Throws if the text is not an MRZ; check digit failures are reported per field
+ * @param {string} text
+ * @param {{ today?: Date }} [options]
+ * @returns {ParsedMrz}
+ */
+export const parseMrz = (text, options = {}) => {
+  const lines = toMrzLines(text);
+  const format = detectMrzFormat(lines);
+  if (!format) {
+    throw new Error('Not a machine readable zone: expected 3 lines of 30, 2 of 36 or 2 of 44 characters');
+  }
+  if (lines.some((line) => !/^[A-Z0-9<]+$/.test(line))) {
+    throw new Error('Machine readable zone may only contain A-Z, 0-9 and <');
+  }
+
+  // Field positions per ICAO 9303 part 4 (TD3), 5 (TD1) and 6 (TD2)
+  let fields;
+  if (format === 'TD1') {
+    const [line1, line2, line3] = lines;
+    fields = {
+      documentCode: line1.slice(0, 2),
+      issuingState: line1.slice(2, 5),
+      documentNumber: line1.slice(5, 14),
+      documentNumberCheck: line1.slice(14, 15),
+      optionalData: line1.slice(15, 30),
+      dateOfBirth: line2.slice(0, 6),
+      dateOfBirthCheck: line2.slice(6, 7),
+      sex: line2.slice(7, 8),
+      expiryDate: line2.slice(8, 14),
+      expiryDateCheck: line2.slice(14, 15),
+      nationality: line2.slice(15, 18),
+      compositeCheck: line2.slice(29, 30),
+      compositeValue: line1.slice(5, 30) + line2.slice(0, 7) + line2.slice(8, 15) + line2.slice(18, 29),
+      names: line3,
+    };
+    // Numbers longer than 9 characters continue in the optional data, check digit last
+    if (fields.documentNumberCheck === '<' && fields.optionalData[0] !== '<') {
+      const overflow = fields.optionalData.split('<')[0];
+      fields.documentNumber += overflow.slice(0, -1);
+      fields.documentNumberCheck = overflow.slice(-1);
+    }
+  } else {
+    const [line1, line2] = lines;
+    const end = MRZ_FORMATS[format].length;
+    fields = {
+      documentCode: line1.slice(0, 2),
+      issuingState: line1.slice(2, 5),
+      names: line1.slice(5, end),
+      documentNumber: line2.slice(0, 9),
+      documentNumberCheck: line2.slice(9, 10),
+      nationality: line2.slice(10, 13),
+      dateOfBirth: line2.slice(13, 19),
+      dateOfBirthCheck: line2.slice(19, 20),
+      sex: line2.slice(20, 21),
+      expiryDate: line2.slice(21, 27),
+      expiryDateCheck: line2.slice(27, 28),
+      compositeCheck: line2.slice(end - 1, end),
+      compositeValue: line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, end - 1),
+    };
+  }
+
+  const errors = {};
+  if (!isValidMrzCheckDigit(fields.documentNumber, fields.documentNumberCheck)) {
+    errors.documentNumber = 'Document number does not match its check digit';
+  }
+
+  const dateOfBirth = parseMrzDate(fields.dateOfBirth, 'birth', options.today);
+  if (!dateOfBirth) {
+    errors.dateOfBirth = 'Date of birth is not a valid date';
+  } else if (!isValidMrzCheckDigit(fields.dateOfBirth, fields.dateOfBirthCheck)) {
+    errors.dateOfBirth = 'Date of birth does not match its check digit';
+  }
+
+  const expiryDate = parseMrzDate(fields.expiryDate, 'expiry', options.today);
+  if (!expiryDate) {
+    errors.expiryDate = 'Expiry date is not a valid date';
+  } else if (!isValidMrzCheckDigit(fields.expiryDate, fields.expiryDateCheck)) {
+    errors.expiryDate = 'Expiry date does not match its check digit';
+  }
+
+  if (!isValidMrzCheckDigit(fields.compositeValue, fields.compositeCheck)) {
+    errors.composite = 'Overall check digit does not match; re-check the pasted lines';
+  }
+
+  return {
+    format,
+    documentCode: stripFillers(fields.documentCode),
+    issuingState: stripFillers(fields.issuingState),
+    documentNumber: stripFillers(fields.documentNumber),
+    ...parseNames(fields.names),
+    nationality: stripFillers(fields.nationality),
+    dateOfBirth,
+    sex: fields.sex === '<' ? 'X' : fields.sex,
+    expiryDate,
+    errors,
+  };
+};
@@ -0,0 +1,193 @@
+// Document number validators keyed by document type
+//
+// Shared by the KYC form, the web app's simulator and the TEE app so all three
+// accept the same numbers. Register more with registerDocumentValidator.
+
+import { isValidMrzCheckDigit, toMrzDocumentNumber } from './mrz.js';
+
+/**
+ * @typedef {Object} DocumentValidationContext
+ * @property {string} [issuingCountry]  ISO 3166-1 alpha-2 code, enables country rules
+ * @property {string} [checkDigit]      ICAO 9303 check digit of the number, from the MRZ
+ */
+
+/**
+ * @typedef {Object} DocumentValidation
+ * @property {boolean} isValid
+ * @property {string} normalized  Number with separators removed, uppercase
+ * @property {string} rule        Which rule was applied, e.g. "aadhaar", "national_id:ES"
+ * @property {string[]} errors
+ */
+
+/**
+ * @typedef {(normalized: string, context: DocumentValidationContext) => { rule: string, errors: string[] }} DocumentValidator
+ */
+
+// Verhoeff dihedral group tables (used by Aadhaar)
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Verhoeff checksum over a digit string that ends in its check digit
+ * @param {string} digits
+ * @returns {boolean}
+ */
+export const isValidVerhoeff = (digits) => {
+  let c = 0;
+  const reversed = digits.split('').reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    c = VERHOEFF_D[c][VERHOEFF_P[i % 8][Number(reversed[i])]];
+  }
+  return c === 0;
+};
+
+// Spanish DNI/NIE control letter: number modulo 23
+const DNI_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+
+const isValidSpanishDni = (value) => {
+  const nie = { X: '0', Y: '1', Z: '2' };
+  const digits = value.slice(0, -1).replace(/^[XYZ]/, (prefix) => nie[prefix]);
+  return DNI_LETTERS[Number(digits) % 23] === value.slice(-1);
+};
+
+// Country-specific formats; numbers from other countries use the generic rule
+const NATIONAL_ID_PATTERNS = {
+  DE: { pattern: /^[CFGHJKLMNPRTVWXYZ0-9]{9}$/, description: '9 characters (Personalausweis)' },
+  ES: { pattern: /^([0-9]{8}|[XYZ][0-9]{7})[A-Z]$/, description: '8 digits and a letter (DNI) or X/Y/Z, 7 digits and a letter (NIE)', check: isValidSpanishDni },
+  FR: { pattern: /^([0-9]{12}|[A-Z0-9]{9})$/, description: '12 digits, or 9 characters since 2021' },
+  IT: { pattern: /^C[A-Z][0-9]{5}[A-Z]{2}$/, description: 'CA00000AA (CIE)' },
+  NL: { pattern: /^[A-NP-Z]{2}[A-NP-Z0-9]{6}[0-9]$/, description: '9 characters, no letter O' },
+  SG: { pattern: /^[STFGM][0-9]{7}[A-Z]$/, description: 'S1234567D (NRIC/FIN)' },
+};
+
+const DRIVING_LICENSE_PATTERNS = {
+  GB: { pattern: /^[A-Z9]{5}[0-9]{6}[A-Z9]{2}[0-9][A-Z]{2}$/, description: '16 characters (DVLA)' },
+  IN: { pattern: /^[A-Z]{2}[0-9]{2}(19|20)[0-9]{2}[0-9]{7}$/, description: 'state code, RTO, year of issue and 7 digits' },
+  DE: { pattern: /^[A-Z0-9]{11}$/, description: '11 characters' },
+  FR: { pattern: /^([0-9]{12}|[0-9]{2}[A-Z]{2}[0-9]{5})$/, description: '12 digits or 99AA99999' },
+};
+
+const GENERIC_PATTERN = /^[A-Z0-9]{5,20}$/;
+
+/**
+ * Apply a country pattern when there is one for the issuing country
+ */
+const countryRule = (type, patterns) => (normalized, { issuingCountry }) => {
+  const country = issuingCountry?.toUpperCase();
+  const rule = country ? patterns[country] : undefined;
+
+  if (!rule) {
+    return {
+      rule: type,
+      errors: GENERIC_PATTERN.test(normalized) ? [] : ['Must be 5 to 20 letters or digits'],
+    };
+  }
+  if (!rule.pattern.test(normalized)) {
+    return { rule: `${type}:${country}`, errors: [`Expected ${rule.description}`] };
+  }
+  if (rule.check && !rule.check(normalized)) {
+    return { rule: `${type}:${country}`, errors: ['Control character does not match'] };
+  }
+  return { rule: `${type}:${country}`, errors: [] };
+};
+
+/** @type {Record<string, DocumentValidator>} */
+const validators = {
+  // ICAO 9303: up to 9 characters; the MRZ check digit is verified when known
+  passport: (normalized, { checkDigit }) => {
+    const errors = [];
+    if (!/^[A-Z0-9]{6,9}$/.test(normalized)) {
+      errors.push('Passport numbers are 6 to 9 letters or digits');
+    } else if (checkDigit !== undefined && !isValidMrzCheckDigit(toMrzDocumentNumber(normalized), checkDigit)) {
+      errors.push('Passport number does not match its MRZ check digit');
+    }
+    return { rule: 'passport', errors };
+  },
+
+  // 12 digits, never starting with 0 or 1, Verhoeff check digit last
+  aadhaar: (normalized) => {
+    const errors = [];
+    if (!/^[2-9][0-9]{11}$/.test(normalized)) {
+      errors.push('Aadhaar numbers are 12 digits and do not start with 0 or 1');
+    } else if (!isValidVerhoeff(normalized)) {
+      errors.push('Aadhaar number checksum is invalid');
+    }
+    return { rule: 'aadhaar', errors };
+  },
+
+  // AAAAA9999A; the 4th letter is the holder type (P = individual, C = company, ...)
+  pan_card: (normalized) => ({
+    rule: 'pan_card',
+    errors: /^[A-Z]{3}[ABCFGHJLPT][A-Z][0-9]{4}[A-Z]$/.test(normalized)
+      ? []
+      : ['PAN must look like ABCPE1234F'],
+  }),
+
+  national_id: countryRule('national_id', NATIONAL_ID_PATTERNS),
+
+  driving_license: countryRule('driving_license', DRIVING_LICENSE_PATTERNS),
+};
+
+/**
+ * Strip spaces, dashes and MRZ fillers and uppercase
+ * @param {string} documentNumber
+ * @returns {string}
+ */
+export const normalizeDocumentNumber = (documentNumber) => {
+  return documentNumber.toUpperCase().replace(/[\s\-.\/<]/g, '');
+};
+
+/**
+ * Add or replace the validator for a document type
+ * @param {string} documentType
+ * @param {DocumentValidator} validator
+ */
+export const registerDocumentValidator = (documentType, validator) => {
+  validators[documentType] = validator;
+};
+
+/**
+ * @param {string} documentType
+ * @returns {boolean}
+ */
+export const isSupportedDocumentType = (documentType) => {
+  return Object.prototype.hasOwnProperty.call(validators, documentType);
+};
+
+/**
+ * Validate a document number with the rules for its type
+ * @param {string} documentType
+ * @param {string} documentNumber
+ * @param {DocumentValidationContext} [context]
+ * @returns {DocumentValidation}
+ */
+export const validateDocumentNumber = (documentType, documentNumber, context = {}) => {
+  const normalized = normalizeDocumentNumber(documentNumber ?? '');
+  const validator = validators[documentType];
+  if (!validator) {
+    return { isValid: false, normalized, rule: 'unsupported', errors: [`Unsupported document type: ${documentType}`] };
+  }
+
+  const { rule, errors } = validator(normalized, context);
+  return { isValid: errors.length === 0, normalized, rule, errors };
+};
@@ -0,0 +1,213 @@
+// Record commitment
+//
+// The Poseidon commitment a ZK proof is bound to, the document nullifier, and
+// the field encodings they are built from. The web app encodes circuit inputs
+// with these (lib/utils/field.ts) and the TEE app recomputes a record's
+// commitment from its fields, so a record cannot carry a commitment to other
+// data, and signs the nullifier KYCVerifier binds the document with.
+
+import {
+  poseidon1, poseidon2, poseidon3, poseidon4, poseidon5, poseidon6, poseidon7, poseidon8,
+  poseidon9, poseidon10, poseidon11, poseidon12, poseidon13, poseidon14, poseidon15, poseidon16,
+} from 'poseidon-lite';
+import { getCountryCode } from '../documents/countries.js';
+
+// Strings are packed into 31-byte chunks so every chunk fits in the field
+const STRING_CHUNK_BYTES = 31;
+
+// Poseidon in circomlib accepts at most 16 inputs (length + 15 chunks)
+const MAX_STRING_CHUNKS = 15;
+
+const POSEIDON = [
+  poseidon1, poseidon2, poseidon3, poseidon4, poseidon5, poseidon6, poseidon7, poseidon8,
+  poseidon9, poseidon10, poseidon11, poseidon12, poseidon13, poseidon14, poseidon15, poseidon16,
+];
+
+/**
+ * Stable numeric codes for document types
+ * Append new types at the end; changing a code changes every nullifier
+ * @type {Readonly<Record<string, number>>}
+ */
+export const DOCUMENT_TYPE_CODES = {
+  passport: 1,
+  national_id: 2,
+  driving_license: 3,
+  aadhaar: 4,
+  pan_card: 5,
+};
+
+/**
+ * @typedef {Object} DateSignals
+ * @property {number} year
+ * @property {number} month
+ * @property {number} day
+ */
+
+/**
+ * @typedef {Object} CommitmentFields
+ * @property {string} documentType
+ * @property {string} documentNumber
+ * @property {string} fullName
+ * @property {string} nationality     Country name, alpha-2 or alpha-3 code
+ * @property {string} dateOfBirth     YYYY-MM-DD
+ * @property {string} expiryDate      YYYY-MM-DD
+ */
+
+/**
+ * Poseidon hash matching circomlib's Poseidon(n) template
+ * @param {bigint[]} inputs
+ * @returns {bigint}
+ */
+export const poseidonHash = (inputs) => {
+  const hasher = POSEIDON[inputs.length - 1];
+  if (!hasher) {
+    throw new Error(`Poseidon supports 1 to ${POSEIDON.length} inputs, got ${inputs.length}`);
+  }
+  return hasher(inputs);
+};
+
+/**
+ * Split a YYYY-MM-DD date into circuit inputs
+ * Parsed from the string to avoid local timezone shifting the day
+ * @param {string} date
+ * @returns {DateSignals}
+ */
+export const encodeDate = (date) => {
+  const [year, month, day] = date.split('-').map(Number);
+  if (!year || !month || !day || month > 12 || day > 31) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+  return { year, month, day };
+};
+
+/**
+ * Pack a date into a single comparable field element (YYYYMMDD)
+ * The circuits compute the same value as year * 10000 + month * 100 + day
+ * @param {DateSignals} date
+ * @returns {bigint}
+ */
+export const packDate = ({ year, month, day }) => BigInt(year * 10000 + month * 100 + day);
+
+/**
+ * Pack a UTF-8 string into big-endian 31-byte field elements
+ * @param {string} value
+ * @returns {bigint[]}
+ */
+export const packString = (value) => {
+  const bytes = new TextEncoder().encode(value);
+  const chunks = [];
+
+  for (let offset = 0; offset < bytes.length; offset += STRING_CHUNK_BYTES) {
+    let chunk = BigInt(0);
+    for (const byte of bytes.subarray(offset, offset + STRING_CHUNK_BYTES)) {
+      chunk = (chunk << BigInt(8)) | BigInt(byte);
+    }
+    chunks.push(chunk);
+  }
+
+  return chunks;
+};
+
+/**
+ * Hash a string into one field element: Poseidon(byteLength, ...chunks)
+ * The length prefix keeps "AB" and "AB\0" from colliding
+ * @param {string} value
+ * @returns {bigint}
+ */
+export const hashString = (value) => {
+  const chunks = packString(value);
+  if (chunks.length > MAX_STRING_CHUNKS) {
+    throw new Error(`String too long to hash into a field element: ${value.length} characters`);
+  }
+  const byteLength = new TextEncoder().encode(value).length;
+  return poseidonHash([BigInt(byteLength), ...chunks]);
+};
+
+/**
+ * Normalize a name the way it appears in an MRZ: upper case, no accents,
+ * single spaces
+ * @param {string} name
+ * @returns {string}
+ */
+export const normalizeName = (name) => name
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toUpperCase()
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * Normalize a document number: upper case, no spaces or separators
+ * @param {string} documentNumber
+ * @returns {string}
+ */
+export const normalizeDocumentNumber = (documentNumber) => documentNumber.toUpperCase().replace(/[\s\-/.]/g, '');
+
+/**
+ * @param {string} documentType
+ * @returns {bigint}
+ */
+export const encodeDocumentType = (documentType) => {
+  const code = DOCUMENT_TYPE_CODES[documentType];
+  if (!code) {
+    throw new Error(`Unknown document type: ${documentType}`);
+  }
+  return BigInt(code);
+};
+
+/**
+ * Commitment to an identity, as the full KYC circuit computes it:
+ * Poseidon(documentType, documentHash, nameHash, nationalityCode, birthDate, expiryDate)
+ * Rendered as a decimal string, like a public signal
+ * @param {CommitmentFields} fields
+ * @returns {string}
+ */
+export const computeCommitment = (fields) => poseidonHash([
+  encodeDocumentType(fields.documentType),
+  hashString(normalizeDocumentNumber(fields.documentNumber)),
+  hashString(normalizeName(fields.fullName)),
+  BigInt(getCountryCode(fields.nationality)),
+  packDate(encodeDate(fields.dateOfBirth)),
+  packDate(encodeDate(fields.expiryDate)),
+]).toString();
+
+/**
+ * Commitment to the identity a protected KYC record holds, recomputed from its fields
+ * @param {import('./kyc-record.js').KYCRecord} record
+ * @returns {string}
+ */
+export const recordCommitment = (record) => computeCommitment({
+  documentType: record.document.type,
+  documentNumber: record.document.number,
+  fullName: record.holder.fullName,
+  nationality: record.holder.nationality,
+  dateOfBirth: record.holder.dateOfBirth,
+  expiryDate: record.document.expiryDate,
+});
+
+/**
+ * Nullifier of a document, as the full KYC circuit computes it:
+ * Poseidon(documentType, documentHash, scope), where a scope of 0 stands for the wallet's address
+ * Rendered as a decimal string, like a public signal
+ * @param {Pick<CommitmentFields, 'documentType' | 'documentNumber'>} fields
+ * @param {string} userAddress
+ * @param {bigint} [scope]
+ * @returns {string}
+ */
+export const computeNullifier = (fields, userAddress, scope = BigInt(0)) => poseidonHash([
+  encodeDocumentType(fields.documentType),
+  hashString(normalizeDocumentNumber(fields.documentNumber)),
+  scope === BigInt(0) ? BigInt(userAddress) : scope,
+]).toString();
+
+/**
+ * Nullifier of the document a protected KYC record holds
+ * @param {import('./kyc-record.js').KYCRecord} record
+ * @param {string} userAddress
+ * @param {bigint} [scope]
+ * @returns {string}
+ */
+export const recordNullifier = (record, userAddress, scope) => computeNullifier({
+  documentType: record.document.type,
+  documentNumber: record.document.number,
+}, userAddress, scope);
@@ -0,0 +1,149 @@
+// Layout of the KYC record protected with DataProtector
+//
+// The web app writes this record (lib/services/kyc-record.ts) and the TEE app
+// reads it back with the DataProtector deserializer. Both sides import this
+// file, so a field added here is a field added to the contract. Bump
+// KYC_RECORD_SCHEMA_VERSION for any change an older reader cannot ignore.
+
+/**
+ * @typedef {'bool' | 'f64' | 'i128' | 'string' | 'application/octet-stream'} KYCRecordFieldType
+ */
+
+/**
+ * @typedef {Object} KYCRecordField
+ * @property {string} path               Dot-separated path in the protected data
+ * @property {KYCRecordFieldType} type   DataProtector schema type
+ * @property {boolean} required
+ */
+
+/**
+ * @typedef {Object} KYCRecord
+ * @property {number} schemaVersion
+ * @property {string} owner        Wallet address that protected the record
+ * @property {string} commitment   Poseidon commitment the ZK proof is bound to
+ * @property {{
+ *   type: string,
+ *   number: string,
+ *   issuingCountry: string,
+ *   expiryDate: string,
+ *   imageHash?: string,
+ *   image?: ArrayBuffer,
+ * }} document
+ * @property {{ fullName: string, dateOfBirth: string, nationality: string }} holder
+ */
+
+export const KYC_RECORD_KIND = 'kyc';
+export const KYC_RECORD_SCHEMA_VERSION = 1;
+
+/** @type {KYCRecordField[]} */
+export const KYC_RECORD_FIELDS = [
+  { path: 'kind', type: 'string', required: true },
+  { path: 'schemaVersion', type: 'f64', required: true },
+  { path: 'owner', type: 'string', required: true },
+  { path: 'commitment', type: 'string', required: true },
+  { path: 'document.type', type: 'string', required: true },
+  { path: 'document.number', type: 'string', required: true },
+  // ISO 3166-1 alpha-2, empty when the document has no issuing country
+  { path: 'document.issuingCountry', type: 'string', required: true },
+  { path: 'document.expiryDate', type: 'string', required: true },
+  // SHA-256 hex of the image bytes, present whenever an image was uploaded
+  { path: 'document.imageHash', type: 'string', required: false },
+  { path: 'document.image', type: 'application/octet-stream', required: false },
+  { path: 'holder.fullName', type: 'string', required: true },
+  { path: 'holder.dateOfBirth', type: 'string', required: true },
+  // ISO 3166-1 alpha-2
+  { path: 'holder.nationality', type: 'string', required: true },
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read a KYC record field by field
+ *
+ * `getValue` is typically `deserializer.getValue.bind(deserializer)`; it must
+ * reject when a path is missing. Throws if the record is not a KYC record, was
+ * written with an unsupported schema version or lacks a required field.
+ *
+ * @param {(path: string, type: KYCRecordFieldType) => Promise<unknown>} getValue
+ * @returns {Promise<KYCRecord>}
+ */
+export const readKYCRecord = async (getValue) => {
+  const read = async ({ path, type, required }) => {
+    try {
+      return await getValue(path, type);
+    } catch (error) {
+      if (required) {
+        throw new Error(`Protected data is missing ${path}`);
+      }
+      return undefined;
+    }
+  };
+
+  // Records protected before the schema existed only carry { type, user, doc }
+  const kind = await read(KYC_RECORD_FIELDS[0]).catch(() => undefined);
+  if (kind !== KYC_RECORD_KIND) {
+    throw new Error('Protected data is not a KYC record; protect it again with the current app');
+  }
+  const schemaVersion = Number(await read(KYC_RECORD_FIELDS[1]));
+  if (schemaVersion !== KYC_RECORD_SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported KYC record schema version ${schemaVersion}, expected ${KYC_RECORD_SCHEMA_VERSION}`
+    );
+  }
+
+  /** @type {Record<string, any>} */
+  const record = {};
+  for (const field of KYC_RECORD_FIELDS) {
+    const value = await read(field);
+    if (value === undefined) continue;
+
+    const keys = field.path.split('.');
+    let target = record;
+    for (const key of keys.slice(0, -1)) {
+      target = target[key] ??= {};
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  record.schemaVersion = schemaVersion;
+
+  const errors = validateKYCRecord(/** @type {KYCRecord} */ (record));
+  if (errors.length) {
+    throw new Error(`Invalid KYC record: ${errors.join('; ')}`);
+  }
+  return /** @type {KYCRecord} */ (record);
+};
+
+/**
+ * Format checks on a decoded record; the business checks (age, expiry,
+ * sanctions, document number rules) are left to the caller
+ * @param {KYCRecord} record
+ * @returns {string[]}
+ */
+export const validateKYCRecord = (record) => {
+  const errors = [];
+  if (!/^0x[0-9a-fA-F]{40}$/.test(record.owner)) {
+    errors.push('owner is not an address');
+  }
+  if (!/^\d+$/.test(record.commitment)) {
+    errors.push('commitment is not a field element');
+  }
+  if (!ISO_DATE.test(record.document.expiryDate)) {
+    errors.push('document.expiryDate is not YYYY-MM-DD');
+  }
+  if (!ISO_DATE.test(record.holder.dateOfBirth)) {
+    errors.push('holder.dateOfBirth is not YYYY-MM-DD');
+  }
+  if (record.document.issuingCountry && !/^[A-Z]{2}$/.test(record.document.issuingCountry)) {
+    errors.push('document.issuingCountry is not an ISO alpha-2 code');
+  }
+  if (!/^[A-Z]{2}$/.test(record.holder.nationality)) {
+    errors.push('holder.nationality is not an ISO alpha-2 code');
+  }
+  if (record.document.imageHash !== undefined && !/^[0-9a-f]{64}$/.test(record.document.imageHash)) {
+    errors.push('document.imageHash is not a SHA-256 hex digest');
+  }
+  if (record.document.image !== undefined && record.document.imageHash === undefined) {
+    errors.push('document.image has no document.imageHash');
+  }
+  return errors;
+};
@@ -0,0 +1,29 @@
+// Protected data ownership
+//
+// A KYC record names the wallet that protected it, but that field is content
+// the record's author chose. The wallet a verification is for is read from
+// the protected data's contract instead: iExec datasets are registry entries
+// whose owner() is the current holder of the entry.
+
+import { createPublicClient, getAddress, http, parseAbi } from 'viem';
+
+// Chain the web app protects data on (Arbitrum Sepolia); CHAIN_RPC_URL overrides it
+export const DEFAULT_CHAIN_RPC_URL = 'https://sepolia-rollup.arbitrum.io/rpc';
+
+const DATASET_ABI = parseAbi(['function owner() view returns (address)']);
+
+/**
+ * Owner of a protected data, read on-chain
+ * @param {string} datasetAddress
+ * @param {string} [rpcUrl]
+ * @returns {Promise<`0x${string}`>}
+ */
+export const readProtectedDataOwner = async (datasetAddress, rpcUrl = DEFAULT_CHAIN_RPC_URL) => {
+  const client = createPublicClient({ transport: http(rpcUrl) });
+  const owner = await client.readContract({
+    address: getAddress(datasetAddress),
+    abi: DATASET_ABI,
+    functionName: 'owner',
+  });
+  return getAddress(owner);
+};
@@ -0,0 +1,28 @@
+// Load sanctions lists in the shared JSON format from a directory
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseSanctionsList } from './screening.js';
+
+// Lists bundled into the app image
+export const DEFAULT_LISTS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'lists');
+
+/**
+ * Read and validate every *.json list in a directory
+ * @param {string} [dir]
+ * @returns {Promise<import('./screening.js').SanctionsList[]>}
+ */
+export const loadSanctionsLists = async (dir = DEFAULT_LISTS_DIR) => {
+  const files = (await fs.readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+  if (!files.length) {
+    throw new Error(`No sanctions lists found in ${dir}`);
+  }
+
+  return Promise.all(
+    files.map(async (file) => {
+      const raw = JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'));
+      return parseSanctionsList(raw);
+    })
+  );
+};
@@ -0,0 +1,266 @@
+// Sanctions screening shared by the TEE app and the web app's simulator
+//
+// Lists (OFAC SDN, UN consolidated, EU consolidated, ...) are converted to one
+// JSON format (see parseSanctionsList) and screened with normalized fuzzy
+// name matching plus date-of-birth comparison. No I/O here, so the same code
+// runs in the enclave and in the browser.
+
+/**
+ * @typedef {Object} SanctionsEntry
+ * @property {string} id              Identifier of the entry in the source list
+ * @property {string[]} names         Primary name first, then aliases
+ * @property {string[]} datesOfBirth  YYYY-MM-DD, YYYY-MM or YYYY
+ * @property {string[]} nationalities
+ * @property {string[]} programs      Sanctions programs / regimes
+ */
+
+/**
+ * @typedef {Object} SanctionsList
+ * @property {string} source   e.g. "OFAC-SDN", "UN", "EU"
+ * @property {string} version  Publication date of the export
+ * @property {SanctionsEntry[]} entries
+ */
+
+/**
+ * @typedef {Object} ScreeningSubject
+ * @property {string} fullName
+ * @property {string} dateOfBirth  YYYY-MM-DD
+ */
+
+/**
+ * @typedef {Object} SanctionsMatch
+ * @property {string} source
+ * @property {string} entryId
+ * @property {string} matchedName
+ * @property {number} score      Combined name and date-of-birth score, 0..1
+ * @property {number} nameScore  Name similarity alone, 0..1
+ * @property {string[]} reasons
+ * @property {string[]} programs
+ */
+
+/**
+ * @typedef {Object} SanctionsScreening
+ * @property {boolean} isMatch
+ * @property {number} threshold
+ * @property {{ source: string, version: string }[]} listsChecked
+ * @property {SanctionsMatch[]} matches  Entries scoring at or above the threshold, best first
+ */
+
+export const DEFAULT_MATCH_THRESHOLD = 0.85;
+
+// How much a date-of-birth comparison scales the name score
+const DOB_FACTORS = {
+  exact: 1,
+  yearAndMonth: 0.97,
+  year: 0.95,
+  unknown: 0.9,
+  different: 0.5,
+};
+
+/**
+ * Normalize a name for comparison: strip accents and punctuation, uppercase,
+ * single spaces
+ * @param {string} name
+ * @returns {string}
+ */
+export const normalizeName = (name) => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Jaro-Winkler similarity of two strings, 0..1
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+export const jaroWinkler = (a, b) => {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Token-based name similarity, insensitive to word order and tolerant of
+ * typos, missing middle names and transliteration differences
+ * @param {string} a  normalized name
+ * @param {string} b  normalized name
+ * @returns {number}
+ */
+export const nameSimilarity = (a, b) => {
+  const aTokens = a.split(' ').filter(Boolean);
+  const bTokens = b.split(' ').filter(Boolean);
+  if (!aTokens.length || !bTokens.length) return 0;
+
+  const bestMatches = (from, to) =>
+    from.reduce((sum, token) => sum + Math.max(...to.map((other) => jaroWinkler(token, other))), 0) / from.length;
+
+  return (bestMatches(aTokens, bTokens) + bestMatches(bTokens, aTokens)) / 2;
+};
+
+/**
+ * Compare the subject's date of birth with the dates listed for an entry
+ * @param {string} dateOfBirth  YYYY-MM-DD
+ * @param {string[]} listed
+ * @returns {{ factor: number, reason: string }}
+ */
+const compareDatesOfBirth = (dateOfBirth, listed) => {
+  if (!listed.length) {
+    return { factor: DOB_FACTORS.unknown, reason: 'No date of birth on the list entry' };
+  }
+
+  for (const date of listed) {
+    if (date === dateOfBirth) {
+      return { factor: DOB_FACTORS.exact, reason: `Date of birth matches ${date}` };
+    }
+  }
+  for (const date of listed) {
+    if (date.length === 7 && dateOfBirth.startsWith(date)) {
+      return { factor: DOB_FACTORS.yearAndMonth, reason: `Month of birth matches listed ${date}` };
+    }
+  }
+  for (const date of listed) {
+    if (date.length === 4 && dateOfBirth.startsWith(date)) {
+      return { factor: DOB_FACTORS.year, reason: `Year of birth matches listed ${date}` };
+    }
+  }
+
+  return { factor: DOB_FACTORS.different, reason: `Date of birth differs from listed ${listed.join(', ')}` };
+};
+
+/**
+ * Validate a list in the shared JSON format, throwing on malformed input
+ * @param {unknown} raw
+ * @returns {SanctionsList}
+ */
+export const parseSanctionsList = (raw) => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Sanctions list must be a JSON object');
+  }
+  const { source, version, entries } = /** @type {Record<string, unknown>} */ (raw);
+  if (typeof source !== 'string' || !source) {
+    throw new Error('Sanctions list is missing its source');
+  }
+  if (typeof version !== 'string' || !version) {
+    throw new Error(`Sanctions list ${source} is missing its version`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error(`Sanctions list ${source} has no entries array`);
+  }
+
+  const isStringArray = (value) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+  return {
+    source,
+    version,
+    entries: entries.map((entry, index) => {
+      if (!entry || typeof entry.id !== 'string' || !isStringArray(entry.names) || !entry.names.length) {
+        throw new Error(`Sanctions list ${source}: entry ${index} needs an id and at least one name`);
+      }
+      const datesOfBirth = entry.datesOfBirth ?? [];
+      if (!isStringArray(datesOfBirth) || datesOfBirth.some((date) => !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(date))) {
+        throw new Error(`Sanctions list ${source}: entry ${entry.id} has an invalid date of birth`);
+      }
+      return {
+        id: entry.id,
+        names: entry.names,
+        datesOfBirth,
+        nationalities: isStringArray(entry.nationalities) ? entry.nationalities : [],
+        programs: isStringArray(entry.programs) ? entry.programs : [],
+      };
+    }),
+  };
+};
+
+/**
+ * Screen a person against sanctions lists
+ * @param {ScreeningSubject} subject
+ * @param {SanctionsList[]} lists
+ * @param {{ threshold?: number }} [options]
+ * @returns {SanctionsScreening}
+ */
+export const screenIdentity = (subject, lists, options = {}) => {
+  const threshold = options.threshold ?? DEFAULT_MATCH_THRESHOLD;
+  const subjectName = normalizeName(subject.fullName);
+  const matches = [];
+
+  for (const list of lists) {
+    for (const entry of list.entries) {
+      let best = { name: '', score: 0, isAlias: false };
+      entry.names.forEach((name, index) => {
+        const score = nameSimilarity(subjectName, normalizeName(name));
+        if (score > best.score) {
+          best = { name, score, isAlias: index > 0 };
+        }
+      });
+
+      // Cheap cut-off: even an exact date of birth cannot lift this over the threshold
+      if (best.score < threshold) continue;
+
+      const dob = compareDatesOfBirth(subject.dateOfBirth, entry.datesOfBirth);
+      const score = best.score * dob.factor;
+      if (score < threshold) continue;
+
+      matches.push({
+        source: list.source,
+        entryId: entry.id,
+        matchedName: best.name,
+        score: Math.round(score * 1000) / 1000,
+        nameScore: Math.round(best.score * 1000) / 1000,
+        reasons: [
+          `Name is ${Math.round(best.score * 100)}% similar to ${best.isAlias ? 'alias' : 'listed name'} "${best.name}"`,
+          dob.reason,
+        ],
+        programs: entry.programs,
+      });
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score);
+
+  return {
+    isMatch: matches.length > 0,
+    threshold,
+    listsChecked: lists.map(({ source, version }) => ({ source, version })),
+    matches,
+  };
+};
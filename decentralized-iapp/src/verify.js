@@ -1,4 +1,7 @@
-module.exports = async function (encryptedData) {
+import { screenIdentity } from './sanctions/screening.js';
+import { loadSanctionsLists } from './sanctions/load.js';
+
+export default async function (encryptedData) {
   const identity = decrypt(encryptedData);
   
   // Age verification
@@ -11,9 +14,9 @@ module.exports = async function (encryptedData) {
   const expiry = new Date(identity.expiryDate);
   if (expiry < today) return false;
   
-  // Sanctions check (implement your logic)
-  // const isSanctioned = await checkSanctionsList(identity);
-  // if (isSanctioned) return false;
+  // Sanctions check
+  const sanctions = screenIdentity(identity, await loadSanctionsLists());
+  if (sanctions.isMatch) return false;
   
   return true;
-};
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+// Record commitments and nullifiers computed by the enclave (src/protected-data/commitment.js)
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeCommitment, recordCommitment, recordNullifier } from '../src/protected-data/commitment.js';
+
+// First case of circuits/vectors/full_kyc.json, where the circuit computes the same commitment
+const COMMITMENT = '9923008122220777959526249360181111717615694555792064555077355269843780110007';
+
+// The nullifiers the circuit computes for the same case, per wallet and scoped to the 'zkkyc' application
+const WALLET_NULLIFIER = '1625032861821519457666798907977283794370976312700261404860728399177842395033';
+const ZKKYC_SCOPE = BigInt('21491682939382844171176505624349749794787288046461252878376401128120140255956');
+const ZKKYC_NULLIFIER = '10095750767873758773509552081910126531886674684876462691095498036695660954517';
+const OTHER_WALLET = '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65';
+
+/** @returns {import('../src/protected-data/kyc-record.js').KYCRecord} */
+const record = () => ({
+  schemaVersion: 1,
+  owner: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  commitment: COMMITMENT,
+  document: { type: 'passport', number: 'L898902C3', issuingCountry: 'DE', expiryDate: '2032-04-15' },
+  holder: { fullName: 'Anna María Eriksson', dateOfBirth: '1974-08-12', nationality: 'DE' },
+});
+
+describe('recordCommitment', () => {
+  it('matches the commitment the circuit computes', () => {
+    assert.equal(recordCommitment(record()), COMMITMENT);
+  });
+
+  it('encodes a nationality the same whichever way it is written', () => {
+    const fields = {
+      documentType: 'passport',
+      documentNumber: 'L898 902-C3',
+      fullName: 'ANNA MARIA  ERIKSSON',
+      nationality: 'Germany',
+      dateOfBirth: '1974-08-12',
+      expiryDate: '2032-04-15',
+    };
+    assert.equal(computeCommitment(fields), COMMITMENT);
+    assert.equal(computeCommitment({ ...fields, nationality: 'DEU' }), COMMITMENT);
+  });
+
+  it('changes with any field the record holds', () => {
+    const changes = [
+      (r) => { r.document.type = 'national_id'; },
+      (r) => { r.document.number = 'L898902C4'; },
+      (r) => { r.document.expiryDate = '2033-04-15'; },
+      (r) => { r.holder.fullName = 'Anna Eriksson'; },
+      (r) => { r.holder.dateOfBirth = '2010-08-12'; },
+      (r) => { r.holder.nationality = 'FR'; },
+    ];
+    for (const change of changes) {
+      const changed = record();
+      change(changed);
+      assert.notEqual(recordCommitment(changed), COMMITMENT);
+    }
+  });
+
+  it('rejects fields no commitment can encode', () => {
+    assert.throws(() => recordCommitment({ ...record(), document: { ...record().document, type: 'library_card' } }), /Unknown document type/);
+    assert.throws(() => recordCommitment({ ...record(), holder: { ...record().holder, nationality: 'XX' } }), /Unknown country/);
+  });
+});
+
+describe('recordNullifier', () => {
+  it('matches the per-wallet nullifier the circuit computes', () => {
+    assert.equal(recordNullifier(record(), record().owner), WALLET_NULLIFIER);
+    assert.notEqual(recordNullifier(record(), OTHER_WALLET), WALLET_NULLIFIER);
+  });
+
+  it('is the same for every wallet within a scope', () => {
+    assert.equal(recordNullifier(record(), record().owner, ZKKYC_SCOPE), ZKKYC_NULLIFIER);
+    assert.equal(recordNullifier(record(), OTHER_WALLET, ZKKYC_SCOPE), ZKKYC_NULLIFIER);
+  });
+});
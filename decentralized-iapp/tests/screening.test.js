@@ -0,0 +1,145 @@
+// Sanctions screening over the bundled list fixtures (src/sanctions/lists)
+
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { loadSanctionsLists } from '../src/sanctions/load.js';
+import {
+  DEFAULT_MATCH_THRESHOLD,
+  jaroWinkler,
+  nameSimilarity,
+  normalizeName,
+  parseSanctionsList,
+  screenIdentity,
+} from '../src/sanctions/screening.js';
+
+describe('screenIdentity', () => {
+  /** @type {import('../src/sanctions/screening.js').SanctionsList[]} */
+  let lists;
+
+  before(async () => {
+    lists = await loadSanctionsLists();
+  });
+
+  it('loads every bundled list', () => {
+    assert.deepEqual(lists.map((list) => list.source), ['EU', 'OFAC-SDN', 'UN']);
+  });
+
+  it('matches a listed name with its date of birth exactly', () => {
+    const screening = screenIdentity({ fullName: 'Viktor Aleksandrovich Morozkin', dateOfBirth: '1968-03-14' }, lists);
+
+    assert.equal(screening.isMatch, true);
+    assert.equal(screening.matches.length, 1);
+    const [match] = screening.matches;
+    assert.equal(match.source, 'OFAC-SDN');
+    assert.equal(match.entryId, 'SDN-90001');
+    assert.equal(match.score, 1);
+    assert.deepEqual(match.programs, ['SAMPLE-RUSSIA-EO']);
+    assert.match(match.reasons[1], /Date of birth matches 1968-03-14/);
+  });
+
+  it('matches an alias regardless of case, accents and word order', () => {
+    const screening = screenIdentity({ fullName: 'sokolenko, DMÍTRY', dateOfBirth: '1972-05-30' }, lists);
+
+    assert.equal(screening.isMatch, true);
+    assert.equal(screening.matches[0].entryId, 'EU.9001.12');
+    assert.equal(screening.matches[0].matchedName, 'Dmitry Sokolenko');
+    assert.match(screening.matches[0].reasons[0], /alias "Dmitry Sokolenko"/);
+  });
+
+  it('matches a misspelled name fuzzily', () => {
+    const screening = screenIdentity({ fullName: 'Hassan Qadir Nuri', dateOfBirth: '1975-06-01' }, lists);
+
+    assert.equal(screening.isMatch, true);
+    const [match] = screening.matches;
+    assert.equal(match.entryId, 'SDN-90002');
+    assert.ok(match.nameScore < 1 && match.nameScore >= DEFAULT_MATCH_THRESHOLD, `name score ${match.nameScore}`);
+    assert.match(match.reasons[1], /Year of birth matches listed 1975/);
+  });
+
+  it('scores a partial date of birth below an exact one', () => {
+    const exact = screenIdentity({ fullName: 'Abdul Rahim Sayed Karimi', dateOfBirth: '1963-07-02' }, lists);
+    const month = screenIdentity({ fullName: 'Carla Beatriz Montoya Ruiz', dateOfBirth: '1981-11-20' }, lists);
+    const year = screenIdentity({ fullName: 'Abdul Rahim Sayed Karimi', dateOfBirth: '1964-01-01' }, lists);
+    const unknown = screenIdentity({ fullName: 'Ri Chol Man', dateOfBirth: '1970-01-01' }, lists);
+
+    assert.equal(exact.matches[0].score, 1);
+    assert.equal(month.matches[0].score, 0.97);
+    assert.equal(year.matches[0].score, 0.95);
+    assert.equal(unknown.matches[0].score, 0.9);
+    assert.match(unknown.matches[0].reasons[1], /No date of birth on the list entry/);
+  });
+
+  it('tells apart a namesake by date of birth', () => {
+    const screening = screenIdentity({ fullName: 'Viktor Morozkin', dateOfBirth: '1990-02-02' }, lists);
+
+    assert.equal(screening.isMatch, false);
+    assert.deepEqual(screening.matches, []);
+  });
+
+  it('applies the threshold it is given', () => {
+    const subject = { fullName: 'Ri Chol Man', dateOfBirth: '1970-01-01' };
+
+    assert.equal(screenIdentity(subject, lists, { threshold: 0.9 }).isMatch, true);
+    const strict = screenIdentity(subject, lists, { threshold: 0.95 });
+    assert.equal(strict.isMatch, false);
+    assert.equal(strict.threshold, 0.95);
+  });
+
+  it('ranks the best match first', () => {
+    const screening = screenIdentity({ fullName: 'Dmitri Sokolenko', dateOfBirth: '1972-05-30' }, lists, { threshold: 0.3 });
+
+    assert.ok(screening.matches.length > 1);
+    assert.equal(screening.matches[0].entryId, 'EU.9001.12');
+    for (let i = 1; i < screening.matches.length; i++) {
+      assert.ok(screening.matches[i - 1].score >= screening.matches[i].score);
+    }
+  });
+
+  it('finds no match for someone not listed', () => {
+    const screening = screenIdentity({ fullName: 'Alice Example', dateOfBirth: '1990-04-12' }, lists);
+
+    assert.equal(screening.isMatch, false);
+    assert.deepEqual(screening.matches, []);
+    assert.equal(screening.threshold, DEFAULT_MATCH_THRESHOLD);
+    assert.deepEqual(
+      screening.listsChecked,
+      lists.map(({ source, version }) => ({ source, version }))
+    );
+  });
+});
+
+describe('name matching', () => {
+  it('normalizes accents, punctuation and spacing', () => {
+    assert.equal(normalizeName('  José-María  O\'Neill '), 'JOSE MARIA O NEILL');
+  });
+
+  it('scores identical strings 1 and disjoint strings 0', () => {
+    assert.equal(jaroWinkler('KARIMI', 'KARIMI'), 1);
+    assert.equal(jaroWinkler('ABC', 'XYZ'), 0);
+    assert.equal(jaroWinkler('', 'XYZ'), 0);
+  });
+
+  it('ignores word order', () => {
+    assert.equal(nameSimilarity('RI CHOL MAN', 'MAN CHOL RI'), 1);
+  });
+});
+
+describe('parseSanctionsList', () => {
+  it('fills in missing optional fields', () => {
+    const list = parseSanctionsList({ source: 'TEST', version: '2026-01-01', entries: [{ id: 'T1', names: ['Test Person'] }] });
+
+    assert.deepEqual(list.entries[0], { id: 'T1', names: ['Test Person'], datesOfBirth: [], nationalities: [], programs: [] });
+  });
+
+  it('rejects entries without names or with malformed dates', () => {
+    assert.throws(
+      () => parseSanctionsList({ source: 'TEST', version: '1', entries: [{ id: 'T1', names: [] }] }),
+      /entry 0 needs an id and at least one name/
+    );
+    assert.throws(
+      () => parseSanctionsList({ source: 'TEST', version: '1', entries: [{ id: 'T1', names: ['A'], datesOfBirth: ['14/03/1968'] }] }),
+      /T1 has an invalid date of birth/
+    );
+    assert.throws(() => parseSanctionsList({ version: '1', entries: [] }), /missing its source/);
+  });
+});
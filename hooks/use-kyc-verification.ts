@@ -1,24 +1,28 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import type { 
-  KYCData, 
-  VerificationStatus, 
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type {
+  KYCData,
+  VerificationStatus,
   VerificationResult,
   ZKProof,
-  ProtectedData 
+  ProtectedData,
+  ProofRequest,
+  AddressScreening,
+  TeeTask,
+  TeeTaskProgress,
+  VerificationSession
 } from '@/lib/types/kyc';
-import { simulateVerification } from '@/lib/services/iexec';
-import { generateFullKYCProof, verifyZKProof } from '@/lib/services/zkproof';
-import { generateMockTransactionHash } from '@/lib/services/contract';
-import { encryptForTEE, createCommitment } from '@/lib/utils/crypto';
 import { logger } from '@/lib/logger';
-import { 
-  initializeDataProtector, 
-  protectKYCData, 
-  grantVerificationAccess, 
-  executeVerificationTask 
-} from '@/lib/services/iexec';
+import { runPipeline, PipelineError, PipelineAbortedError } from '@/lib/services/pipeline';
+import {
+  createVerificationPipeline,
+  endsSession,
+  VERIFICATION_STEP_PROGRESS
+} from '@/lib/services/verification-pipeline';
+import type { VerificationContext } from '@/lib/services/verification-pipeline';
+import { loadSession, saveSession, clearSession } from '@/lib/services/verification-session';
+import type { EthereumProvider } from '@/lib/services/data-protector';
 
 export interface KYCVerificationState {
   status: VerificationStatus;
@@ -27,8 +31,18 @@ export interface KYCVerificationState {
   protectedData: ProtectedData | null;
   zkProof: ZKProof | null;
   verificationResult: VerificationResult | null;
+  addressScreening: AddressScreening | null;
   transactionHash: string | null;
   error: string | null;
+  // Cancel was requested and the run is cleaning up
+  isCancelling: boolean;
+  // The TEE task being watched and its latest sub-step
+  teeTask: TeeTask | null;
+  taskProgress: TeeTaskProgress | null;
+  // A run an earlier page load left unfinished
+  resumableSession: VerificationSession | null;
+  // The submitted run the verification can be renewed from
+  renewableSession: VerificationSession | null;
 }
 
 const VERIFICATION_STEPS = [
@@ -41,176 +55,247 @@ const VERIFICATION_STEPS = [
   'Complete',
 ];
 
-export function useKYCVerification(userAddress: string | null, provider?: unknown, chainId?: number) {
-  const [state, setState] = useState<KYCVerificationState>({
-    status: 'idle',
-    currentStep: 0,
-    totalSteps: VERIFICATION_STEPS.length,
-    protectedData: null,
-    zkProof: null,
-    verificationResult: null,
-    transactionHash: null,
-    error: null,
-  });
+const INITIAL_STATE: KYCVerificationState = {
+  status: 'idle',
+  currentStep: 0,
+  totalSteps: VERIFICATION_STEPS.length,
+  protectedData: null,
+  zkProof: null,
+  verificationResult: null,
+  addressScreening: null,
+  transactionHash: null,
+  error: null,
+  isCancelling: false,
+  teeTask: null,
+  taskProgress: null,
+  resumableSession: null,
+  renewableSession: null,
+};
+
+// The parts of a step's output the UI shows
+function toStateUpdates(output: Partial<VerificationContext>): Partial<KYCVerificationState> {
+  const updates: Partial<KYCVerificationState> = {};
+  if (output.addressScreening) updates.addressScreening = output.addressScreening;
+  if (output.protectedData) updates.protectedData = output.protectedData;
+  if (output.zkProof) updates.zkProof = output.zkProof;
+  if (output.teeTask) updates.teeTask = output.teeTask;
+  if (output.verificationResult) updates.verificationResult = output.verificationResult;
+  if (output.transactionHash) updates.transactionHash = output.transactionHash;
+  return updates;
+}
+
+export function useKYCVerification(
+  userAddress: string | null,
+  provider?: EthereumProvider | null,
+  chainId?: number | null,
+  proofRequest?: ProofRequest | null
+) {
+  const [state, setState] = useState<KYCVerificationState>(INITIAL_STATE);
+  const abortController = useRef<AbortController | null>(null);
 
   const updateState = (updates: Partial<KYCVerificationState>) => {
     setState(prev => ({ ...prev, ...updates }));
   };
 
-  const reset = useCallback(() => {
-    setState({
-      status: 'idle',
-      currentStep: 0,
-      totalSteps: VERIFICATION_STEPS.length,
-      protectedData: null,
-      zkProof: null,
-      verificationResult: null,
-      transactionHash: null,
-      error: null,
-    });
-  }, []);
-
-  const startVerification = useCallback(async (kycData: KYCData) => {
+  // Each wallet has its own session to resume
+  const refreshSession = useCallback(() => {
     if (!userAddress) {
-      updateState({ error: 'Please connect your wallet first', status: 'failed' });
-      return;
+      updateState({ resumableSession: null, renewableSession: null });
+      return () => {};
     }
+    let isCurrent = true;
+    loadSession(userAddress).then(session => {
+      if (!isCurrent) return;
+      const isSubmitted = session?.step === 'submitted';
+      updateState({
+        resumableSession: isSubmitted ? null : session,
+        renewableSession: isSubmitted ? session : null,
+      });
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [userAddress]);
+
+  useEffect(() => refreshSession(), [refreshSession]);
+
+  const reset = useCallback(() => {
+    setState(INITIAL_STATE);
+    refreshSession();
+  }, [refreshSession]);
+
+  /**
+   * Run the verification pipeline from the given context, mirroring each step in the state
+   * A cancelled renewal puts back the submitted session it started from, so it can be renewed later
+   */
+  const runVerification = useCallback(async (initial: VerificationContext, renewing?: VerificationSession) => {
+    const controller = new AbortController();
+    abortController.current = controller;
+    const steps = createVerificationPipeline({
+      onTaskProgress: taskProgress => updateState({ taskProgress }),
+      onTaskCreated: teeTask => updateState({ teeTask }),
+    });
 
     try {
-      // Step 1: Encrypting data
-      updateState({ status: 'encrypting', currentStep: 2 });
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const encryptedData = await encryptForTEE(kycData);
-      const dataHash = await createCommitment(kycData);
-      
-      const protectedData: ProtectedData = {
-        address: userAddress,
-        dataHash,
-        timestamp: Date.now(),
-        encryptedData,
-      };
-      
-      updateState({ protectedData });
-
-      // Step 2: Generate ZK Proof
-      updateState({ status: 'computing', currentStep: 3 });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      const zkProof = await generateFullKYCProof(kycData, userAddress, {
-        minimumAge: 18,
+      await runPipeline(steps, initial, {
+        signal: controller.signal,
+        onStepStart: name => {
+          const progress = VERIFICATION_STEP_PROGRESS[name];
+          if (progress) updateState(progress);
+        },
+        onStepComplete: (_name, output) => updateState(toStateUpdates(output)),
       });
-      
-      // Verify the ZK proof locally
-      const zkVerification = await verifyZKProof(zkProof, 'full_kyc');
-      
-      if (!zkVerification.isValid) {
-        updateState({ 
-          error: 'ZK proof verification failed. Please check your information.',
-          status: 'failed' 
-        });
+      updateState({ status: 'completed', currentStep: 6 });
+      // The run left a submitted session to renew from
+      refreshSession();
+    } catch (err) {
+      if (err instanceof PipelineAbortedError) {
+        // Grants made for the run were revoked by the pipeline; the session has nothing left to resume
+        logger.info('KYC verification cancelled', { step: err.step });
+        if (renewing) {
+          await saveSession(renewing);
+        } else {
+          await clearSession(initial.owner);
+        }
+        updateState({ status: 'cancelled', error: null });
         return;
       }
-      
-      updateState({ zkProof });
-
-      // Step 3: TEE Verification (iExec)
-      updateState({ status: 'verifying', currentStep: 4 });
-      
-      let verificationResult: VerificationResult;
-      
-      if (provider) {
-        // Check if user is on the correct network (Arbitrum Sepolia)
-        const requiredChainId = 421614; // Arbitrum Sepolia
-        if (chainId !== requiredChainId) {
-          throw new Error(`Please switch to Arbitrum Sepolia testnet (Chain ID: ${requiredChainId}). Current chain: ${chainId}`);
-        }
-        
-        logger.info('Wallet provider available, checking connection', {
-          providerType: typeof provider,
-          hasRequest: typeof (provider as any)?.request === 'function',
-          chainId,
-          userAddress
-        });
-        
-        // Test provider connection
-        try {
-          const testAccounts = await (provider as any).request({ method: 'eth_accounts' });
-          logger.info('Provider connection test successful', { accountsCount: testAccounts?.length || 0 });
-        } catch (providerError) {
-          logger.error('Provider connection test failed', { error: providerError });
-          throw new Error('Wallet connection is not working properly. Please reconnect your wallet.');
-        }
-        
-        const dataProtector = await initializeDataProtector(provider, true); // Use testnet
-        if (!dataProtector) {
-          throw new Error('Failed to initialize iExec DataProtector - check wallet connection and network');
-        }
-        
-        if (!dataProtector.core || typeof dataProtector.core.protectData !== 'function') {
-          throw new Error('iExec DataProtector core not properly initialized - API may have changed');
-        }
-        
-        // Protect the KYC data
-        logger.info('Protecting KYC data with iExec');
-        const protectedKYCData = await protectKYCData(dataProtector, kycData, userAddress);
-        
-        // Grant access to the iExec app
-        logger.info('Granting access to iExec KYC verification app');
-        const accessGranted = await grantVerificationAccess(dataProtector, protectedKYCData.address, userAddress);
-        if (!accessGranted) {
-          throw new Error('Failed to grant access to verification app');
+      logger.error('KYC verification failed', {
+        step: err instanceof PipelineError ? err.step : undefined,
+        error: err instanceof Error ? err.message : String(err),
+        stack: err instanceof Error ? err.stack : undefined,
+      });
+      if (err instanceof PipelineError && endsSession(err)) {
+        // A failed renewal still leaves the submitted session to renew from
+        if (renewing) {
+          await saveSession(renewing);
+          refreshSession();
+        } else {
+          await clearSession(initial.owner);
         }
-        
-        // Execute the verification task
-        logger.info('Executing KYC verification task in TEE');
-        const iexecResult = await executeVerificationTask(dataProtector, protectedKYCData.address, true);
-        verificationResult = iexecResult.result;
-        
-        logger.info('TEE verification completed', { taskId: iexecResult.taskId, isValid: verificationResult.isValid });
-      } else {
-        // Fallback to simulation for development
-        logger.warn('No wallet provider available, using simulated verification');
-        verificationResult = await simulateVerification(kycData, userAddress);
-      }
-      
-      if (!verificationResult.isValid) {
-        updateState({ 
-          error: 'Identity verification failed. Please ensure your documents are valid.',
-          status: 'failed',
-          verificationResult 
-        });
-        return;
       }
-      
-      updateState({ verificationResult });
-
-      // Step 4: Submit to blockchain
-      updateState({ status: 'submitting', currentStep: 5 });
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // In production, this would submit to the actual smart contract
-      const txHash = await generateMockTransactionHash();
-      
-      updateState({ 
-        transactionHash: txHash,
-        status: 'completed',
-        currentStep: 6 
+      updateState({
+        error: err instanceof Error ? err.message : 'Verification failed. Please try again.',
+        status: 'failed'
       });
+    } finally {
+      if (abortController.current === controller) abortController.current = null;
+      updateState({ isCancelling: false });
+    }
+  }, [refreshSession]);
 
-    } catch (err) {
-      logger.error('KYC verification failed', { error: err instanceof Error ? err.message : String(err), stack: err instanceof Error ? err.stack : undefined });
-      updateState({ 
-        error: err instanceof Error ? err.message : 'Verification failed. Please try again.',
-        status: 'failed' 
+  /**
+   * Stop the running verification
+   * Steps waiting on the wallet, the prover or the TEE are abandoned, then access granted for the run is revoked
+   */
+  const cancelVerification = useCallback(() => {
+    if (!abortController.current || abortController.current.signal.aborted) return;
+    updateState({ isCancelling: true });
+    abortController.current.abort();
+  }, []);
+
+  const startVerification = useCallback(async (kycData: KYCData, documentImage?: File) => {
+    if (!userAddress) {
+      updateState({ error: 'Please connect your wallet first', status: 'failed' });
+      return;
+    }
+
+    updateState({ resumableSession: null, renewableSession: null });
+    await runVerification({
+      owner: userAddress,
+      chainId: chainId ?? null,
+      provider: provider ?? null,
+      proofRequest: proofRequest ?? null,
+      kycData,
+      documentImage,
+    });
+  }, [userAddress, provider, chainId, proofRequest, runVerification]);
+
+  /**
+   * Pick up the session an earlier page load left, from its last completed step
+   */
+  const resumeSession = useCallback(async () => {
+    const session = state.resumableSession;
+    if (!session || !userAddress || !provider) return;
+
+    if (proofRequest && session.challenge !== proofRequest.challenge) {
+      updateState({
+        error: `The unfinished verification does not answer ${proofRequest.verifier.name}'s request. Start a new verification instead.`,
+        status: 'failed',
+        resumableSession: null,
       });
+      return;
     }
+
+    logger.info('Resuming verification session', { step: session.step, protectedData: session.protectedDataAddress });
+    const protectedData = { address: userAddress, dataHash: session.commitment, timestamp: session.startedAt };
+    updateState({
+      protectedData,
+      zkProof: session.zkProof,
+      teeTask: session.teeTask ?? null,
+      taskProgress: null,
+      resumableSession: null,
+      error: null,
+    });
+
+    await runVerification({
+      owner: userAddress,
+      chainId: chainId ?? null,
+      provider,
+      proofRequest: proofRequest ?? null,
+      protectedData,
+      zkProof: session.zkProof,
+      session,
+      teeTask: session.teeTask,
+      verificationResult: session.step === 'verified' ? session.verificationResult : undefined,
+    });
+  }, [state.resumableSession, userAddress, provider, chainId, proofRequest, runVerification]);
+
+  /**
+   * Verify again from the protected data of the last submitted run, for a fresh attestation
+   * Encrypting, proving and protecting are skipped; access is granted again and the TEE reruns on the stored record
+   */
+  const renewVerification = useCallback(async () => {
+    const session = state.renewableSession;
+    if (!session || !userAddress || !provider) return;
+
+    logger.info('Renewing verification', { protectedData: session.protectedDataAddress });
+    const { verificationResult: _verificationResult, ...rest } = session;
+    const renewal: VerificationSession = { ...rest, step: 'protected', updatedAt: Date.now() };
+    const protectedData = { address: userAddress, dataHash: session.commitment, timestamp: session.startedAt };
+    updateState({
+      protectedData,
+      zkProof: session.zkProof,
+      teeTask: null,
+      taskProgress: null,
+      renewableSession: null,
+      error: null,
+    });
+
+    await runVerification({
+      owner: userAddress,
+      chainId: chainId ?? null,
+      provider,
+      proofRequest: null,
+      protectedData,
+      zkProof: session.zkProof,
+      session: renewal,
+    }, session);
+  }, [state.renewableSession, userAddress, provider, chainId, runVerification]);
+
+  const discardSession = useCallback(async () => {
+    updateState({ resumableSession: null });
+    if (userAddress) await clearSession(userAddress);
   }, [userAddress]);
 
   return {
     ...state,
     steps: VERIFICATION_STEPS,
     startVerification,
+    cancelVerification,
+    resumeSession,
+    renewVerification,
+    discardSession,
     reset,
   };
 }
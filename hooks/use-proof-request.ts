@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import type { SignedProofRequest, ZKProof } from '@/lib/types/kyc';
+import {
+  PROOF_REQUEST_MESSAGE,
+  parseProofRequest,
+  postProofResponse,
+  readProofRequestFromUrl,
+  verifyProofRequest,
+} from '@/lib/services/proof-request';
+import { logger } from '@/lib/logger';
+
+export type ProofRequestStatus = 'none' | 'verifying' | 'valid' | 'invalid';
+
+export interface ProofRequestState {
+  signedRequest: SignedProofRequest | null;
+  status: ProofRequestStatus;
+  errors: string[];
+}
+
+const INITIAL_STATE: ProofRequestState = {
+  signedRequest: null,
+  status: 'none',
+  errors: [],
+};
+
+/**
+ * Window of the relying dApp: the opener of a popup or the parent of an iframe
+ */
+function getRelyingWindow(): Window | null {
+  if (typeof window === 'undefined') return null;
+  if (window.opener) return window.opener as Window;
+  if (window.parent !== window) return window.parent;
+  return null;
+}
+
+export function useProofRequest() {
+  const [state, setState] = useState<ProofRequestState>(INITIAL_STATE);
+
+  const load = useCallback(async (signedRequest: SignedProofRequest) => {
+    setState({ signedRequest, status: 'verifying', errors: [] });
+
+    const validation = await verifyProofRequest(signedRequest);
+    if (!validation.isValid) {
+      logger.warn('Rejected proof request', {
+        verifier: signedRequest.request.verifier.address,
+        errors: validation.errors,
+      });
+    }
+
+    setState({
+      signedRequest,
+      status: validation.isValid ? 'valid' : 'invalid',
+      errors: validation.errors,
+    });
+  }, []);
+
+  // Request passed in the URL (?proofRequest=...)
+  useEffect(() => {
+    try {
+      const signedRequest = readProofRequestFromUrl(window.location.search);
+      if (signedRequest) {
+        load(signedRequest);
+      }
+    } catch (err) {
+      setState({
+        signedRequest: null,
+        status: 'invalid',
+        errors: [err instanceof Error ? err.message : 'Invalid proof request'],
+      });
+    }
+  }, [load]);
+
+  // Request posted by an opener or embedding dApp
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== PROOF_REQUEST_MESSAGE) return;
+
+      try {
+        const signedRequest = parseProofRequest(event.data.payload);
+        if (new URL(signedRequest.request.verifier.origin).origin !== event.origin) {
+          throw new Error(`Proof request origin does not match sender ${event.origin}`);
+        }
+        load(signedRequest);
+      } catch (err) {
+        setState({
+          signedRequest: null,
+          status: 'invalid',
+          errors: [err instanceof Error ? err.message : 'Invalid proof request'],
+        });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [load]);
+
+  // Hand the proof back to the relying dApp, bound to its challenge
+  const respond = useCallback((userAddress: string, proof: ZKProof): boolean => {
+    const target = getRelyingWindow();
+    if (!target || state.status !== 'valid' || !state.signedRequest) {
+      return false;
+    }
+    postProofResponse(target, state.signedRequest.request, userAddress, proof);
+    return true;
+  }, [state]);
+
+  const dismiss = useCallback(() => {
+    setState(INITIAL_STATE);
+  }, []);
+
+  return {
+    ...state,
+    request: state.status === 'valid' ? state.signedRequest?.request ?? null : null,
+    respond,
+    dismiss,
+  };
+}
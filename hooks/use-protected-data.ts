@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  initializeDataProtector,
+  listProtectedDataAccess,
+  revokeAllDataAccess,
+  revokeDataAccess,
+} from '@/lib/services/iexec';
+import type { ProtectedDataAccess } from '@/lib/services/iexec';
+import type { DataProtectorClient, EthereumProvider, GrantedAccess } from '@/lib/services/data-protector';
+
+export interface ProtectedDataState {
+  datasets: ProtectedDataAccess[];
+  isLoading: boolean;
+  // Signature of the access, or address of the dataset, being revoked
+  revoking: string | null;
+  error: string | null;
+}
+
+const INITIAL_STATE: ProtectedDataState = {
+  datasets: [],
+  isLoading: false,
+  revoking: null,
+  error: null,
+};
+
+/**
+ * Protected data owned by the connected wallet and the access granted on it
+ */
+export function useProtectedData(provider: EthereumProvider | null, address: string | null) {
+  const [state, setState] = useState<ProtectedDataState>(INITIAL_STATE);
+  const client = useRef<Promise<DataProtectorClient> | null>(null);
+
+  // A new wallet or account needs a new SDK instance
+  useEffect(() => {
+    client.current = null;
+    setState(INITIAL_STATE);
+  }, [provider, address]);
+
+  const getClient = useCallback(() => {
+    if (!provider) {
+      throw new Error('Please connect your wallet first');
+    }
+    if (!client.current) {
+      client.current = initializeDataProtector(provider, true);
+      client.current.catch(() => {
+        client.current = null;
+      });
+    }
+    return client.current;
+  }, [provider]);
+
+  const refresh = useCallback(async () => {
+    if (!provider || !address) return;
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const datasets = await listProtectedDataAccess(await getClient(), address);
+      setState(prev => ({ ...prev, datasets, isLoading: false }));
+    } catch (err) {
+      console.error('[v0] Failed to load protected data:', err);
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: err instanceof Error ? err.message : 'Failed to load your protected data',
+      }));
+    }
+  }, [provider, address, getClient]);
+
+  const revoke = useCallback(async (key: string, run: (dataProtector: DataProtectorClient) => Promise<unknown>) => {
+    setState(prev => ({ ...prev, revoking: key, error: null }));
+    try {
+      await run(await getClient());
+      setState(prev => ({ ...prev, revoking: null }));
+      await refresh();
+    } catch (err) {
+      console.error('[v0] Failed to revoke access:', err);
+      setState(prev => ({
+        ...prev,
+        revoking: null,
+        error: err instanceof Error ? err.message : 'Failed to revoke access',
+      }));
+    }
+  }, [getClient, refresh]);
+
+  const revokeOne = useCallback((access: GrantedAccess) => {
+    return revoke(access.sign, dataProtector => revokeDataAccess(dataProtector, access));
+  }, [revoke]);
+
+  const revokeAll = useCallback((protectedDataAddress: string) => {
+    return revoke(protectedDataAddress, dataProtector => revokeAllDataAccess(dataProtector, protectedDataAddress));
+  }, [revoke]);
+
+  return {
+    ...state,
+    refresh,
+    revokeOne,
+    revokeAll,
+  };
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { OnChainVerification, VerificationExpiry, VerificationResult } from '@/lib/types/kyc';
+import { createContractClients, getVerificationDetails } from '@/lib/services/contract';
+import { getVerificationExpiry } from '@/lib/services/renewal';
+import type { EthereumProvider } from '@/lib/services/data-protector';
+
+// The countdown moves on once a minute
+const TICK_MS = 60_000;
+
+/**
+ * The connected wallet's on-chain verification and how long it has left
+ * Read again whenever refreshKey changes, e.g. when a verification run ends
+ * `result` is the TEE result of the last submitted run, which tells whether the document ends the verification
+ */
+export function useVerificationStatus(
+  provider: EthereumProvider | null,
+  address: string | null,
+  result: VerificationResult | null,
+  refreshKey?: unknown
+) {
+  const [verification, setVerification] = useState<OnChainVerification | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    setVerification(null);
+    if (!provider || !address) return;
+
+    let isCurrent = true;
+    const load = async () => {
+      try {
+        const details = await getVerificationDetails(createContractClients(provider, address).publicClient, address);
+        if (isCurrent) setVerification(details);
+      } catch (err) {
+        // No verifier is configured, so there is nothing to count down
+        console.error('[v0] Failed to load verification status:', err);
+      }
+    };
+    load();
+    return () => {
+      isCurrent = false;
+    };
+  }, [provider, address, refreshKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const expiry: VerificationExpiry | null = verification ? getVerificationExpiry(verification, result, now) : null;
+  return { verification, expiry };
+}
@@ -1,14 +1,17 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { ARBITRUM_SEPOLIA_CONFIG, ARBITRUM_MAINNET_CONFIG } from '@/lib/types/kyc';
+import type { AddressScreening } from '@/lib/types/kyc';
+import { screenAddress } from '@/lib/services/address-risk';
+import type { EthereumProvider } from '@/lib/services/data-protector';
 
 export interface WalletState {
   isConnected: boolean;
   address: string | null;
   chainId: number | null;
   isCorrectNetwork: boolean;
-  provider: unknown | null;
+  provider: EthereumProvider | null;
 }
 
 const ARBITRUM_SEPOLIA_CHAIN_ID = 421614;
@@ -183,8 +186,20 @@ export function useWallet() {
     };
   }, [getEthereum, disconnect, checkConnection]);
 
+  // Screen the connected wallet against the address risk snapshot
+  const addressScreening = useMemo<AddressScreening | null>(() => {
+    if (!walletState.address) return null;
+    try {
+      return screenAddress(walletState.address, walletState.chainId);
+    } catch (err) {
+      console.error('[v0] Failed to screen wallet address:', err);
+      return null;
+    }
+  }, [walletState.address, walletState.chainId]);
+
   return {
     ...walletState,
+    addressScreening,
     isConnecting,
     error,
     connect,
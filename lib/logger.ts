@@ -30,6 +30,8 @@ class Logger {
   }
 
   private persistLog(entry: LogEntry) {
+    // Nothing to persist to in Node (server rendering, scripts)
+    if (typeof localStorage === 'undefined') return;
     try {
       const logs = JSON.parse(localStorage.getItem('app_logs') || '[]');
       logs.push(entry);
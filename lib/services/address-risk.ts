@@ -0,0 +1,165 @@
+// Wallet Address Risk Screening
+//
+// Checks the connected wallet against a local snapshot of sanctioned and
+// high-risk addresses before any identity data is processed. Snapshots come
+// as JSON (lib/data/address-risk-snapshot.json) or CSV with the columns
+// address,chain_ids,risk,source,label (chain_ids "*" or e.g. "1|42161").
+
+import { getAddress, isAddress } from 'viem';
+import type { AddressRiskEntry, AddressRiskLevel, AddressScreening } from '@/lib/types/kyc';
+import snapshotJson from '@/lib/data/address-risk-snapshot.json';
+
+export interface AddressRiskSnapshot {
+  version: string;
+  entries: AddressRiskEntry[];
+}
+
+const RISK_LEVELS: AddressRiskLevel[] = ['sanctioned', 'high', 'medium'];
+
+// Risk levels that stop verification outright; the rest are recorded as flags
+const BLOCKING_RISK_LEVELS: AddressRiskLevel[] = ['sanctioned'];
+
+/**
+ * Checksum an address from a snapshot or a wallet
+ * Mixed-case input must carry a valid EIP-55 checksum, so typos are caught
+ */
+export function normalizeAddress(address: string): string {
+  const trimmed = address.trim();
+  if (!isAddress(trimmed, { strict: true })) {
+    throw new Error(`Invalid address or checksum: ${address}`);
+  }
+  return getAddress(trimmed);
+}
+
+function parseEntry(raw: {
+  address?: unknown;
+  chainIds?: unknown;
+  risk?: unknown;
+  source?: unknown;
+  label?: unknown;
+}): AddressRiskEntry {
+  if (typeof raw.address !== 'string') {
+    throw new Error('Address risk entry is missing its address');
+  }
+  const address = normalizeAddress(raw.address);
+
+  if (!RISK_LEVELS.includes(raw.risk as AddressRiskLevel)) {
+    throw new Error(`Address risk entry ${address} has unknown risk level ${String(raw.risk)}`);
+  }
+  if (typeof raw.source !== 'string' || !raw.source) {
+    throw new Error(`Address risk entry ${address} is missing its source`);
+  }
+
+  let chainIds: number[] | null = null;
+  if (raw.chainIds !== null && raw.chainIds !== undefined) {
+    if (!Array.isArray(raw.chainIds) || !raw.chainIds.every(id => Number.isInteger(id) && id > 0)) {
+      throw new Error(`Address risk entry ${address} has invalid chain IDs`);
+    }
+    chainIds = raw.chainIds as number[];
+  }
+
+  return {
+    address,
+    chainIds,
+    risk: raw.risk as AddressRiskLevel,
+    source: raw.source,
+    label: typeof raw.label === 'string' && raw.label ? raw.label : undefined,
+  };
+}
+
+/**
+ * Parse a JSON snapshot: { version, entries: [{ address, chainIds, risk, source, label }] }
+ */
+export function parseAddressRiskSnapshot(raw: unknown): AddressRiskSnapshot {
+  const { version, entries } = (raw ?? {}) as { version?: unknown; entries?: unknown };
+  if (typeof version !== 'string' || !version) {
+    throw new Error('Address risk snapshot is missing its version');
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error('Address risk snapshot has no entries array');
+  }
+  return { version, entries: entries.map(parseEntry) };
+}
+
+/**
+ * Parse a CSV snapshot with a header row: address,chain_ids,risk,source,label
+ */
+export function parseAddressRiskCsv(csv: string, version: string): AddressRiskSnapshot {
+  const [header, ...rows] = csv.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+  const columns = (header ?? '').split(',').map(column => column.trim().toLowerCase());
+  const column = (name: string) => {
+    const index = columns.indexOf(name);
+    if (index === -1 && name !== 'label') {
+      throw new Error(`Address risk CSV is missing the ${name} column`);
+    }
+    return index;
+  };
+  const indices = {
+    address: column('address'),
+    chainIds: column('chain_ids'),
+    risk: column('risk'),
+    source: column('source'),
+    label: column('label'),
+  };
+
+  const entries = rows.map(row => {
+    const rawCells = row.split(',');
+    const cells = rawCells.map(cell => cell.trim());
+    const chainIds = cells[indices.chainIds];
+    return parseEntry({
+      address: cells[indices.address],
+      chainIds: !chainIds || chainIds === '*' ? null : chainIds.split('|').map(Number),
+      risk: cells[indices.risk],
+      source: cells[indices.source],
+      // Labels may contain commas: take the rest of the row
+      label: indices.label === -1 ? undefined : rawCells.slice(indices.label).join(',').trim(),
+    });
+  });
+
+  return { version, entries };
+}
+
+/**
+ * Index a snapshot by address for constant-time lookups
+ */
+export function createAddressRiskIndex(snapshot: AddressRiskSnapshot) {
+  const byAddress = new Map<string, AddressRiskEntry[]>();
+  for (const entry of snapshot.entries) {
+    const key = entry.address.toLowerCase();
+    byAddress.set(key, [...(byAddress.get(key) ?? []), entry]);
+  }
+
+  return {
+    version: snapshot.version,
+
+    /**
+     * Screen an address on a chain; chainId null matches every listed chain
+     */
+    screen(address: string, chainId: number | null): AddressScreening {
+      const normalized = normalizeAddress(address);
+      const hits = (byAddress.get(normalized.toLowerCase()) ?? []).filter(entry =>
+        entry.chainIds === null || chainId === null || entry.chainIds.includes(chainId)
+      );
+
+      const status = hits.some(hit => BLOCKING_RISK_LEVELS.includes(hit.risk))
+        ? 'blocked'
+        : hits.length > 0 ? 'flagged' : 'clear';
+
+      return { address: normalized, chainId, status, hits, snapshotVersion: snapshot.version };
+    },
+  };
+}
+
+export type AddressRiskIndex = ReturnType<typeof createAddressRiskIndex>;
+
+let defaultIndex: AddressRiskIndex | null = null;
+
+/**
+ * Screen a wallet against the bundled snapshot
+ */
+export function screenAddress(address: string, chainId: number | null): AddressScreening {
+  if (!defaultIndex) {
+    defaultIndex = createAddressRiskIndex(parseAddressRiskSnapshot(snapshotJson));
+  }
+  return defaultIndex.screen(address, chainId);
+}
@@ -1,9 +1,57 @@
 // Smart Contract Interaction Layer for KYC Verifier
+//
+// Reads and writes the KYCVerifier contract through viem clients built on the
+// connected wallet's EIP-1193 provider. Argument and return types are
+// inferred from KYC_VERIFIER_ABI, and failed calls are turned into
+// ContractError with the revert reason the contract gave. KYCVerifier sits
+// behind an upgradeable proxy and accepts results from the issuers in its
+// registry, each trusted for a scope of attributes.
 
-import type { VerificationResult, OnChainVerification } from '@/lib/types/kyc';
-import { hashData } from '@/lib/utils/crypto';
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  UserRejectedRequestError,
+  createPublicClient,
+  createWalletClient,
+  custom,
+  decodeErrorResult,
+  getAddress,
+  isAddressEqual,
+  isHex,
+  keccak256,
+  stringToHex,
+  zeroAddress,
+  zeroHash,
+} from 'viem';
+import type {
+  Abi,
+  Account,
+  Address,
+  Chain,
+  ContractFunctionArgs,
+  ContractFunctionParameters,
+  Hash,
+  Hex,
+  PublicClient,
+  Transport,
+  WalletClient,
+} from 'viem';
+import { arbitrumSepolia } from 'viem/chains';
+import type {
+  Groth16VerificationKey,
+  IssuerStatus,
+  OnChainVerification,
+  VerificationAttribute,
+  VerificationIssuer,
+  VerificationResult,
+  ZKProof,
+} from '@/lib/types/kyc';
+import type { EthereumProvider } from '@/lib/services/data-protector';
+import { VERIFICATION_ATTRIBUTES, recoverResultSigner, toAttestation } from '@/lib/services/enclave-signer';
+import { logger } from '@/lib/logger';
 
-// KYC Verifier Contract ABI (simplified)
+// KYC Verifier Contract ABI (the functions and events the app uses)
 export const KYC_VERIFIER_ABI = [
   {
     name: 'submitProof',
@@ -15,9 +63,88 @@ export const KYC_VERIFIER_ABI = [
       { name: 'proofHash', type: 'bytes32' },
       { name: 'enclaveSignature', type: 'bytes' },
       { name: 'expiryTimestamp', type: 'uint256' },
+      { name: 'attributes', type: 'uint256' },
+      { name: 'attributeExpiries', type: 'uint256[]' },
+      { name: 'commitment', type: 'uint256' },
+      { name: 'nullifierHash', type: 'uint256' },
+      { name: 'scope', type: 'uint256' },
     ],
     outputs: [],
   },
+  {
+    name: 'submitZKProof',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'a', type: 'uint256[2]' },
+      { name: 'b', type: 'uint256[2][2]' },
+      { name: 'c', type: 'uint256[2]' },
+      { name: 'input', type: 'uint256[10]' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'zkVerifier',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'setZKVerifier',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'verifier', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'nullifierOwner',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'nullifierHash', type: 'uint256' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'revokedWallets',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'attestedCommitments',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'commitment', type: 'uint256' },
+    ],
+    outputs: [
+      { name: 'issuerId', type: 'bytes32' },
+      { name: 'expiryTimestamp', type: 'uint256' },
+    ],
+  },
+  {
+    name: 'nullifierScope',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'setNullifierScope',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'scope', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    name: 'releaseNullifier',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'nullifierHash', type: 'uint256' }],
+    outputs: [],
+  },
   {
     name: 'isVerified',
     type: 'function',
@@ -25,6 +152,16 @@ export const KYC_VERIFIER_ABI = [
     inputs: [{ name: 'user', type: 'address' }],
     outputs: [{ name: '', type: 'bool' }],
   },
+  {
+    name: 'isVerifiedFor',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'attributes', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
   {
     name: 'getVerification',
     type: 'function',
@@ -35,6 +172,9 @@ export const KYC_VERIFIER_ABI = [
       { name: 'verificationTimestamp', type: 'uint256' },
       { name: 'proofHash', type: 'bytes32' },
       { name: 'expiryTimestamp', type: 'uint256' },
+      { name: 'issuerId', type: 'bytes32' },
+      { name: 'attributes', type: 'uint256' },
+      { name: 'attributeExpiries', type: 'uint64[3]' },
     ],
   },
   {
@@ -44,64 +184,820 @@ export const KYC_VERIFIER_ABI = [
     inputs: [{ name: 'user', type: 'address' }],
     outputs: [],
   },
+  {
+    name: 'reinstateWallet',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [],
+  },
+  {
+    name: 'addIssuer',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'issuerId', type: 'bytes32' },
+      { name: 'signer', type: 'address' },
+      { name: 'attributeScope', type: 'uint256' },
+      { name: 'jurisdiction', type: 'string' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'suspendIssuer',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'issuerId', type: 'bytes32' }],
+    outputs: [],
+  },
+  {
+    name: 'reactivateIssuer',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'issuerId', type: 'bytes32' }],
+    outputs: [],
+  },
+  {
+    name: 'rotateIssuerSigner',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'issuerId', type: 'bytes32' },
+      { name: 'newSigner', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'setIssuerScope',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'issuerId', type: 'bytes32' },
+      { name: 'attributeScope', type: 'uint256' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'getIssuer',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'issuerId', type: 'bytes32' }],
+    outputs: [
+      { name: 'signer', type: 'address' },
+      { name: 'attributeScope', type: 'uint256' },
+      { name: 'status', type: 'uint8' },
+      { name: 'jurisdiction', type: 'string' },
+    ],
+  },
+  {
+    name: 'getIssuerIds',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'bytes32[]' }],
+  },
+  {
+    name: 'issuerOfSigner',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'signer', type: 'address' }],
+    outputs: [{ name: '', type: 'bytes32' }],
+  },
+  {
+    name: 'hasRole',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'role', type: 'bytes32' },
+      { name: 'account', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'grantRole',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'role', type: 'bytes32' },
+      { name: 'account', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'revokeRole',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'role', type: 'bytes32' },
+      { name: 'account', type: 'address' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'upgradeToAndCall',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'newImplementation', type: 'address' },
+      { name: 'data', type: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'AccessControlUnauthorizedAccount',
+    type: 'error',
+    inputs: [
+      { name: 'account', type: 'address' },
+      { name: 'neededRole', type: 'bytes32' },
+    ],
+  },
+  {
+    name: 'ERC1967InvalidImplementation',
+    type: 'error',
+    inputs: [{ name: 'implementation', type: 'address' }],
+  },
   {
     name: 'Verified',
     type: 'event',
     inputs: [
       { name: 'user', type: 'address', indexed: true },
+      { name: 'issuerId', type: 'bytes32', indexed: true },
       { name: 'proofHash', type: 'bytes32', indexed: false },
       { name: 'timestamp', type: 'uint256', indexed: false },
     ],
   },
+  {
+    name: 'IssuerAdded',
+    type: 'event',
+    inputs: [
+      { name: 'issuerId', type: 'bytes32', indexed: true },
+      { name: 'signer', type: 'address', indexed: true },
+      { name: 'attributeScope', type: 'uint256', indexed: false },
+      { name: 'jurisdiction', type: 'string', indexed: false },
+    ],
+  },
+  {
+    name: 'IssuerSuspended',
+    type: 'event',
+    inputs: [{ name: 'issuerId', type: 'bytes32', indexed: true }],
+  },
+  {
+    name: 'IssuerReactivated',
+    type: 'event',
+    inputs: [{ name: 'issuerId', type: 'bytes32', indexed: true }],
+  },
+  {
+    name: 'IssuerSignerRotated',
+    type: 'event',
+    inputs: [
+      { name: 'issuerId', type: 'bytes32', indexed: true },
+      { name: 'oldSigner', type: 'address', indexed: true },
+      { name: 'newSigner', type: 'address', indexed: true },
+    ],
+  },
+  {
+    name: 'IssuerScopeUpdated',
+    type: 'event',
+    inputs: [
+      { name: 'issuerId', type: 'bytes32', indexed: true },
+      { name: 'attributeScope', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'ZKVerifierUpdated',
+    type: 'event',
+    inputs: [{ name: 'verifier', type: 'address', indexed: true }],
+  },
+  {
+    name: 'CommitmentAttested',
+    type: 'event',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'commitment', type: 'uint256', indexed: true },
+      { name: 'issuerId', type: 'bytes32', indexed: true },
+    ],
+  },
+  {
+    name: 'NullifierScopeUpdated',
+    type: 'event',
+    inputs: [{ name: 'scope', type: 'uint256', indexed: false }],
+  },
+  {
+    name: 'NullifierBound',
+    type: 'event',
+    inputs: [
+      { name: 'nullifierHash', type: 'uint256', indexed: true },
+      { name: 'user', type: 'address', indexed: true },
+    ],
+  },
+  {
+    name: 'NullifierReleased',
+    type: 'event',
+    inputs: [
+      { name: 'nullifierHash', type: 'uint256', indexed: true },
+      { name: 'user', type: 'address', indexed: true },
+    ],
+  },
+  {
+    name: 'WalletReinstated',
+    type: 'event',
+    inputs: [{ name: 'user', type: 'address', indexed: true }],
+  },
 ] as const;
 
-// Contract address - should be deployed on Arbitrum
-const KYC_VERIFIER_ADDRESS = process.env.NEXT_PUBLIC_KYC_VERIFIER_ADDRESS || '0x0000000000000000000000000000000000000000';
+// Groth16 verifier generated from the full_kyc verification key (generateGroth16VerifierCode)
+export const GROTH16_VERIFIER_ABI = [
+  {
+    name: 'verifyProof',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'a', type: 'uint256[2]' },
+      { name: 'b', type: 'uint256[2][2]' },
+      { name: 'c', type: 'uint256[2]' },
+      { name: 'input', type: 'uint256[10]' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+] as const;
+
+// Contract address - should be deployed on Arbitrum
+const KYC_VERIFIER_ADDRESS = process.env.NEXT_PUBLIC_KYC_VERIFIER_ADDRESS || zeroAddress;
+
+// Headroom over the estimate, as state can change between estimating and mining
+const GAS_BUFFER_PERCENT = BigInt(20);
+
+const RECEIPT_TIMEOUT_MS = 120_000;
+
+// Roles as KYCVerifier defines them; the default admin grants roles and upgrades the contract
+export const DEFAULT_ADMIN_ROLE: Hex = zeroHash;
+export const ISSUER_ADMIN_ROLE: Hex = keccak256(stringToHex('ISSUER_ADMIN_ROLE'));
+export const REVOKER_ROLE: Hex = keccak256(stringToHex('REVOKER_ROLE'));
+
+export { VERIFICATION_ATTRIBUTES };
+
+// The registry entry KYCVerifier.setZKVerifier creates for its Groth16 verifier
+export const ZK_ISSUER_ID: Hex = keccak256(stringToHex('zkkyc-groth16-full-kyc'));
+
+// full_kyc's public signals: isFullyVerified, nullifierHash, commitment, then its 7 public inputs
+const FULL_KYC_PUBLIC_SIGNALS = 10;
+
+// KYCVerifier.IssuerStatus; 0 (None) means the issuer is not registered
+const ISSUER_STATUSES: Record<number, IssuerStatus> = { 1: 'active', 2: 'suspended' };
+
+export type ContractPublicClient = PublicClient<Transport, Chain>;
+export type ContractWalletClient = WalletClient<Transport, Chain, Account>;
+
+export interface ContractClients {
+  publicClient: ContractPublicClient;
+  walletClient: ContractWalletClient;
+}
+
+// Overrides NEXT_PUBLIC_KYC_VERIFIER_ADDRESS, e.g. for a local deployment
+export interface ContractCallOptions {
+  address?: Address;
+}
+
+export interface ContractWriteOptions extends ContractCallOptions {
+  signal?: AbortSignal;
+}
+
+// a, b, c and the public signals, in the layout verifyProof and submitZKProof take
+export type Groth16Calldata = ContractFunctionArgs<typeof GROTH16_VERIFIER_ABI, 'view', 'verifyProof'>;
+
+export interface IssuerRegistration {
+  id: Hex;
+  signer: Address;
+  attributeScope: VerificationAttribute[];
+  jurisdiction: string;
+}
+
+export interface SubmissionReceipt {
+  hash: Hash;
+  blockNumber: bigint;
+  gasUsed: bigint;
+}
+
+/**
+ * A KYCVerifier call that failed
+ * reason is the contract's revert reason, when it gave one
+ */
+export class ContractError extends Error {
+  readonly functionName: string;
+  readonly reason?: string;
+  readonly transactionHash?: Hash;
+
+  constructor(
+    functionName: string,
+    message: string,
+    options: { cause?: unknown; reason?: string; transactionHash?: Hash } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'ContractError';
+    this.functionName = functionName;
+    this.reason = options.reason;
+    this.transactionHash = options.transactionHash;
+  }
+}
+
+/**
+ * A result KYCVerifier would reject because no active issuer signed it
+ * Raised before any transaction is sent; reason is the revert submitProof would give
+ */
+export class EnclaveSignatureError extends ContractError {
+  readonly signer: Address | null;
+  readonly issuerId: Hex | null;
+
+  constructor(message: string, options: { signer?: Address | null; issuerId?: Hex | null; reason?: string } = {}) {
+    super('submitProof', message, { reason: options.reason ?? 'Invalid enclave signature' });
+    this.name = 'EnclaveSignatureError';
+    this.signer = options.signer ?? null;
+    this.issuerId = options.issuerId ?? null;
+  }
+}
+
+/**
+ * A proof or TEE result KYCVerifier would reject because its document is bound to another wallet
+ * Raised before any transaction is sent
+ */
+export class NullifierInUseError extends ContractError {
+  readonly nullifierHash: string;
+  readonly boundTo: Address;
+
+  constructor(nullifierHash: string, boundTo: Address, functionName = 'submitZKProof') {
+    super(functionName, `This document is already bound to another wallet (${boundTo})`, { reason: 'Nullifier already used' });
+    this.name = 'NullifierInUseError';
+    this.nullifierHash = nullifierHash;
+    this.boundTo = boundTo;
+  }
+}
+
+/**
+ * Public and wallet clients for the chain (Arbitrum Sepolia by default), both going through the wallet's provider
+ * Writes fail with a chain mismatch if the wallet is on another network
+ */
+export function createContractClients(
+  provider: EthereumProvider,
+  account: string,
+  chain: Chain = arbitrumSepolia
+): ContractClients {
+  const transport = custom(provider);
+  return {
+    publicClient: createPublicClient({ chain, transport }),
+    walletClient: createWalletClient({ account: getAddress(account), chain, transport }),
+  };
+}
+
+function getVerifierAddress(options: ContractCallOptions): Address {
+  const address = getAddress(options.address ?? KYC_VERIFIER_ADDRESS);
+  if (isAddressEqual(address, zeroAddress)) {
+    throw new ContractError('config', 'NEXT_PUBLIC_KYC_VERIFIER_ADDRESS is not set');
+  }
+  return address;
+}
+
+// Hashes and signatures come from the TEE as bare hex
+const toHex = (value: string): Hex => (value.startsWith('0x') ? value : `0x${value}`) as Hex;
+
+/**
+ * The bytes32 ID of an issuer, from a readable name such as 'iexec-eu'
+ */
+export function toIssuerId(name: string): Hex {
+  return keccak256(stringToHex(name));
+}
+
+/**
+ * The KYCVerifier bitmask of some attributes, e.g. ['isAdult'] is ATTR_ADULT (1)
+ * Bit i is VERIFICATION_ATTRIBUTES[i]
+ */
+export function encodeAttributeMask(attributes: VerificationAttribute[]): bigint {
+  return attributes.reduce(
+    (mask, attribute) => mask | (BigInt(1) << BigInt(VERIFICATION_ATTRIBUTES.indexOf(attribute))),
+    BigInt(0)
+  );
+}
+
+/**
+ * The attributes in a KYCVerifier bitmask; unknown bits are ignored
+ */
+export function decodeAttributeMask(mask: bigint): VerificationAttribute[] {
+  return VERIFICATION_ATTRIBUTES.filter((_, bit) => (mask & (BigInt(1) << BigInt(bit))) !== BigInt(0));
+}
+
+/**
+ * Lay out a full_kyc proof from snarkjs as the Groth16 verifier's calldata
+ * The same layout `snarkjs zkey export soliditycalldata` prints
+ */
+export function toGroth16Calldata(zkProof: ZKProof): Groth16Calldata {
+  const { proof, publicSignals } = zkProof;
+  // Projective coordinates from snarkjs; the third one is always 1
+  const g1 = (point: string[]) => [BigInt(point[0]), BigInt(point[1])] as const;
+  // The pairing precompile takes each G2 coordinate with its imaginary part first
+  const g2 = (point: string[][]) => [
+    [BigInt(point[0][1]), BigInt(point[0][0])],
+    [BigInt(point[1][1]), BigInt(point[1][0])],
+  ] as const;
+
+  return [
+    g1(proof.pi_a),
+    g2(proof.pi_b),
+    g1(proof.pi_c),
+    toFullKYCInput(publicSignals),
+  ];
+}
+
+/**
+ * full_kyc's public signals as the verifier's fixed-size input
+ * Throws ContractError unless there are exactly FULL_KYC_PUBLIC_SIGNALS of them
+ */
+function toFullKYCInput(publicSignals: string[]): Groth16Calldata[3] {
+  if (publicSignals.length !== FULL_KYC_PUBLIC_SIGNALS) {
+    throw new ContractError(
+      'submitZKProof',
+      `Expected a full_kyc proof with ${FULL_KYC_PUBLIC_SIGNALS} public signals, got ${publicSignals.length}`
+    );
+  }
+  const [
+    isFullyVerified,
+    nullifierHash,
+    commitment,
+    currentYear,
+    currentMonth,
+    currentDay,
+    minimumAge,
+    nationalityRoot,
+    userAddress,
+    nullifierScope,
+  ] = publicSignals.map(signal => BigInt(signal));
+  return [
+    isFullyVerified,
+    nullifierHash,
+    commitment,
+    currentYear,
+    currentMonth,
+    currentDay,
+    minimumAge,
+    nationalityRoot,
+    userAddress,
+    nullifierScope,
+  ];
+}
+
+/**
+ * The revert reason in an error viem could not decode itself
+ * Nodes differ in how they report a revert (Ganache uses -32000 rather than 3), but the raw error keeps its data
+ */
+function findRevertReason(error: BaseError): string | undefined {
+  const withData = error.walk(cause =>
+    typeof cause === 'object' && cause !== null && isHex((cause as { data?: unknown }).data) && (cause as { data: Hex }).data.length > 2
+  ) as { data: Hex } | null;
+  if (!withData) return undefined;
+  try {
+    // Widened so the built-in Error(string) and Panic(uint256) decode too
+    const decoded = decodeErrorResult({ abi: KYC_VERIFIER_ABI as Abi, data: withData.data });
+    return decoded.errorName === 'Error' ? String(decoded.args?.[0]) : decoded.errorName;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turn a viem error into a ContractError with a message the user can act on
+ */
+export function toContractError(functionName: string, error: unknown, transactionHash?: Hash): ContractError {
+  if (error instanceof ContractError) return error;
+  if (!(error instanceof BaseError)) {
+    return new ContractError(functionName, error instanceof Error ? error.message : String(error), { cause: error, transactionHash });
+  }
+
+  const reverted = error.walk(cause => cause instanceof ContractFunctionRevertedError);
+  const reason = reverted instanceof ContractFunctionRevertedError
+    ? reverted.reason ?? reverted.data?.errorName
+    : findRevertReason(error);
+  if (reverted || reason) {
+    return new ContractError(
+      functionName,
+      reason ? `The KYC contract rejected the transaction: ${reason}` : 'The KYC contract rejected the transaction',
+      { cause: error, reason, transactionHash }
+    );
+  }
+  if (error.walk(cause => cause instanceof UserRejectedRequestError) instanceof UserRejectedRequestError) {
+    return new ContractError(functionName, 'Transaction rejected in the wallet', { cause: error, transactionHash });
+  }
+  if (error.walk(cause => cause instanceof InsufficientFundsError) instanceof InsufficientFundsError) {
+    return new ContractError(functionName, 'Not enough ETH to pay for gas', { cause: error, transactionHash });
+  }
+  return new ContractError(functionName, error.shortMessage, { cause: error, transactionHash });
+}
+
+type VerifierWrite = ContractFunctionParameters<typeof KYC_VERIFIER_ABI, 'nonpayable' | 'payable'>;
+
+/**
+ * Send a KYCVerifier transaction from the wallet and wait for it to be mined
+ * Simulates the call first, so a revert and its reason surface before the wallet prompts
+ */
+async function writeVerifier(
+  { publicClient, walletClient }: ContractClients,
+  { functionName, args }: Pick<VerifierWrite, 'functionName' | 'args'>,
+  options: ContractWriteOptions
+): Promise<SubmissionReceipt> {
+  let hash: Hash | undefined;
+  try {
+    const call = {
+      address: getVerifierAddress(options),
+      abi: KYC_VERIFIER_ABI,
+      functionName,
+      args,
+      account: walletClient.account,
+    } as VerifierWrite & { account: Account };
+
+    await publicClient.simulateContract(call);
+    const gas = await publicClient.estimateContractGas(call);
+    // Once sent, the transaction cannot be called back
+    options.signal?.throwIfAborted();
+    hash = await walletClient.writeContract({ ...call, gas: gas + (gas * GAS_BUFFER_PERCENT) / BigInt(100) });
+    logger.info('KYC verifier transaction sent', { functionName, hash });
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS });
+    if (receipt.status === 'reverted') {
+      // Receipts carry no reason; replaying the call at its block recovers it
+      await publicClient.simulateContract({ ...call, blockNumber: receipt.blockNumber });
+      throw new ContractError(functionName, 'The transaction reverted', { transactionHash: hash });
+    }
+    return { hash, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed };
+  } catch (error) {
+    if (options.signal?.aborted && error === options.signal.reason) throw error;
+    const contractError = toContractError(functionName, error, hash);
+    logger.error('KYC verifier transaction failed', {
+      functionName,
+      reason: contractError.reason,
+      transactionHash: contractError.transactionHash,
+      error: contractError.message,
+    });
+    throw contractError;
+  }
+}
+
+/**
+ * An issuer's registry entry; null if the ID is not registered
+ */
+async function readIssuer(
+  publicClient: ContractPublicClient,
+  issuerId: Hex,
+  options: ContractCallOptions
+): Promise<VerificationIssuer | null> {
+  const [signer, attributeScope, status, jurisdiction] = await publicClient.readContract({
+    address: getVerifierAddress(options),
+    abi: KYC_VERIFIER_ABI,
+    functionName: 'getIssuer',
+    args: [issuerId],
+  }).catch(error => {
+    throw toContractError('getIssuer', error);
+  });
+
+  const issuerStatus = ISSUER_STATUSES[status];
+  if (!issuerStatus) return null;
+  return { id: issuerId, signer, attributeScope: decodeAttributeMask(attributeScope), status: issuerStatus, jurisdiction };
+}
+
+/**
+ * Recover the result's signer the way submitProof does and look up the issuer it belongs to
+ * Throws EnclaveSignatureError if the result is not signed, or not by an active issuer
+ */
+export async function checkEnclaveSignature(
+  publicClient: ContractPublicClient,
+  userAddress: string,
+  verificationResult: VerificationResult,
+  options: ContractCallOptions = {}
+): Promise<VerificationIssuer> {
+  const signer = await recoverResultSigner(userAddress, verificationResult);
+  if (!signer) {
+    throw new EnclaveSignatureError(
+      verificationResult.enclaveSignature ? 'The TEE result has a malformed signature' : 'The TEE result is not signed'
+    );
+  }
+
+  const issuerId = await publicClient.readContract({
+    address: getVerifierAddress(options),
+    abi: KYC_VERIFIER_ABI,
+    functionName: 'issuerOfSigner',
+    args: [signer],
+  }).catch(error => {
+    throw toContractError('issuerOfSigner', error);
+  });
+  if (issuerId === zeroHash) {
+    throw new EnclaveSignatureError(
+      `The TEE result is signed by ${signer}, which is not a registered issuer of the KYC contract`,
+      { signer }
+    );
+  }
+
+  const issuer = await readIssuer(publicClient, issuerId, options);
+  if (issuer?.status !== 'active') {
+    throw new EnclaveSignatureError(
+      `The TEE result is signed by issuer ${issuer?.jurisdiction ?? issuerId}, which the KYC contract has suspended`,
+      { signer, issuerId, reason: 'Issuer suspended' }
+    );
+  }
+  return issuer;
+}
+
+/**
+ * Submit verification proof to the smart contract
+ * Checks the enclave signature first, then waits for the receipt; throws ContractError on any failure
+ * The submission binds the document's nullifier to the user, so a document bound to another wallet
+ * fails with NullifierInUseError before the wallet prompts
+ */
+export async function submitVerificationProof(
+  clients: ContractClients,
+  userAddress: string,
+  verificationResult: VerificationResult,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  try {
+    await checkEnclaveSignature(clients.publicClient, userAddress, verificationResult, options);
+  } catch (error) {
+    logger.error('Verification result failed the enclave signature check', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  // The attestation the signature check recovered from; it is there, or the check would have thrown
+  const attestation = toAttestation(userAddress, verificationResult)!;
+  await checkNullifierAvailable(clients.publicClient, attestation.nullifierHash, userAddress, {
+    ...options,
+    functionName: 'submitProof',
+  });
+  return writeVerifier(clients, {
+    functionName: 'submitProof',
+    args: [
+      getAddress(userAddress),
+      attestation.isValid,
+      attestation.proofHash,
+      toHex(verificationResult.enclaveSignature),
+      BigInt(attestation.expiryTimestamp),
+      BigInt(attestation.attributes),
+      attestation.attributeExpiries.map(expiry => BigInt(expiry)),
+      BigInt(attestation.commitment),
+      BigInt(attestation.nullifierHash),
+      BigInt(attestation.nullifierScope),
+    ],
+  }, options);
+}
+
+/**
+ * Revoke a user's verification; only accounts with REVOKER_ROLE can
+ * The wallet cannot verify again until a revoker reinstates it (reinstateWallet)
+ */
+export async function revokeVerification(
+  clients: ContractClients,
+  userAddress: string,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'revokeVerification', args: [getAddress(userAddress)] }, options);
+}
+
+/**
+ * Let a revoked wallet verify again; requires REVOKER_ROLE
+ * Its verification stays revoked until it submits a new result or proof
+ */
+export async function reinstateWallet(
+  clients: ContractClients,
+  userAddress: string,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'reinstateWallet', args: [getAddress(userAddress)] }, options);
+}
+
+/**
+ * Verify the connected wallet with a full_kyc proof, which the contract checks itself
+ * The proof must be for the wallet, made today, with a minimum age of at least 18 and the contract's nullifier scope,
+ * over a record whose commitment an issuer's enclave attested for the wallet through submitVerificationProof
+ * A document bound to another wallet fails with NullifierInUseError before the wallet prompts
+ */
+export async function submitZKProof(
+  clients: ContractClients,
+  zkProof: ZKProof,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  const [a, b, c, input] = toGroth16Calldata(zkProof);
+  // The nullifier the app tracks must be the one the contract records
+  if (input[1] !== BigInt(zkProof.nullifierHash)) {
+    throw new ContractError('submitZKProof', 'The proof\'s nullifier does not match its public signals');
+  }
+  // In the order the contract checks them, so the error is the revert it would give
+  const { address } = clients.walletClient.account;
+  if (input[8] !== BigInt(address)) {
+    throw new ContractError('submitZKProof', 'The proof was made for another wallet', { reason: 'Proof is for another wallet' });
+  }
+  if (!(await getCommitmentAttestation(clients.publicClient, address, input[2], options))) {
+    throw new ContractError(
+      'submitZKProof',
+      'No issuer has attested the record the proof is over; verify it with the TEE first',
+      { reason: 'Commitment not attested' }
+    );
+  }
+  await checkNullifierAvailable(clients.publicClient, zkProof.nullifierHash, address, options);
+  return writeVerifier(clients, { functionName: 'submitZKProof', args: [a, b, c, input] }, options);
+}
+
+/**
+ * The issuer whose enclave attested a record commitment for the user, and until when, or null if none did
+ */
+export async function getCommitmentAttestation(
+  publicClient: ContractPublicClient,
+  userAddress: string,
+  commitment: bigint,
+  options: ContractCallOptions = {}
+): Promise<{ issuerId: Hex; expiryTimestamp: number } | null> {
+  const [issuerId, expiryTimestamp] = await publicClient.readContract({
+    address: getVerifierAddress(options),
+    abi: KYC_VERIFIER_ABI,
+    functionName: 'attestedCommitments',
+    args: [getAddress(userAddress), commitment],
+  }).catch(error => {
+    throw toContractError('attestedCommitments', error);
+  });
+  return issuerId === zeroHash ? null : { issuerId, expiryTimestamp: Number(expiryTimestamp) };
+}
 
-// Verification validity period (1 year in seconds)
-const VERIFICATION_VALIDITY_PERIOD = 365 * 24 * 60 * 60;
+/**
+ * The nullifier scope full_kyc proofs must be made for (see generateFullKYCProof), 0 for per-wallet
+ */
+export async function getNullifierScope(
+  publicClient: ContractPublicClient,
+  options: ContractCallOptions = {}
+): Promise<bigint> {
+  return publicClient.readContract({
+    address: getVerifierAddress(options),
+    abi: KYC_VERIFIER_ABI,
+    functionName: 'nullifierScope',
+  }).catch(error => {
+    throw toContractError('nullifierScope', error);
+  });
+}
 
 /**
- * Submit verification proof to the smart contract
+ * The wallet a nullifier is bound to, or null if no proof has used it
  */
-export async function submitVerificationProof(
-  walletClient: unknown,
-  publicClient: unknown,
-  userAddress: `0x${string}`,
-  verificationResult: VerificationResult
-): Promise<{ hash: string; success: boolean }> {
+export async function getNullifierOwner(
+  publicClient: ContractPublicClient,
+  nullifierHash: string,
+  options: ContractCallOptions = {}
+): Promise<Address | null> {
+  const owner = await publicClient.readContract({
+    address: getVerifierAddress(options),
+    abi: KYC_VERIFIER_ABI,
+    functionName: 'nullifierOwner',
+    args: [BigInt(nullifierHash)],
+  }).catch(error => {
+    throw toContractError('nullifierOwner', error);
+  });
+  return isAddressEqual(owner, zeroAddress) ? null : owner;
+}
+
+/**
+ * Throw NullifierInUseError if the nullifier is bound to a wallet other than userAddress
+ * Nothing is sent, so a document already used elsewhere costs no gas
+ */
+export async function checkNullifierAvailable(
+  publicClient: ContractPublicClient,
+  nullifierHash: string,
+  userAddress: string,
+  options: ContractCallOptions & { functionName?: 'submitProof' | 'submitZKProof' } = {}
+): Promise<void> {
+  const owner = await getNullifierOwner(publicClient, nullifierHash, options);
+  if (owner && !isAddressEqual(owner, getAddress(userAddress))) {
+    throw new NullifierInUseError(nullifierHash, owner, options.functionName);
+  }
+}
+
+/**
+ * Check a full_kyc proof with the Groth16 verifier KYCVerifier uses
+ * False if the proof is invalid or KYCVerifier has no verifier set
+ */
+export async function verifyZKProofOnChain(
+  publicClient: ContractPublicClient,
+  zkProof: ZKProof,
+  options: ContractCallOptions = {}
+): Promise<boolean> {
   try {
-    // Convert proof hash to bytes32
-    const proofHashBytes = `0x${verificationResult.proofHash}` as `0x${string}`;
-    
-    // Convert enclave signature to bytes
-    const signatureBytes = `0x${verificationResult.enclaveSignature}` as `0x${string}`;
-    
-    // Calculate expiry timestamp (1 year from now)
-    const expiryTimestamp = BigInt(Math.floor(Date.now() / 1000) + VERIFICATION_VALIDITY_PERIOD);
-    
-    // @ts-expect-error - Dynamic wallet client
-    const hash = await walletClient.writeContract({
-      address: KYC_VERIFIER_ADDRESS as `0x${string}`,
+    const verifier = await publicClient.readContract({
+      address: getVerifierAddress(options),
       abi: KYC_VERIFIER_ABI,
-      functionName: 'submitProof',
-      args: [
-        userAddress,
-        verificationResult.isValid,
-        proofHashBytes,
-        signatureBytes,
-        expiryTimestamp,
-      ],
+      functionName: 'zkVerifier',
+    });
+    if (isAddressEqual(verifier, zeroAddress)) return false;
+    return await publicClient.readContract({
+      address: verifier,
+      abi: GROTH16_VERIFIER_ABI,
+      functionName: 'verifyProof',
+      args: toGroth16Calldata(zkProof),
     });
-    
-    // Wait for transaction confirmation
-    // @ts-expect-error - Dynamic public client
-    await publicClient.waitForTransactionReceipt({ hash });
-    
-    return { hash, success: true };
   } catch (error) {
-    console.error('[v0] Failed to submit verification proof:', error);
-    return { hash: '', success: false };
+    logger.error('Failed to verify ZK proof on-chain', { error: toContractError('verifyProof', error).message });
+    return false;
   }
 }
 
@@ -109,21 +1005,60 @@ export async function submitVerificationProof(
  * Check if a user is verified on-chain
  */
 export async function checkOnChainVerification(
-  publicClient: unknown,
-  userAddress: `0x${string}`
+  publicClient: ContractPublicClient,
+  userAddress: string,
+  options: ContractCallOptions = {}
 ): Promise<boolean> {
   try {
-    // @ts-expect-error - Dynamic public client
-    const isVerified = await publicClient.readContract({
-      address: KYC_VERIFIER_ADDRESS as `0x${string}`,
+    return await publicClient.readContract({
+      address: getVerifierAddress(options),
       abi: KYC_VERIFIER_ABI,
       functionName: 'isVerified',
-      args: [userAddress],
+      args: [getAddress(userAddress)],
+    });
+  } catch (error) {
+    logger.error('Failed to check verification status', { error: toContractError('isVerified', error).message });
+    return false;
+  }
+}
+
+/**
+ * Whether a user's verification was revoked, so neither submission path accepts the wallet until it is reinstated
+ */
+export async function isWalletRevoked(
+  publicClient: ContractPublicClient,
+  userAddress: string,
+  options: ContractCallOptions = {}
+): Promise<boolean> {
+  return publicClient.readContract({
+    address: getVerifierAddress(options),
+    abi: KYC_VERIFIER_ABI,
+    functionName: 'revokedWallets',
+    args: [getAddress(userAddress)],
+  }).catch(error => {
+    throw toContractError('revokedWallets', error);
+  });
+}
+
+/**
+ * Check if all the given attributes hold on-chain for a user
+ * Each must be attested, not expired, and within the scope of an active issuer
+ */
+export async function checkVerifiedFor(
+  publicClient: ContractPublicClient,
+  userAddress: string,
+  attributes: VerificationAttribute[],
+  options: ContractCallOptions = {}
+): Promise<boolean> {
+  try {
+    return await publicClient.readContract({
+      address: getVerifierAddress(options),
+      abi: KYC_VERIFIER_ABI,
+      functionName: 'isVerifiedFor',
+      args: [getAddress(userAddress), encodeAttributeMask(attributes)],
     });
-    
-    return isVerified as boolean;
   } catch (error) {
-    console.error('[v0] Failed to check verification status:', error);
+    logger.error('Failed to check verification status', { error: toContractError('isVerifiedFor', error).message });
     return false;
   }
 }
@@ -132,120 +1067,534 @@ export async function checkOnChainVerification(
  * Get full verification details from the contract
  */
 export async function getVerificationDetails(
-  publicClient: unknown,
-  userAddress: `0x${string}`
+  publicClient: ContractPublicClient,
+  userAddress: string,
+  options: ContractCallOptions = {}
 ): Promise<OnChainVerification | null> {
   try {
-    // @ts-expect-error - Dynamic public client
-    const result = await publicClient.readContract({
-      address: KYC_VERIFIER_ADDRESS as `0x${string}`,
+    const [
+      isVerified,
+      verificationTimestamp,
+      proofHash,
+      expiryTimestamp,
+      issuerId,
+      attributes,
+      attributeExpiries,
+    ] = await publicClient.readContract({
+      address: getVerifierAddress(options),
       abi: KYC_VERIFIER_ABI,
       functionName: 'getVerification',
-      args: [userAddress],
+      args: [getAddress(userAddress)],
     });
-    
-    const [isVerified, verificationTimestamp, proofHash, expiryTimestamp] = result as [
-      boolean,
-      bigint,
-      string,
-      bigint
-    ];
-    
+
     return {
       userAddress,
       isVerified,
       verificationTimestamp: Number(verificationTimestamp),
       proofHash,
       expiryTimestamp: Number(expiryTimestamp),
+      issuerId,
+      attributes: decodeAttributeMask(attributes),
+      attributeExpiries: Object.fromEntries(
+        VERIFICATION_ATTRIBUTES
+          .map((attribute, bit) => [attribute, Number(attributeExpiries[bit])] as const)
+          .filter(([, expiry]) => expiry > 0)
+      ),
     };
   } catch (error) {
-    console.error('[v0] Failed to get verification details:', error);
+    logger.error('Failed to get verification details', { error: toContractError('getVerification', error).message });
+    return null;
+  }
+}
+
+/**
+ * The issuer whose enclave signed a user's verification, or null if the user has none
+ * The issuer is returned even if it has been suspended since
+ */
+export async function getAttestingIssuer(
+  publicClient: ContractPublicClient,
+  userAddress: string,
+  options: ContractCallOptions = {}
+): Promise<VerificationIssuer | null> {
+  const verification = await getVerificationDetails(publicClient, userAddress, options);
+  if (!verification || verification.issuerId === zeroHash) return null;
+  return getIssuer(publicClient, verification.issuerId as Hex, options);
+}
+
+/**
+ * Get an issuer from the registry
+ */
+export async function getIssuer(
+  publicClient: ContractPublicClient,
+  issuerId: Hex,
+  options: ContractCallOptions = {}
+): Promise<VerificationIssuer | null> {
+  try {
+    return await readIssuer(publicClient, issuerId, options);
+  } catch (error) {
+    logger.error('Failed to get issuer', { issuerId, error: toContractError('getIssuer', error).message });
     return null;
   }
 }
 
+/**
+ * Get every registered issuer, suspended ones included
+ */
+export async function getIssuers(
+  publicClient: ContractPublicClient,
+  options: ContractCallOptions = {}
+): Promise<VerificationIssuer[]> {
+  try {
+    const issuerIds = await publicClient.readContract({
+      address: getVerifierAddress(options),
+      abi: KYC_VERIFIER_ABI,
+      functionName: 'getIssuerIds',
+    });
+    const issuers = await Promise.all(issuerIds.map(issuerId => readIssuer(publicClient, issuerId, options)));
+    return issuers.filter((issuer): issuer is VerificationIssuer => issuer !== null);
+  } catch (error) {
+    logger.error('Failed to list issuers', { error: toContractError('getIssuerIds', error).message });
+    return [];
+  }
+}
+
+/**
+ * Register an issuer; needs ISSUER_ADMIN_ROLE
+ * Its signer must not belong to another issuer
+ */
+export async function addIssuer(
+  clients: ContractClients,
+  issuer: IssuerRegistration,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, {
+    functionName: 'addIssuer',
+    args: [issuer.id, getAddress(issuer.signer), encodeAttributeMask(issuer.attributeScope), issuer.jurisdiction],
+  }, options);
+}
+
+/**
+ * Suspend an issuer; needs ISSUER_ADMIN_ROLE
+ * Its results are refused and the verifications it signed stop counting until it is reactivated
+ */
+export async function suspendIssuer(
+  clients: ContractClients,
+  issuerId: Hex,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'suspendIssuer', args: [issuerId] }, options);
+}
+
+/**
+ * Reactivate a suspended issuer; needs ISSUER_ADMIN_ROLE
+ */
+export async function reactivateIssuer(
+  clients: ContractClients,
+  issuerId: Hex,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'reactivateIssuer', args: [issuerId] }, options);
+}
+
+/**
+ * Replace an issuer's signing key, e.g. after redeploying its iApp; needs ISSUER_ADMIN_ROLE
+ * Verifications signed with the old key stay valid, but new results signed with it are refused
+ */
+export async function rotateIssuerSigner(
+  clients: ContractClients,
+  issuerId: Hex,
+  newSigner: Address,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'rotateIssuerSigner', args: [issuerId, getAddress(newSigner)] }, options);
+}
+
+/**
+ * Change the attributes an issuer is trusted for; needs ISSUER_ADMIN_ROLE
+ */
+export async function setIssuerScope(
+  clients: ContractClients,
+  issuerId: Hex,
+  attributeScope: VerificationAttribute[],
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'setIssuerScope', args: [issuerId, encodeAttributeMask(attributeScope)] }, options);
+}
+
+/**
+ * Check if an account holds a KYCVerifier role
+ */
+export async function hasVerifierRole(
+  publicClient: ContractPublicClient,
+  role: Hex,
+  account: string,
+  options: ContractCallOptions = {}
+): Promise<boolean> {
+  try {
+    return await publicClient.readContract({
+      address: getVerifierAddress(options),
+      abi: KYC_VERIFIER_ABI,
+      functionName: 'hasRole',
+      args: [role, getAddress(account)],
+    });
+  } catch (error) {
+    logger.error('Failed to check role', { role, error: toContractError('hasRole', error).message });
+    return false;
+  }
+}
+
+/**
+ * Grant a KYCVerifier role; needs DEFAULT_ADMIN_ROLE
+ */
+export async function grantVerifierRole(
+  clients: ContractClients,
+  role: Hex,
+  account: string,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'grantRole', args: [role, getAddress(account)] }, options);
+}
+
+/**
+ * Revoke a KYCVerifier role; needs DEFAULT_ADMIN_ROLE
+ */
+export async function revokeVerifierRole(
+  clients: ContractClients,
+  role: Hex,
+  account: string,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'revokeRole', args: [role, getAddress(account)] }, options);
+}
+
+/**
+ * Set the Groth16 verifier submitZKProof checks proofs with; needs ISSUER_ADMIN_ROLE
+ * The first call registers the verifier as the ZK_ISSUER_ID issuer, which can be suspended like any other
+ */
+export async function setZKVerifier(
+  clients: ContractClients,
+  verifier: Address,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'setZKVerifier', args: [getAddress(verifier)] }, options);
+}
+
+/**
+ * Point the proxy at a new KYCVerifier implementation; needs DEFAULT_ADMIN_ROLE
+ * Verifications and the issuer registry live in the proxy and carry over
+ */
+export async function upgradeVerifier(
+  clients: ContractClients,
+  newImplementation: Address,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'upgradeToAndCall', args: [getAddress(newImplementation), '0x'] }, options);
+}
+
+/**
+ * Scope full_kyc nullifiers to an application (encodeNullifierScope), or back to per-wallet with 0
+ * Requires ISSUER_ADMIN_ROLE
+ */
+export async function setNullifierScope(
+  clients: ContractClients,
+  scope: bigint,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'setNullifierScope', args: [scope] }, options);
+}
+
+/**
+ * Unbind a nullifier so its document can verify another wallet; requires REVOKER_ROLE
+ * A revocation of the wallet that held it stays in place (see reinstateWallet)
+ */
+export async function releaseNullifier(
+  clients: ContractClients,
+  nullifierHash: string,
+  options: ContractWriteOptions = {}
+): Promise<SubmissionReceipt> {
+  return writeVerifier(clients, { functionName: 'releaseNullifier', args: [BigInt(nullifierHash)] }, options);
+}
+
 /**
  * Generate the Solidity contract code for deployment
  */
 export function generateContractCode(): string {
   return `// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.19;
+pragma solidity ^0.8.22;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+
+/**
+ * @notice Groth16 verifier for the full_kyc circuit, generated from its verification key
+ */
+interface IGroth16Verifier {
+    function verifyProof(
+        uint256[2] calldata a,
+        uint256[2][2] calldata b,
+        uint256[2] calldata c,
+        uint256[10] calldata input
+    ) external view returns (bool);
+}
 
 /**
  * @title KYCVerifier
- * @notice Decentralized KYC verification contract using iExec TEE attestations
- * @dev Stores verification results without any PII
+ * @notice Decentralized KYC verification contract using TEE attestations from registered issuers
+ * @dev Stores attested attributes, each with its own expiry, without any PII. Deployed behind an ERC1967 proxy (UUPS);
+ *      upgrades must only append state variables.
  */
-contract KYCVerifier is Ownable {
+contract KYCVerifier is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
     using ECDSA for bytes32;
+    using MessageHashUtils for bytes32;
+
+    // Manages the issuer registry
+    bytes32 public constant ISSUER_ADMIN_ROLE = keccak256("ISSUER_ADMIN_ROLE");
+    // Revokes individual verifications
+    bytes32 public constant REVOKER_ROLE = keccak256("REVOKER_ROLE");
+
+    // Attributes an issuer attests, as bits of a mask
+    uint256 public constant ATTR_ADULT = 1 << 0;
+    uint256 public constant ATTR_NOT_EXPIRED = 1 << 1;
+    uint256 public constant ATTR_NOT_SANCTIONED = 1 << 2;
+    uint256 public constant ATTRIBUTE_COUNT = 3;
+    uint256 public constant ALL_ATTRIBUTES = ATTR_ADULT | ATTR_NOT_EXPIRED | ATTR_NOT_SANCTIONED;
+
+    // The Groth16 verifier is registered as this issuer, so it can be suspended and scoped like the others
+    bytes32 public constant ZK_ISSUER_ID = keccak256("zkkyc-groth16-full-kyc");
+    // A proof shows the document was valid on the day it was made, not until when
+    uint256 public constant ZK_PROOF_VALIDITY_PERIOD = 30 days;
+    uint256 public constant MINIMUM_AGE = 18;
+
+    // full_kyc public signals: its outputs, then its public inputs
+    uint256 private constant SIGNAL_RESULT = 0;
+    uint256 private constant SIGNAL_NULLIFIER = 1;
+    uint256 private constant SIGNAL_COMMITMENT = 2;
+    uint256 private constant SIGNAL_YEAR = 3;
+    uint256 private constant SIGNAL_MONTH = 4;
+    uint256 private constant SIGNAL_DAY = 5;
+    uint256 private constant SIGNAL_MINIMUM_AGE = 6;
+    uint256 private constant SIGNAL_USER = 8;
+    uint256 private constant SIGNAL_NULLIFIER_SCOPE = 9;
+
+    enum IssuerStatus { None, Active, Suspended }
+
+    struct Issuer {
+        address signer;
+        uint256 attributeScope;
+        IssuerStatus status;
+        string jurisdiction;
+    }
+
+    struct AttestedCommitment {
+        bytes32 issuerId;
+        uint256 expiryTimestamp;
+    }
 
     struct Verification {
         bool isVerified;
         uint256 verificationTimestamp;
         bytes32 proofHash;
         uint256 expiryTimestamp;
+        bytes32 issuerId;
+        // Attributes the issuer attested, and when each expires (indexed by bit)
+        uint256 attributes;
+        uint64[ATTRIBUTE_COUNT] attributeExpiries;
     }
 
     // Mapping of user address to verification status
     mapping(address => Verification) public verifications;
-    
-    // Trusted enclave signer address (from iExec TEE)
-    address public trustedEnclave;
-    
+
+    // Issuer registry (TEE apps and the enclave keys they sign with)
+    mapping(bytes32 => Issuer) private issuers;
+    bytes32[] private issuerIds;
+
+    // Current signer of each issuer; rotated-out signers map to nothing
+    mapping(address => bytes32) public issuerOfSigner;
+
+    // Checks full_kyc proofs for submitZKProof; unset until setZKVerifier
+    IGroth16Verifier public zkVerifier;
+
+    // Wallet each full_kyc nullifier was submitted from
+    mapping(uint256 => address) public nullifierOwner;
+
+    // Application scope full_kyc nullifiers must be proven for; 0 accepts per-wallet nullifiers
+    uint256 public nullifierScope;
+
+    // Record commitments an issuer's enclave recomputed from each wallet's protected data, and until when they hold
+    mapping(address => mapping(uint256 => AttestedCommitment)) public attestedCommitments;
+
+    // Wallets whose verification was revoked; they cannot verify again until reinstateWallet
+    mapping(address => bool) public revokedWallets;
+
     // Events
-    event Verified(address indexed user, bytes32 proofHash, uint256 timestamp);
+    event Verified(address indexed user, bytes32 indexed issuerId, bytes32 proofHash, uint256 timestamp);
     event Revoked(address indexed user, uint256 timestamp);
-    event EnclaveUpdated(address indexed oldEnclave, address indexed newEnclave);
+    event IssuerAdded(bytes32 indexed issuerId, address indexed signer, uint256 attributeScope, string jurisdiction);
+    event IssuerSuspended(bytes32 indexed issuerId);
+    event IssuerReactivated(bytes32 indexed issuerId);
+    event IssuerSignerRotated(bytes32 indexed issuerId, address indexed oldSigner, address indexed newSigner);
+    event IssuerScopeUpdated(bytes32 indexed issuerId, uint256 attributeScope);
+    event ZKVerifierUpdated(address indexed verifier);
+    event NullifierScopeUpdated(uint256 scope);
+    event NullifierBound(uint256 indexed nullifierHash, address indexed user);
+    event NullifierReleased(uint256 indexed nullifierHash, address indexed user);
+    event WalletReinstated(address indexed user);
+    event CommitmentAttested(address indexed user, uint256 indexed commitment, bytes32 indexed issuerId);
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
 
-    constructor(address _trustedEnclave) Ownable(msg.sender) {
-        trustedEnclave = _trustedEnclave;
+    /**
+     * @notice Set up the proxy and give the admin every role
+     * @param admin The account administering the contract
+     */
+    function initialize(address admin) external initializer {
+        __AccessControl_init();
+        __UUPSUpgradeable_init();
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(ISSUER_ADMIN_ROLE, admin);
+        _grantRole(REVOKER_ROLE, admin);
     }
 
     /**
-     * @notice Submit a verification proof from the TEE
+     * @notice Submit a verification proof from a registered issuer's TEE
      * @param user The user address being verified
      * @param result The verification result (true/false)
      * @param proofHash Hash of the verification proof
-     * @param enclaveSignature Signature from the trusted enclave
+     * @param enclaveSignature Signature from the issuer's enclave
      * @param expiryTimestamp When the verification expires
+     * @param attributes Bitmask of the ATTR_* values attested
+     * @param attributeExpiries When each attribute expires, indexed by bit; 0 for attributes not attested
+     * @param commitment The record commitment the enclave recomputed from the user's protected data
+     * @param nullifierHash The document's nullifier, which binds it to the user as submitZKProof does
+     * @param scope The nullifier scope the enclave computed it for; must be nullifierScope
      */
     function submitProof(
         address user,
         bool result,
         bytes32 proofHash,
         bytes calldata enclaveSignature,
-        uint256 expiryTimestamp
+        uint256 expiryTimestamp,
+        uint256 attributes,
+        uint256[] calldata attributeExpiries,
+        uint256 commitment,
+        uint256 nullifierHash,
+        uint256 scope
     ) external {
-        // Verify the enclave signature
-        bytes32 messageHash = keccak256(abi.encodePacked(user, result, proofHash, expiryTimestamp));
-        bytes32 ethSignedHash = messageHash.toEthSignedMessageHash();
-        address signer = ethSignedHash.recover(enclaveSignature);
-        
-        require(signer == trustedEnclave, "Invalid enclave signature");
+        // Verify the enclave signature and find the issuer it belongs to
+        bytes32 issuerId = _signingIssuer(
+            keccak256(abi.encodePacked(
+                user, result, proofHash, expiryTimestamp, attributes, attributeExpiries, commitment, nullifierHash, scope
+            )),
+            enclaveSignature
+        );
+
+        require(issuerId != bytes32(0), "Invalid enclave signature");
+        require(issuers[issuerId].status == IssuerStatus.Active, "Issuer suspended");
+        require(!revokedWallets[user], "Verification revoked");
         require(result == true, "Verification failed");
         require(expiryTimestamp > block.timestamp, "Proof already expired");
+        require(commitment != 0, "Invalid commitment");
+        require(scope == nullifierScope, "Wrong nullifier scope");
+        require(attributes != 0 && attributes & ~ALL_ATTRIBUTES == 0, "Invalid attributes");
+        require(attributes & issuers[issuerId].attributeScope == attributes, "Attributes outside issuer scope");
+        require(attributeExpiries.length == ATTRIBUTE_COUNT, "Invalid attribute expiries");
 
-        verifications[user] = Verification({
-            isVerified: true,
-            verificationTimestamp: block.timestamp,
-            proofHash: proofHash,
-            expiryTimestamp: expiryTimestamp
-        });
+        Verification storage v = verifications[user];
+        v.isVerified = true;
+        v.verificationTimestamp = block.timestamp;
+        v.proofHash = proofHash;
+        v.expiryTimestamp = expiryTimestamp;
+        v.issuerId = issuerId;
+        v.attributes = attributes;
+        for (uint256 bit = 0; bit < ATTRIBUTE_COUNT; bit++) {
+            if (attributes & (1 << bit) == 0) {
+                v.attributeExpiries[bit] = 0;
+                continue;
+            }
+            require(attributeExpiries[bit] > block.timestamp, "Attribute already expired");
+            require(attributeExpiries[bit] <= expiryTimestamp, "Attribute outlives proof");
+            v.attributeExpiries[bit] = SafeCast.toUint64(attributeExpiries[bit]);
+        }
+
+        _attestRecord(user, issuerId, expiryTimestamp, commitment, nullifierHash);
+
+        emit Verified(user, issuerId, proofHash, block.timestamp);
+    }
+
+    /**
+     * @notice Verify the caller with a full_kyc zero-knowledge proof, checked on-chain
+     * @dev Attests ATTR_ADULT and ATTR_NOT_EXPIRED for ZK_PROOF_VALIDITY_PERIOD, or until the record's
+     *      attestation expires if sooner; sanctions need the TEE. The proof must be over a record an
+     *      active issuer's enclave attested for the caller (see submitProof), since the prover picks its inputs.
+     * @param a Proof point A
+     * @param b Proof point B
+     * @param c Proof point C
+     * @param input The circuit's public signals
+     */
+    function submitZKProof(
+        uint256[2] calldata a,
+        uint256[2][2] calldata b,
+        uint256[2] calldata c,
+        uint256[10] calldata input
+    ) external {
+        require(address(zkVerifier) != address(0), "ZK verification disabled");
+        require(issuers[ZK_ISSUER_ID].status == IssuerStatus.Active, "Issuer suspended");
+        require(input[SIGNAL_USER] == uint256(uint160(msg.sender)), "Proof is for another wallet");
+        require(!revokedWallets[msg.sender], "Verification revoked");
+        AttestedCommitment memory attested = attestedCommitments[msg.sender][input[SIGNAL_COMMITMENT]];
+        require(attested.issuerId != bytes32(0), "Commitment not attested");
+        require(issuers[attested.issuerId].status == IssuerStatus.Active, "Commitment issuer suspended");
+        require(attested.expiryTimestamp > block.timestamp, "Commitment attestation expired");
+        require(input[SIGNAL_MINIMUM_AGE] >= MINIMUM_AGE, "Minimum age too low");
+        require(input[SIGNAL_NULLIFIER_SCOPE] == nullifierScope, "Wrong nullifier scope");
+        _checkProofDate(input[SIGNAL_YEAR], input[SIGNAL_MONTH], input[SIGNAL_DAY]);
+        require(zkVerifier.verifyProof(a, b, c, input), "Invalid ZK proof");
+        require(input[SIGNAL_RESULT] == 1, "Verification failed");
 
-        emit Verified(user, proofHash, block.timestamp);
+        _bindNullifier(input[SIGNAL_NULLIFIER], msg.sender);
+
+        uint256 attributes = ATTR_ADULT | ATTR_NOT_EXPIRED;
+        uint256 expiryTimestamp = block.timestamp + ZK_PROOF_VALIDITY_PERIOD;
+        if (attested.expiryTimestamp < expiryTimestamp) expiryTimestamp = attested.expiryTimestamp;
+        Verification storage v = verifications[msg.sender];
+        v.isVerified = true;
+        v.verificationTimestamp = block.timestamp;
+        v.proofHash = bytes32(input[SIGNAL_COMMITMENT]);
+        v.expiryTimestamp = expiryTimestamp;
+        v.issuerId = ZK_ISSUER_ID;
+        v.attributes = attributes;
+        for (uint256 bit = 0; bit < ATTRIBUTE_COUNT; bit++) {
+            v.attributeExpiries[bit] = attributes & (1 << bit) == 0 ? 0 : SafeCast.toUint64(expiryTimestamp);
+        }
+
+        emit Verified(msg.sender, ZK_ISSUER_ID, v.proofHash, block.timestamp);
     }
 
     /**
-     * @notice Check if a user is verified
+     * @notice Check if every attribute holds for a user
      * @param user The user address to check
-     * @return True if verified and not expired
+     * @return True if all attributes are attested, not expired, and within an active issuer's scope
      */
     function isVerified(address user) external view returns (bool) {
-        Verification memory v = verifications[user];
-        return v.isVerified && v.expiryTimestamp > block.timestamp;
+        return _validAttributes(user) == ALL_ATTRIBUTES;
+    }
+
+    /**
+     * @notice Check if some attributes hold for a user, e.g. isVerifiedFor(user, ATTR_ADULT)
+     * @param user The user address to check
+     * @param attributes Bitmask of ATTR_* values
+     * @return True if each attribute is attested, not expired, and within an active issuer's scope
+     */
+    function isVerifiedFor(address user, uint256 attributes) external view returns (bool) {
+        uint256 valid = _validAttributes(user);
+        return valid != 0 && valid & attributes == attributes;
     }
 
     /**
@@ -256,34 +1605,394 @@ contract KYCVerifier is Ownable {
         bool _isVerified,
         uint256 _verificationTimestamp,
         bytes32 _proofHash,
-        uint256 _expiryTimestamp
+        uint256 _expiryTimestamp,
+        bytes32 _issuerId,
+        uint256 _attributes,
+        uint64[ATTRIBUTE_COUNT] memory _attributeExpiries
     ) {
         Verification memory v = verifications[user];
+        uint256 valid = _validAttributes(user);
         return (
-            v.isVerified && v.expiryTimestamp > block.timestamp,
+            valid == ALL_ATTRIBUTES,
             v.verificationTimestamp,
             v.proofHash,
-            v.expiryTimestamp
+            v.expiryTimestamp,
+            v.issuerId,
+            valid,
+            v.attributeExpiries
         );
     }
 
     /**
-     * @notice Revoke a user's verification (admin only)
+     * @notice Revoke a user's verification
+     * @dev The wallet cannot verify again, through either submission path, until a revoker
+     *      reinstates it (reinstateWallet)
      * @param user The user address to revoke
      */
-    function revokeVerification(address user) external onlyOwner {
+    function revokeVerification(address user) external onlyRole(REVOKER_ROLE) {
         verifications[user].isVerified = false;
+        revokedWallets[user] = true;
         emit Revoked(user, block.timestamp);
     }
 
     /**
-     * @notice Update the trusted enclave address
-     * @param _newEnclave The new enclave address
+     * @notice Let a revoked wallet verify again, e.g. after a revocation made in error
+     * @dev Only lifts the block: the verification stays revoked until the wallet submits again.
+     *      Any result signed for the wallet before the revocation becomes submittable again
+     *      while it has not expired, so do not reinstate a lost or compromised wallet
+     * @param user The wallet to reinstate
+     */
+    function reinstateWallet(address user) external onlyRole(REVOKER_ROLE) {
+        require(revokedWallets[user], "Wallet not revoked");
+        delete revokedWallets[user];
+
+        emit WalletReinstated(user);
+    }
+
+    /**
+     * @notice Register an issuer
+     * @param issuerId Identifier of the issuer, e.g. keccak256 of its name
+     * @param signer The issuer's enclave signer address
+     * @param attributeScope Bitmask of ATTR_* values the issuer is trusted for
+     * @param jurisdiction Where the issuer operates, e.g. "EU"
+     */
+    function addIssuer(
+        bytes32 issuerId,
+        address signer,
+        uint256 attributeScope,
+        string calldata jurisdiction
+    ) external onlyRole(ISSUER_ADMIN_ROLE) {
+        require(issuerId != bytes32(0) && issuerId != ZK_ISSUER_ID, "Invalid issuer id");
+        require(issuers[issuerId].status == IssuerStatus.None, "Issuer already registered");
+        _checkScope(attributeScope);
+        _assignSigner(issuerId, signer);
+
+        issuers[issuerId] = Issuer({
+            signer: signer,
+            attributeScope: attributeScope,
+            status: IssuerStatus.Active,
+            jurisdiction: jurisdiction
+        });
+        issuerIds.push(issuerId);
+
+        emit IssuerAdded(issuerId, signer, attributeScope, jurisdiction);
+    }
+
+    /**
+     * @notice Suspend an issuer; its results are refused and its verifications stop counting
+     * @param issuerId The issuer to suspend
+     */
+    function suspendIssuer(bytes32 issuerId) external onlyRole(ISSUER_ADMIN_ROLE) {
+        require(issuers[issuerId].status == IssuerStatus.Active, "Issuer not active");
+        issuers[issuerId].status = IssuerStatus.Suspended;
+        emit IssuerSuspended(issuerId);
+    }
+
+    /**
+     * @notice Reactivate a suspended issuer
+     * @param issuerId The issuer to reactivate
+     */
+    function reactivateIssuer(bytes32 issuerId) external onlyRole(ISSUER_ADMIN_ROLE) {
+        require(issuers[issuerId].status == IssuerStatus.Suspended, "Issuer not suspended");
+        issuers[issuerId].status = IssuerStatus.Active;
+        emit IssuerReactivated(issuerId);
+    }
+
+    /**
+     * @notice Replace an issuer's signer; verifications it already signed stay valid
+     * @param issuerId The issuer to update
+     * @param newSigner The new enclave signer address
+     */
+    function rotateIssuerSigner(bytes32 issuerId, address newSigner) external onlyRole(ISSUER_ADMIN_ROLE) {
+        Issuer storage issuer = issuers[issuerId];
+        require(issuer.status != IssuerStatus.None, "Unknown issuer");
+        // The ZK issuer's signer is its verifier contract; see setZKVerifier
+        require(issuerId != ZK_ISSUER_ID, "Invalid issuer id");
+
+        address oldSigner = issuer.signer;
+        delete issuerOfSigner[oldSigner];
+        _assignSigner(issuerId, newSigner);
+        issuer.signer = newSigner;
+
+        emit IssuerSignerRotated(issuerId, oldSigner, newSigner);
+    }
+
+    /**
+     * @notice Change the attributes an issuer is trusted for
+     * @param issuerId The issuer to update
+     * @param attributeScope Bitmask of ATTR_* values
+     */
+    function setIssuerScope(bytes32 issuerId, uint256 attributeScope) external onlyRole(ISSUER_ADMIN_ROLE) {
+        require(issuers[issuerId].status != IssuerStatus.None, "Unknown issuer");
+        _checkScope(attributeScope);
+        issuers[issuerId].attributeScope = attributeScope;
+        emit IssuerScopeUpdated(issuerId, attributeScope);
+    }
+
+    /**
+     * @notice Set the Groth16 verifier for submitZKProof, registering it as the ZK_ISSUER_ID issuer
+     * @param verifier The verifier generated from the full_kyc verification key
+     */
+    function setZKVerifier(address verifier) external onlyRole(ISSUER_ADMIN_ROLE) {
+        require(verifier != address(0), "Invalid verifier");
+
+        Issuer storage issuer = issuers[ZK_ISSUER_ID];
+        if (issuer.status == IssuerStatus.None) {
+            issuer.attributeScope = ATTR_ADULT | ATTR_NOT_EXPIRED;
+            issuer.status = IssuerStatus.Active;
+            issuer.jurisdiction = "ZK";
+            issuerIds.push(ZK_ISSUER_ID);
+            emit IssuerAdded(ZK_ISSUER_ID, verifier, issuer.attributeScope, issuer.jurisdiction);
+        }
+        issuer.signer = verifier;
+        zkVerifier = IGroth16Verifier(verifier);
+
+        emit ZKVerifierUpdated(verifier);
+    }
+
+    /**
+     * @notice Scope full_kyc nullifiers to this application, so a document verifies one wallet only
+     * @dev Nullifiers bound under an earlier scope stay bound but no longer match new proofs
+     * @param scope encodeNullifierScope of the application's name, or 0 for per-wallet nullifiers
+     */
+    function setNullifierScope(uint256 scope) external onlyRole(ISSUER_ADMIN_ROLE) {
+        // Above every address, so it cannot stand in for a wallet's per-wallet nullifier
+        require(scope == 0 || scope > type(uint160).max, "Invalid nullifier scope");
+        nullifierScope = scope;
+
+        emit NullifierScopeUpdated(scope);
+    }
+
+    /**
+     * @notice Unbind a nullifier, e.g. for a user who lost their wallet
+     * @dev Neither revokes the wallet's verification nor lifts a revocation of it (see revokeVerification),
+     *      so a revoked wallet cannot replay an old signed result to take the nullifier back
+     * @param nullifierHash The nullifier to release
+     */
+    function releaseNullifier(uint256 nullifierHash) external onlyRole(REVOKER_ROLE) {
+        address user = nullifierOwner[nullifierHash];
+        require(user != address(0), "Unknown nullifier");
+        delete nullifierOwner[nullifierHash];
+
+        emit NullifierReleased(nullifierHash, user);
+    }
+
+    /**
+     * @notice Get an issuer's registry entry
+     * @param issuerId The issuer to query
+     */
+    function getIssuer(bytes32 issuerId) external view returns (
+        address signer,
+        uint256 attributeScope,
+        IssuerStatus status,
+        string memory jurisdiction
+    ) {
+        Issuer memory issuer = issuers[issuerId];
+        return (issuer.signer, issuer.attributeScope, issuer.status, issuer.jurisdiction);
+    }
+
+    /**
+     * @notice IDs of every registered issuer, suspended ones included
+     */
+    function getIssuerIds() external view returns (bytes32[] memory) {
+        return issuerIds;
+    }
+
+    // The attributes that hold now: attested, not expired, and within the issuer's current scope
+    function _validAttributes(address user) internal view returns (uint256 valid) {
+        Verification storage v = verifications[user];
+        Issuer storage issuer = issuers[v.issuerId];
+        if (!v.isVerified || v.expiryTimestamp <= block.timestamp || issuer.status != IssuerStatus.Active) {
+            return 0;
+        }
+        valid = v.attributes & issuer.attributeScope;
+        for (uint256 bit = 0; bit < ATTRIBUTE_COUNT; bit++) {
+            if (v.attributeExpiries[bit] <= block.timestamp) {
+                valid &= ~(uint256(1) << bit);
+            }
+        }
+    }
+
+    // The proof's date must be today (UTC), give or take a day for the prover's time zone
+    function _checkProofDate(uint256 year, uint256 month, uint256 day) internal view {
+        require(year >= 1970 && year < 10000 && month >= 1 && month <= 12 && day >= 1 && day <= 31, "Invalid proof date");
+        uint256 proofDay = _daysFromCivil(year, month, day);
+        uint256 today = block.timestamp / 1 days;
+        require(proofDay + 1 >= today && proofDay <= today + 1, "Stale proof date");
+    }
+
+    // Days since 1970-01-01 (Howard Hinnant's days_from_civil)
+    function _daysFromCivil(uint256 year, uint256 month, uint256 day) internal pure returns (uint256) {
+        if (month <= 2) year -= 1;
+        uint256 era = year / 400;
+        uint256 yearOfEra = year - era * 400;
+        uint256 dayOfYear = (153 * (month > 2 ? month - 3 : month + 9) + 2) / 5 + day - 1;
+        uint256 dayOfEra = yearOfEra * 365 + yearOfEra / 4 - yearOfEra / 100 + dayOfYear;
+        return era * 146097 + dayOfEra - 719468;
+    }
+
+    // Binds the record's document to the user, and lets the user prove facts about the record with
+    // submitZKProof for as long as the verification lasts
+    function _attestRecord(
+        address user,
+        bytes32 issuerId,
+        uint256 expiryTimestamp,
+        uint256 commitment,
+        uint256 nullifierHash
+    ) internal {
+        _bindNullifier(nullifierHash, user);
+        attestedCommitments[user][commitment] = AttestedCommitment({ issuerId: issuerId, expiryTimestamp: expiryTimestamp });
+
+        emit CommitmentAttested(user, commitment, issuerId);
+    }
+
+    // The nullifier is derived from the document; it stays with the wallet that first used it
+    function _bindNullifier(uint256 nullifierHash, address user) internal {
+        address holder = nullifierOwner[nullifierHash];
+        require(holder == address(0) || holder == user, "Nullifier already used");
+        if (holder == address(0)) {
+            nullifierOwner[nullifierHash] = user;
+            emit NullifierBound(nullifierHash, user);
+        }
+    }
+
+    // The issuer whose current signer signed the digest (EIP-191), or 0 if none did
+    function _signingIssuer(bytes32 messageHash, bytes calldata signature) internal view returns (bytes32) {
+        return issuerOfSigner[messageHash.toEthSignedMessageHash().recover(signature)];
+    }
+
+    function _assignSigner(bytes32 issuerId, address signer) internal {
+        require(signer != address(0), "Invalid signer");
+        require(issuerOfSigner[signer] == bytes32(0), "Signer already registered");
+        issuerOfSigner[signer] = issuerId;
+    }
+
+    function _checkScope(uint256 attributeScope) internal pure {
+        require(attributeScope != 0 && attributeScope & ~ALL_ATTRIBUTES == 0, "Invalid attribute scope");
+    }
+
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+}`;
+}
+
+/**
+ * Generate the Solidity Groth16 verifier for a circuit's verification key
+ * submitZKProof calls it with the calldata toGroth16Calldata builds, so G2 points
+ * take the imaginary part of each coordinate first, as the pairing precompile does
+ */
+export function generateGroth16VerifierCode(verificationKey: Groth16VerificationKey): string {
+  const { nPublic, IC } = verificationKey;
+  if (verificationKey.protocol !== 'groth16' || verificationKey.curve !== 'bn128' || IC.length !== nPublic + 1) {
+    throw new Error(`Unsupported verification key: expected bn128 Groth16, got ${verificationKey.curve} ${verificationKey.protocol}`);
+  }
+
+  const g1 = (name: string, [x, y]: string[]) => [
+    `    uint256 private constant ${name}_X = ${x};`,
+    `    uint256 private constant ${name}_Y = ${y};`,
+  ];
+  const g2 = (name: string, [x, y]: string[][]) => [
+    `    uint256 private constant ${name}_X1 = ${x[1]};`,
+    `    uint256 private constant ${name}_X2 = ${x[0]};`,
+    `    uint256 private constant ${name}_Y1 = ${y[1]};`,
+    `    uint256 private constant ${name}_Y2 = ${y[0]};`,
+  ];
+  const constants = [
+    ...g1('ALPHA', verificationKey.vk_alpha_1),
+    ...g2('BETA', verificationKey.vk_beta_2),
+    ...g2('GAMMA', verificationKey.vk_gamma_2),
+    ...g2('DELTA', verificationKey.vk_delta_2),
+    ...IC.flatMap((point, i) => g1(`IC${i}`, point)),
+  ].join('\n');
+  const linearCombination = IC.slice(1)
+    .map((_, i) => `        vk = _add(vk, _mul([IC${i + 1}_X, IC${i + 1}_Y], input[${i}]));`)
+    .join('\n');
+
+  return `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+/**
+ * @title Groth16Verifier
+ * @notice Checks Groth16 proofs over BN254 for one circuit, whose verification key is built in
+ * @dev Generated by generateGroth16VerifierCode; regenerate it whenever the circuit's zkey changes.
+ */
+contract Groth16Verifier {
+    // Scalar field: every public signal must be below it
+    uint256 private constant R = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
+    // Base field of the curve's points
+    uint256 private constant Q = 21888242871839275222246405745257275088696311157297823662689037894645226208583;
+
+${constants}
+
+    /**
+     * @notice Check a proof against its public signals
+     * @param a Proof point A
+     * @param b Proof point B, imaginary part of each coordinate first
+     * @param c Proof point C
+     * @param input The public signals, in the circuit's order
+     * @return Whether the proof is valid
      */
-    function updateTrustedEnclave(address _newEnclave) external onlyOwner {
-        address oldEnclave = trustedEnclave;
-        trustedEnclave = _newEnclave;
-        emit EnclaveUpdated(oldEnclave, _newEnclave);
+    function verifyProof(
+        uint256[2] calldata a,
+        uint256[2][2] calldata b,
+        uint256[2] calldata c,
+        uint256[${nPublic}] calldata input
+    ) external view returns (bool) {
+        for (uint256 i = 0; i < ${nPublic}; i++) {
+            if (input[i] >= R) return false;
+        }
+        // A is negated below, which would hide an unreduced coordinate from the precompile
+        if (a[0] >= Q || a[1] >= Q) return false;
+
+        uint256[2] memory vk = _linearCombination(input);
+
+        // e(-A, B) * e(alpha, beta) * e(vk, gamma) * e(C, delta) == 1
+        uint256[24] memory p;
+        p[0] = a[0];
+        p[1] = (Q - a[1]) % Q;
+        p[2] = b[0][0];
+        p[3] = b[0][1];
+        p[4] = b[1][0];
+        p[5] = b[1][1];
+        p[6] = ALPHA_X;
+        p[7] = ALPHA_Y;
+        p[8] = BETA_X1;
+        p[9] = BETA_X2;
+        p[10] = BETA_Y1;
+        p[11] = BETA_Y2;
+        p[12] = vk[0];
+        p[13] = vk[1];
+        p[14] = GAMMA_X1;
+        p[15] = GAMMA_X2;
+        p[16] = GAMMA_Y1;
+        p[17] = GAMMA_Y2;
+        p[18] = c[0];
+        p[19] = c[1];
+        p[20] = DELTA_X1;
+        p[21] = DELTA_X2;
+        p[22] = DELTA_Y1;
+        p[23] = DELTA_Y2;
+
+        // The precompile fails on points off the curve, which makes the proof invalid
+        (bool success, bytes memory result) = address(0x08).staticcall(abi.encode(p));
+        return success && result.length == 32 && abi.decode(result, (uint256)) == 1;
+    }
+
+    // IC0 + input[0] * IC1 + ... + input[${nPublic - 1}] * IC${nPublic}
+    function _linearCombination(uint256[${nPublic}] calldata input) internal view returns (uint256[2] memory vk) {
+        vk = [IC0_X, IC0_Y];
+${linearCombination}
+    }
+
+    function _add(uint256[2] memory p1, uint256[2] memory p2) internal view returns (uint256[2] memory) {
+        (bool success, bytes memory result) = address(0x06).staticcall(abi.encode(p1[0], p1[1], p2[0], p2[1]));
+        require(success, "Point addition failed");
+        return abi.decode(result, (uint256[2]));
+    }
+
+    function _mul(uint256[2] memory p, uint256 scalar) internal view returns (uint256[2] memory) {
+        (bool success, bytes memory result) = address(0x07).staticcall(abi.encode(p[0], p[1], scalar));
+        require(success, "Scalar multiplication failed");
+        return abi.decode(result, (uint256[2]));
     }
 }`;
 }
@@ -0,0 +1,246 @@
+// In-Memory DataProtector
+//
+// Offline stand-in for the DataProtector core: protected data, grants and
+// tasks live in memory and the "TEE app" is a function. Pass it to
+// DataProtectorClient to run the protect -> grant -> process flow without a
+// wallet, IPFS or a workerpool.
+
+import type {
+  DataObject,
+  DataSchema,
+  GetGrantedAccessParams,
+  GetProtectedDataParams,
+  GetResultFromCompletedTaskParams,
+  GetResultFromCompletedTaskResponse,
+  GrantAccessParams,
+  GrantedAccess,
+  GrantedAccessResponse,
+  ProcessProtectedDataParams,
+  ProcessProtectedDataResponse,
+  ProtectDataParams,
+  ProtectedData,
+  ProtectedDataWithSecretProps,
+  RevokeAllAccessParams,
+  RevokedAccess,
+  WaitForTaskCompletionParams,
+  WaitForTaskCompletionResponse,
+} from '@iexec/dataprotector';
+import type { DataProtectorCore } from '@/lib/services/data-protector';
+import { DataProtectorError, ProtectedDataNotFoundError, TaskExecutionError } from '@/lib/services/data-protector';
+
+// Receives the protected data exactly as it was protected, returns the file at params.path
+export type InMemoryApp = (data: DataObject, params: ProcessProtectedDataParams) => ArrayBuffer | Promise<ArrayBuffer>;
+
+export interface InMemoryDataProtectorOptions {
+  // Wallet acting as owner of new protected data and requester of tasks
+  owner: string;
+  // Apps by address; processing with an unknown app fails
+  apps?: Record<string, InMemoryApp>;
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+// Tag iExec uses for TEE (scone) datasets
+const TEE_TAG = '0x0000000000000000000000000000000000000000000000000000000000000003';
+
+const sameAddress = (a: string | undefined, b: string) => a === undefined || a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Schema DataProtector would extract from the data; rejects what it cannot serialize
+ */
+function extractSchema(data: DataObject, path = ''): DataSchema {
+  const schema: DataSchema = {};
+  for (const [key, value] of Object.entries(data)) {
+    const at = path ? `${path}.${key}` : key;
+    if (typeof value === 'string') {
+      schema[key] = 'string';
+    } else if (typeof value === 'number') {
+      schema[key] = 'f64';
+    } else if (typeof value === 'bigint') {
+      schema[key] = 'i128';
+    } else if (typeof value === 'boolean') {
+      schema[key] = 'bool';
+    } else if (value instanceof Uint8Array || value instanceof ArrayBuffer || (typeof File !== 'undefined' && value instanceof File)) {
+      schema[key] = 'application/octet-stream';
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      schema[key] = extractSchema(value as DataObject, at);
+    } else {
+      throw new DataProtectorError('protectData', `Unsupported value at ${at}: ${Array.isArray(value) ? 'array' : typeof value}`);
+    }
+  }
+  return schema;
+}
+
+export class InMemoryDataProtector implements DataProtectorCore {
+  private readonly protectedData = new Map<string, { info: ProtectedData; data: DataObject }>();
+  private grants: GrantedAccess[] = [];
+  // Results of finished tasks by task ID; tasks run to completion when requested
+  private readonly tasks = new Map<string, { dealId: string; result?: ArrayBuffer; error?: unknown }>();
+  private nonce = 0;
+
+  constructor(private readonly options: InMemoryDataProtectorOptions) {}
+
+  async protectData({ data, name = '', onStatusUpdate }: ProtectDataParams): Promise<ProtectedDataWithSecretProps> {
+    onStatusUpdate?.({ title: 'EXTRACT_DATA_SCHEMA', isDone: false });
+    const schema = extractSchema(data);
+    onStatusUpdate?.({ title: 'EXTRACT_DATA_SCHEMA', isDone: true });
+
+    const info: ProtectedData = {
+      name,
+      address: this.nextHex(40),
+      owner: this.options.owner,
+      schema,
+      creationTimestamp: Math.floor(Date.now() / 1000),
+    };
+    this.protectedData.set(info.address.toLowerCase(), { info, data });
+    onStatusUpdate?.({ title: 'DEPLOY_PROTECTED_DATA', isDone: true, payload: { address: info.address } });
+
+    return {
+      ...info,
+      transactionHash: this.nextHex(64),
+      zipFile: new Uint8Array(),
+      encryptionKey: '',
+      multiaddr: '',
+    };
+  }
+
+  async grantAccess(params: GrantAccessParams): Promise<GrantedAccess> {
+    const { info } = this.find('grantAccess', params.protectedData);
+    if (!sameAddress(info.owner, this.options.owner)) {
+      throw new DataProtectorError('grantAccess', `${this.options.owner} does not own ${info.address}`);
+    }
+
+    const numberOfAccess = params.numberOfAccess ?? 1;
+    const access: GrantedAccess = {
+      dataset: info.address,
+      datasetprice: String(params.pricePerAccess ?? 0),
+      volume: String(numberOfAccess),
+      tag: TEE_TAG,
+      apprestrict: params.authorizedApp,
+      workerpoolrestrict: ZERO_ADDRESS,
+      requesterrestrict: params.authorizedUser,
+      salt: this.nextHex(64),
+      sign: this.nextHex(130),
+      remainingAccess: numberOfAccess,
+    };
+    this.grants.push(access);
+    return access;
+  }
+
+  async processProtectedData<Params extends ProcessProtectedDataParams>(
+    params: Params
+  ): Promise<ProcessProtectedDataResponse<Params>> {
+    const { data, info } = this.find('processProtectedData', params.protectedData);
+    const access = this.grants.find(grant =>
+      sameAddress(grant.dataset, info.address) &&
+      (sameAddress(grant.apprestrict, params.app) || sameAddress(grant.apprestrict, ZERO_ADDRESS)) &&
+      (sameAddress(grant.requesterrestrict, this.options.owner) || sameAddress(grant.requesterrestrict, ZERO_ADDRESS)) &&
+      grant.remainingAccess > 0
+    );
+    if (!access) {
+      throw new DataProtectorError('processProtectedData', `No access granted to ${params.app} on ${info.address}`);
+    }
+
+    const app = Object.entries(this.options.apps ?? {}).find(([address]) => sameAddress(address, params.app))?.[1];
+    if (!app) {
+      throw new DataProtectorError('processProtectedData', `No app deployed at ${params.app}`);
+    }
+
+    const dealId = this.nextHex(64);
+    const taskId = this.nextHex(64);
+    params.onStatusUpdate?.({ title: 'REQUEST_TO_PROCESS_PROTECTED_DATA', isDone: true, payload: { dealId, taskId } });
+    access.remainingAccess -= 1;
+
+    const txHash = this.nextHex(64);
+    let result: ArrayBuffer;
+    try {
+      params.onStatusUpdate?.({ title: 'TASK_EXECUTION', isDone: false, payload: { taskId } });
+      result = await app(data, params);
+      this.tasks.set(taskId, { dealId, result });
+      params.onStatusUpdate?.({ title: 'TASK_EXECUTION', isDone: true, payload: { taskId } });
+    } catch (error) {
+      this.tasks.set(taskId, { dealId, error });
+      throw new TaskExecutionError(
+        `Task ${taskId} failed: ${error instanceof Error ? error.message : String(error)}`,
+        { taskId, cause: error }
+      );
+    }
+
+    if (params.waitForResult === false) {
+      return { txHash, dealId, taskId } as ProcessProtectedDataResponse<Params>;
+    }
+    params.onStatusUpdate?.({ title: 'TASK_RESULT_DOWNLOAD', isDone: true, payload: { taskId } });
+    const response = { txHash, dealId, taskId, result };
+    return response as ProcessProtectedDataResponse<Params>;
+  }
+
+  async getProtectedData(params: GetProtectedDataParams = {}): Promise<ProtectedData[]> {
+    return Array.from(this.protectedData.values(), ({ info }) => info).filter(info =>
+      sameAddress(params.protectedDataAddress, info.address) &&
+      sameAddress(params.owner, info.owner) &&
+      (params.createdAfterTimestamp === undefined || info.creationTimestamp > params.createdAfterTimestamp)
+    );
+  }
+
+  async getGrantedAccess(params: GetGrantedAccessParams): Promise<GrantedAccessResponse> {
+    const grantedAccess = this.grants.filter(grant =>
+      sameAddress(params.protectedData, grant.dataset) &&
+      sameAddress(params.authorizedApp, grant.apprestrict) &&
+      sameAddress(params.authorizedUser, grant.requesterrestrict)
+    );
+    return { count: grantedAccess.length, grantedAccess };
+  }
+
+  async revokeOneAccess(access: GrantedAccess): Promise<RevokedAccess> {
+    const index = this.grants.findIndex(grant => grant.sign === access.sign);
+    if (index < 0) {
+      throw new DataProtectorError('revokeAccess', `No granted access with signature ${access.sign}`);
+    }
+    const [revoked] = this.grants.splice(index, 1);
+    return { access: revoked, txHash: this.nextHex(64) };
+  }
+
+  async revokeAllAccess(params: RevokeAllAccessParams): Promise<RevokedAccess[]> {
+    this.find('revokeAccess', params.protectedData);
+    const { grantedAccess } = await this.getGrantedAccess(params);
+    const revoked: RevokedAccess[] = [];
+    for (const access of grantedAccess) {
+      params.onStatusUpdate?.({ title: 'REVOKE_ONE_ACCESS', isDone: false, payload: { access: access.sign } });
+      revoked.push(await this.revokeOneAccess(access));
+      params.onStatusUpdate?.({ title: 'REVOKE_ONE_ACCESS', isDone: true, payload: { access: access.sign } });
+    }
+    return revoked;
+  }
+
+  async waitForTaskCompletion({ taskId, dealId, onStatusUpdate }: WaitForTaskCompletionParams): Promise<WaitForTaskCompletionResponse> {
+    const task = this.tasks.get(taskId);
+    if (!task || task.dealId !== dealId) {
+      throw new DataProtectorError('watchTask', `No task ${taskId} in deal ${dealId}`);
+    }
+    const status = task.error === undefined ? 'COMPLETED' : 'FAILED';
+    onStatusUpdate?.({ title: 'TASK_UPDATED', isDone: true, payload: { taskId, status } });
+    return { status, success: status === 'COMPLETED' };
+  }
+
+  async getResultFromCompletedTask({ taskId, onStatusUpdate }: GetResultFromCompletedTaskParams): Promise<GetResultFromCompletedTaskResponse> {
+    const result = this.tasks.get(taskId)?.result;
+    if (!result) {
+      throw new TaskExecutionError(`Task ${taskId} has no result`, { taskId, operation: 'watchTask' });
+    }
+    onStatusUpdate?.({ title: 'TASK_RESULT_DOWNLOAD', isDone: true, payload: { taskId } });
+    return { result };
+  }
+
+  private find(operation: 'grantAccess' | 'processProtectedData' | 'revokeAccess', address: string) {
+    const entry = this.protectedData.get(address.toLowerCase());
+    if (!entry) {
+      throw new ProtectedDataNotFoundError(operation, address);
+    }
+    return entry;
+  }
+
+  // Deterministic addresses and hashes, so runs are reproducible
+  private nextHex(length: number): string {
+    this.nonce += 1;
+    return `0x${this.nonce.toString(16).padStart(length, '0')}`;
+  }
+}
@@ -0,0 +1,262 @@
+// Typed DataProtector Client
+//
+// Wraps the @iexec/dataprotector core module behind the handful of calls the
+// app makes, with the SDK's own parameter and result types, and turns SDK
+// failures into DataProtectorError subclasses. The core is injected, so
+// InMemoryDataProtector (lib/services/data-protector-memory.ts) can stand in
+// for the network.
+
+import type {
+  GetGrantedAccessParams,
+  GetProtectedDataParams,
+  GetResultFromCompletedTaskParams,
+  GetResultFromCompletedTaskResponse,
+  GrantAccessParams,
+  GrantedAccess,
+  GrantedAccessResponse,
+  IExecDataProtectorCore,
+  ProcessProtectedDataParams,
+  ProcessProtectedDataResponseWithResult,
+  ProtectDataParams,
+  ProtectedData,
+  ProtectedDataWithSecretProps,
+  RevokeAllAccessParams,
+  RevokedAccess,
+  WaitForTaskCompletionParams,
+  WaitForTaskCompletionResponse,
+} from '@iexec/dataprotector';
+import { logger } from '@/lib/logger';
+
+export type {
+  GrantedAccess,
+  GrantedAccessResponse,
+  ProtectedData as ProtectedDataInfo,
+  RevokedAccess,
+};
+
+// The subset of IExecDataProtectorCore the app relies on
+export type DataProtectorCore = Pick<
+  IExecDataProtectorCore,
+  | 'protectData'
+  | 'grantAccess'
+  | 'processProtectedData'
+  | 'getProtectedData'
+  | 'getGrantedAccess'
+  | 'revokeOneAccess'
+  | 'revokeAllAccess'
+  | 'waitForTaskCompletion'
+  | 'getResultFromCompletedTask'
+>;
+
+// EIP-1193 provider as injected by browser wallets
+export interface EthereumProvider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+export type DataProtectorOperation =
+  | 'connect'
+  | 'protectData'
+  | 'grantAccess'
+  | 'processProtectedData'
+  | 'getProtectedData'
+  | 'getGrantedAccess'
+  | 'revokeAccess'
+  | 'watchTask';
+
+/**
+ * Any failure of a DataProtector call
+ * isProtocolError is set when the iExec protocol itself (not the request) failed
+ */
+export class DataProtectorError extends Error {
+  readonly operation: DataProtectorOperation;
+  readonly isProtocolError: boolean;
+
+  constructor(
+    operation: DataProtectorOperation,
+    message: string,
+    options: { cause?: unknown; isProtocolError?: boolean } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'DataProtectorError';
+    this.operation = operation;
+    this.isProtocolError = options.isProtocolError ?? false;
+  }
+}
+
+/**
+ * The wallet or network cannot be used with DataProtector
+ */
+export class DataProtectorConnectionError extends DataProtectorError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super('connect', message, options);
+    this.name = 'DataProtectorConnectionError';
+  }
+}
+
+/**
+ * A protected data address that DataProtector does not know
+ */
+export class ProtectedDataNotFoundError extends DataProtectorError {
+  readonly protectedData: string;
+
+  constructor(operation: DataProtectorOperation, protectedData: string) {
+    super(operation, `Protected data ${protectedData} not found`);
+    this.name = 'ProtectedDataNotFoundError';
+    this.protectedData = protectedData;
+  }
+}
+
+/**
+ * The TEE task ran but produced no usable result
+ */
+export class TaskExecutionError extends DataProtectorError {
+  readonly taskId?: string;
+
+  constructor(
+    message: string,
+    options: { taskId?: string; cause?: unknown; operation?: 'processProtectedData' | 'watchTask' } = {}
+  ) {
+    super(options.operation ?? 'processProtectedData', message, options);
+    this.name = 'TaskExecutionError';
+    this.taskId = options.taskId;
+  }
+}
+
+export type ProcessProtectedDataResult = ProcessProtectedDataResponseWithResult;
+
+// Lets a caller stop waiting on a call; the SDK itself cannot be interrupted
+export interface CallOptions {
+  signal?: AbortSignal;
+}
+
+function isProtocolError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { isProtocolError?: unknown }).isProtocolError === true;
+}
+
+export class DataProtectorClient {
+  constructor(private readonly core: DataProtectorCore) {}
+
+  /**
+   * Connect the SDK to a wallet provider
+   * The SDK is imported on demand because it cannot be loaded during SSR
+   */
+  static async connect(
+    provider: EthereumProvider,
+    options: { allowExperimentalNetworks?: boolean } = {}
+  ): Promise<DataProtectorClient> {
+    try {
+      const { IExecDataProtector } = await import('@iexec/dataprotector');
+      const dataProtector = new IExecDataProtector(provider, {
+        allowExperimentalNetworks: options.allowExperimentalNetworks,
+      });
+      return new DataProtectorClient(dataProtector.core);
+    } catch (error) {
+      throw new DataProtectorConnectionError(
+        `Failed to initialize iExec DataProtector: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+  }
+
+  async protectData(params: ProtectDataParams, options: CallOptions = {}): Promise<ProtectedDataWithSecretProps> {
+    return this.call('protectData', 'Failed to protect data', () => this.core.protectData(params), options);
+  }
+
+  async grantAccess(params: GrantAccessParams, options: CallOptions = {}): Promise<GrantedAccess> {
+    return this.call('grantAccess', 'Failed to grant access', () => this.core.grantAccess(params), options);
+  }
+
+  /**
+   * Run an app on protected data and wait for its result
+   * `path` selects a file in the task's output, e.g. the iApp's result JSON
+   */
+  async processProtectedData(
+    params: Omit<ProcessProtectedDataParams, 'waitForResult'>,
+    options: CallOptions = {}
+  ): Promise<ProcessProtectedDataResult> {
+    const response = await this.call('processProtectedData', 'Failed to process protected data', () =>
+      this.core.processProtectedData({ ...params, waitForResult: true as const }),
+      options
+    );
+    if (!response.result || response.result.byteLength === 0) {
+      throw new TaskExecutionError(`Task ${response.taskId} returned an empty result`, { taskId: response.taskId });
+    }
+    return response;
+  }
+
+  async getProtectedData(params: GetProtectedDataParams = {}): Promise<ProtectedData[]> {
+    return this.call('getProtectedData', 'Failed to fetch protected data', () => this.core.getProtectedData(params));
+  }
+
+  /**
+   * Look up one protected data by address, throwing if it does not exist
+   */
+  async getProtectedDataByAddress(address: string): Promise<ProtectedData> {
+    const [protectedData] = await this.getProtectedData({ protectedDataAddress: address });
+    if (!protectedData) {
+      throw new ProtectedDataNotFoundError('getProtectedData', address);
+    }
+    return protectedData;
+  }
+
+  async getGrantedAccess(params: GetGrantedAccessParams): Promise<GrantedAccessResponse> {
+    return this.call('getGrantedAccess', 'Failed to fetch granted access', () => this.core.getGrantedAccess(params));
+  }
+
+  async revokeOneAccess(access: GrantedAccess): Promise<RevokedAccess> {
+    return this.call('revokeAccess', 'Failed to revoke access', () => this.core.revokeOneAccess(access));
+  }
+
+  async revokeAllAccess(params: RevokeAllAccessParams): Promise<RevokedAccess[]> {
+    return this.call('revokeAccess', 'Failed to revoke access', () => this.core.revokeAllAccess(params));
+  }
+
+  /**
+   * Follow a task created earlier until it completes, fails or times out
+   */
+  async waitForTaskCompletion(
+    params: WaitForTaskCompletionParams,
+    options: CallOptions = {}
+  ): Promise<WaitForTaskCompletionResponse> {
+    return this.call('watchTask', 'Failed to follow the task', () => this.core.waitForTaskCompletion(params), options);
+  }
+
+  async getResultFromCompletedTask(
+    params: GetResultFromCompletedTaskParams,
+    options: CallOptions = {}
+  ): Promise<GetResultFromCompletedTaskResponse> {
+    return this.call('watchTask', 'Failed to fetch the task result', () => this.core.getResultFromCompletedTask(params), options);
+  }
+
+  /**
+   * Run an SDK call, wrapping its errors
+   * An aborted signal rejects with its reason straight away; the SDK call is left to settle on its own
+   */
+  private async call<T>(
+    operation: DataProtectorOperation,
+    message: string,
+    run: () => Promise<T>,
+    { signal }: CallOptions = {}
+  ): Promise<T> {
+    try {
+      signal?.throwIfAborted();
+      if (!signal) return await run();
+
+      return await new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        run().then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+      });
+    } catch (error) {
+      if (error instanceof DataProtectorError || (signal?.aborted && error === signal.reason)) {
+        throw error;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.error(`DataProtector ${operation} failed`, { error: reason, isProtocolError: isProtocolError(error) });
+      throw new DataProtectorError(operation, `${message}: ${reason}`, {
+        cause: error,
+        isProtocolError: isProtocolError(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,233 @@
+// Document OCR
+//
+// Reads a photo or scan of an identity document in the browser. Tesseract runs
+// in its own web worker, so the image never leaves the device; the values it
+// extracts are proposals the holder confirms before they reach the form.
+
+import type { DocumentType, KYCData } from '@/lib/types/kyc';
+import { importMrz } from '@/lib/services/mrz';
+import type { MrzImport } from '@/lib/services/mrz';
+import { validateDocument } from '@/lib/services/document-validation';
+import { hashBytes } from '@/lib/utils/crypto';
+import { logger } from '@/lib/logger';
+
+export type ExtractedFieldName = Exclude<keyof KYCData, 'documentHash'>;
+
+export interface ExtractedField {
+  field: ExtractedFieldName;
+  value: string;
+  // 'mrz' values passed ICAO check digits; 'text' values are best guesses
+  source: 'mrz' | 'text';
+  warning?: string;
+}
+
+export interface DocumentScan {
+  documentHash: string;
+  text: string;
+  confidence: number;
+  mrzFormat: MrzImport['format'] | null;
+  proposals: ExtractedField[];
+}
+
+export interface ScanOptions {
+  // Used to recognise the document number in documents without an MRZ
+  documentType?: DocumentType;
+  nationality?: string;
+  onProgress?: (progress: number) => void;
+}
+
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp'];
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+// Served from public/tesseract (scripts/copy-ocr-assets.mjs), never fetched from a CDN
+const OCR_ASSETS = {
+  workerPath: '/tesseract/worker.min.js',
+  corePath: '/tesseract/core',
+  langPath: '/tesseract/lang',
+};
+
+const MRZ_LINE_LENGTHS = [30, 36, 44];
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * SHA-256 of the image bytes, stored as KYCData.documentHash
+ */
+export async function hashDocumentImage(image: Blob): Promise<string> {
+  return hashBytes(await image.arrayBuffer());
+}
+
+// OCR tends to drop trailing fillers; restore up to two of them
+function toMrzCandidate(line: string): string | null {
+  const compact = line.toUpperCase().replace(/\s+/g, '').replace(/«/g, '<');
+  if (!/^[A-Z0-9<]+$/.test(compact) || !compact.includes('<')) return null;
+
+  const length = MRZ_LINE_LENGTHS.find(target => compact.length <= target && target - compact.length <= 2);
+  return length ? compact.padEnd(length, '<') : null;
+}
+
+/**
+ * Find a machine readable zone in OCR text and import it
+ * Tries every run of 3 (TD1) or 2 (TD2/TD3) consecutive MRZ-like lines
+ */
+export function findMrz(text: string): MrzImport | null {
+  const candidates = text.split(/\r?\n/).map(toMrzCandidate);
+
+  for (const count of [3, 2]) {
+    for (let start = 0; start + count <= candidates.length; start++) {
+      const window = candidates.slice(start, start + count);
+      if (window.some(line => line === null)) continue;
+      try {
+        return importMrz(window.join('\n'));
+      } catch {
+        // Not an MRZ of this shape, keep looking
+      }
+    }
+  }
+  return null;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Every calendar date printed in the text, as YYYY-MM-DD
+ * Understands DD/MM/YYYY (also with . or -), YYYY-MM-DD and DD MMM YYYY
+ */
+export function findDates(text: string): string[] {
+  const dates = new Set<string>();
+  const upper = text.toUpperCase();
+
+  for (const [, day, month, year] of upper.matchAll(/\b(\d{1,2})[./-](\d{1,2})[./-](\d{4})\b/g)) {
+    const date = toIsoDate(Number(year), Number(month), Number(day));
+    if (date) dates.add(date);
+  }
+  for (const [, year, month, day] of upper.matchAll(/\b(\d{4})-(\d{2})-(\d{2})\b/g)) {
+    const date = toIsoDate(Number(year), Number(month), Number(day));
+    if (date) dates.add(date);
+  }
+  for (const [, day, month, year] of upper.matchAll(/\b(\d{1,2})\s+([A-Z]{3})[A-Z]*\s+(\d{4})\b/g)) {
+    const monthIndex = MONTHS.indexOf(month);
+    const date = monthIndex >= 0 ? toIsoDate(Number(year), monthIndex + 1, Number(day)) : null;
+    if (date) dates.add(date);
+  }
+
+  return Array.from(dates).sort();
+}
+
+/**
+ * Best-effort extraction from the visual zone of documents without an MRZ
+ * (driving licences, Aadhaar, PAN). The document number is the first token
+ * the validator registry accepts; the earliest past date is taken as the date
+ * of birth and the latest future date as the expiry date.
+ */
+export function extractTextFields(
+  text: string,
+  options: Pick<ScanOptions, 'documentType' | 'nationality'> = {}
+): ExtractedField[] {
+  const fields: ExtractedField[] = [];
+
+  const { documentType } = options;
+  if (documentType) {
+    const tokens = text.split(/\s+/).filter(Boolean);
+    // Aadhaar numbers are printed in groups of four digits
+    const candidates = tokens.flatMap((token, index) => [
+      token,
+      tokens.slice(index, index + 3).join(' '),
+    ]);
+    const documentNumber = candidates.find(candidate =>
+      /\d/.test(candidate) &&
+      validateDocument({ documentType, documentNumber: candidate, nationality: options.nationality ?? '' }).isValid
+    );
+    if (documentNumber) {
+      fields.push({ field: 'documentNumber', value: documentNumber, source: 'text' });
+    }
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const dates = findDates(text);
+  const past = dates.filter(date => date < today);
+  const future = dates.filter(date => date > today);
+  if (past.length) {
+    fields.push({ field: 'dateOfBirth', value: past[0], source: 'text' });
+  }
+  if (future.length) {
+    fields.push({ field: 'expiryDate', value: future[future.length - 1], source: 'text' });
+  }
+
+  return fields;
+}
+
+function mrzProposals({ fields, errors }: MrzImport): ExtractedField[] {
+  return (Object.entries(fields) as [ExtractedFieldName, string][])
+    .filter(([, value]) => Boolean(value))
+    .map(([field, value]) => ({
+      field,
+      value,
+      source: 'mrz' as const,
+      warning: errors[field] ?? errors.mrz,
+    }));
+}
+
+/**
+ * Hash and OCR a document image, proposing values for the KYC form
+ * The MRZ is preferred when present; the visual text fills the gaps
+ */
+export async function scanDocumentImage(image: File, options: ScanOptions = {}): Promise<DocumentScan> {
+  if (!SUPPORTED_IMAGE_TYPES.includes(image.type)) {
+    throw new Error('Please upload a JPEG, PNG, WebP or BMP image of your document');
+  }
+  if (image.size > MAX_IMAGE_SIZE) {
+    throw new Error('Document image must be smaller than 10 MB');
+  }
+
+  const documentHash = await hashDocumentImage(image);
+
+  // Loaded on demand: the OCR engine and its language data are several MB
+  const { createWorker } = await import('tesseract.js');
+  const worker = await createWorker('eng', undefined, {
+    ...OCR_ASSETS,
+    logger: message => {
+      if (message.status === 'recognizing text') {
+        options.onProgress?.(message.progress);
+      }
+    },
+  });
+
+  let text: string;
+  let confidence: number;
+  try {
+    const { data } = await worker.recognize(image);
+    text = data.text;
+    confidence = data.confidence;
+  } finally {
+    await worker.terminate();
+  }
+
+  const mrz = findMrz(text);
+  const proposals = mrz ? mrzProposals(mrz) : [];
+  for (const field of extractTextFields(text, options)) {
+    if (!proposals.some(proposal => proposal.field === field.field)) {
+      proposals.push(field);
+    }
+  }
+
+  logger.info('Document image scanned', {
+    confidence,
+    mrzFormat: mrz?.format ?? null,
+    fields: proposals.map(proposal => proposal.field),
+  });
+
+  return {
+    documentHash,
+    text,
+    confidence,
+    mrzFormat: mrz?.format ?? null,
+    proposals,
+  };
+}
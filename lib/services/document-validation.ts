@@ -0,0 +1,28 @@
+// Document Number Validation
+//
+// Thin typed wrapper over the TEE app's validator registry
+// (decentralized-iapp/src/documents/validators.js), so the form, the simulator
+// and the enclave apply the same rules.
+
+import type { DocumentValidation, KYCData } from '@/lib/types/kyc';
+import { validateDocumentNumber } from '@/decentralized-iapp/src/documents/validators.js';
+import { findCountry } from '@/lib/utils/countries';
+
+/**
+ * Validate a document number for its type, using the rules of the holder's
+ * nationality where the type has country-specific formats
+ */
+export function validateDocument(
+  kycData: Pick<KYCData, 'documentType' | 'documentNumber' | 'nationality'>,
+  options: { checkDigit?: string } = {}
+): DocumentValidation {
+  const { isValid, rule, errors } = validateDocumentNumber(
+    kycData.documentType,
+    kycData.documentNumber,
+    {
+      issuingCountry: kycData.nationality ? findCountry(kycData.nationality)?.alpha2 : undefined,
+      checkDigit: options.checkDigit,
+    }
+  );
+  return { isValid, rule, errors };
+}
@@ -0,0 +1,94 @@
+// Enclave Signing
+//
+// Builds and checks the attestation KYCVerifier.submitProof recovers its
+// signer from, with the code the TEE app signs with
+// (decentralized-iapp/src/attestation). The simulator signs with a test key, so
+// simulated results have the same shape as the enclave's.
+
+import type { Address, Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { VerificationAttribute, VerificationResult } from '@/lib/types/kyc';
+import {
+  ATTESTATION_VALIDITY_PERIOD,
+  ATTESTED_ATTRIBUTES,
+  attestAttributes,
+  attestationExpiry,
+  hashReportEntry,
+  recoverAttestationSigner,
+  signAttestation,
+} from '@/decentralized-iapp/src/attestation/attestation.js';
+import type { Attestation, SignedAttestation } from '@/decentralized-iapp/src/attestation/attestation.js';
+
+export { ATTESTATION_VALIDITY_PERIOD, attestAttributes, attestationExpiry, hashReportEntry, signAttestation };
+export type { Attestation, SignedAttestation };
+
+// Every attribute KYCVerifier stores, in bit order
+export const VERIFICATION_ATTRIBUTES = ATTESTED_ATTRIBUTES as VerificationAttribute[];
+
+// Signs simulated results and devnet checks; never fund it or make a real deployment trust it.
+// It is keccak256('zkkyc devnet enclave'), so none of the devnet mnemonic's accounts.
+export const TEST_ENCLAVE_PRIVATE_KEY: Hex = '0x3effd79f0a01e82fbe3305b045529bae9fb89f624e0a55939ac9c47b819ba9d3';
+export const TEST_ENCLAVE_ADDRESS: Address = privateKeyToAccount(TEST_ENCLAVE_PRIVATE_KEY).address;
+
+// Hashes and signatures may come as bare hex
+const toHex = (value: string): Hex => (value.startsWith('0x') ? value : `0x${value}`) as Hex;
+
+/**
+ * The attestation bitmask of the attributes that hold
+ */
+export function attributeMaskOf(attributes: VerificationResult['attributes']): number {
+  return VERIFICATION_ATTRIBUTES.reduce((mask, attribute, bit) => (attributes[attribute] ? mask | (1 << bit) : mask), 0);
+}
+
+/**
+ * The expiry of each attribute an attestation vouches for
+ */
+export function attributeExpiriesOf(attestation: Attestation): Partial<Record<VerificationAttribute, number>> {
+  return Object.fromEntries(
+    VERIFICATION_ATTRIBUTES
+      .map((attribute, bit) => [attribute, attestation.attributeExpiries[bit]] as const)
+      .filter((_, bit) => (attestation.attributes & (1 << bit)) !== 0)
+  );
+}
+
+/**
+ * The attestation a result claims, or null if the result is not signed
+ * Its attributes are the ones the result reports as holding
+ */
+export function toAttestation(userAddress: string, result: VerificationResult): Attestation | null {
+  const { enclaveSignature, expiryTimestamp, attributeExpiries, commitment, nullifierHash, nullifierScope } = result;
+  if (
+    !enclaveSignature || expiryTimestamp === undefined || !attributeExpiries ||
+    !commitment || !nullifierHash || nullifierScope === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    user: toHex(userAddress),
+    isValid: result.isValid,
+    proofHash: toHex(result.proofHash),
+    expiryTimestamp,
+    attributes: attributeMaskOf(result.attributes),
+    attributeExpiries: VERIFICATION_ATTRIBUTES.map(attribute =>
+      result.attributes[attribute] ? attributeExpiries[attribute] ?? 0 : 0
+    ),
+    commitment,
+    nullifierHash,
+    nullifierScope,
+  };
+}
+
+/**
+ * The address that signed a result, as KYCVerifier would recover it
+ * Null if the result is not signed or its signature is malformed
+ */
+export async function recoverResultSigner(userAddress: string, result: VerificationResult): Promise<Address | null> {
+  const attestation = toAttestation(userAddress, result);
+  if (!attestation) return null;
+  try {
+    return await recoverAttestationSigner(attestation, toHex(result.enclaveSignature));
+  } catch {
+    return null;
+  }
+}
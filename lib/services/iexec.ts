@@ -4,25 +4,83 @@ import type {
   KYCData, 
   ProtectedData, 
   VerificationResult,
-  NetworkConfig 
+  NetworkConfig,
+  TeeTask,
+  TeeTaskProgress
 } from '@/lib/types/kyc';
 import { 
   ARBITRUM_SEPOLIA_CONFIG, 
   ARBITRUM_MAINNET_CONFIG 
 } from '@/lib/types/kyc';
-import { hashData, createCommitment, isDocumentValid, isAdult } from '@/lib/utils/crypto';
+import { hashBytes, isDocumentValid, isAdult, createCommitment, generateNullifierHash } from '@/lib/utils/crypto';
+import { screenKYCData } from '@/lib/services/sanctions';
+import { validateDocument } from '@/lib/services/document-validation';
+import { buildProtectedKYCRecord, checkProtectedKYCRecord } from '@/lib/services/kyc-record';
+import { DataProtectorClient, DataProtectorConnectionError, TaskExecutionError } from '@/lib/services/data-protector';
+import type { CallOptions, EthereumProvider, GrantedAccess, ProtectedDataInfo, RevokedAccess } from '@/lib/services/data-protector';
+import { toCreatedTask, toTaskProgress } from '@/lib/services/tee-task';
+import type { DataProtectorStatusUpdate } from '@/lib/services/tee-task';
+import {
+  TEST_ENCLAVE_PRIVATE_KEY,
+  attestAttributes,
+  attestationExpiry,
+  attributeExpiriesOf,
+  attributeMaskOf,
+  hashReportEntry,
+  signAttestation,
+} from '@/lib/services/enclave-signer';
+import type { SignedAttestation } from '@/lib/services/enclave-signer';
 import { logger } from '@/lib/logger';
 
 // iExec App address - this should be deployed via iapp deploy
-const IEXEC_KYC_APP_ADDRESS = process.env.NEXT_PUBLIC_IEXEC_APP_ADDRESS || '0x0000000000000000000000000000000000000000';
+export const IEXEC_KYC_APP_ADDRESS = process.env.NEXT_PUBLIC_IEXEC_APP_ADDRESS || '0x0000000000000000000000000000000000000000';
 
-export type IExecDataProtectorInstance = any;
+// File the iApp writes its report to (decentralized-iapp/src/app.js)
+const KYC_RESULT_PATH = 'kyc-verification-result.json';
 
 export interface IExecResult {
   taskId: string;
+  dealId: string;
   result: VerificationResult;
 }
 
+// One protected record's entry in the iApp's report
+interface VerificationReportEntry {
+  userId?: string;
+  commitment?: string;
+  documentHash?: string | null;
+  verificationStatus?: 'VERIFIED' | 'FAILED' | 'ERROR';
+  verificationDetails?: {
+    checks?: Record<string, boolean>;
+    documentValidation?: VerificationResult['documentValidation'];
+    sanctions?: VerificationResult['sanctions'];
+    error?: string;
+  };
+  error?: string;
+  timestamp: string;
+  // The enclave's signature over the result; null when the iApp has no signing key
+  attestation?: SignedAttestation | null;
+}
+
+interface VerificationReport {
+  verificationId: string;
+  verificationResults: VerificationReportEntry[];
+}
+
+export interface VerificationTaskOptions extends CallOptions {
+  // Sub-step progress from DataProtector's status updates
+  onProgress?: (progress: TeeTaskProgress) => void;
+  // Called once the deal is made, with the IDs needed to resume watching the task
+  onTaskCreated?: (task: TeeTask) => void;
+  // KYCVerifier's nullifier scope, which the enclave signs the document's nullifier for; 0 for per-wallet
+  nullifierScope?: bigint;
+}
+
+export interface ProtectedDataAccess {
+  protectedData: ProtectedDataInfo;
+  grantedAccess: GrantedAccess[];
+}
+
 /**
  * Get network configuration based on chain ID
  */
@@ -38,81 +96,41 @@ export function getNetworkConfig(chainId: number): NetworkConfig {
  * Note: This requires the @iexec/dataprotector package
  */
 export async function initializeDataProtector(
-  provider: unknown,
+  provider: EthereumProvider,
   isTestnet: boolean = true
-): Promise<IExecDataProtectorInstance | null> {
+): Promise<DataProtectorClient> {
+  logger.info('Initializing iExec DataProtector', { isTestnet });
+  
+  // Test provider connection
+  let accounts: unknown;
   try {
-    logger.info('Initializing iExec DataProtector', { 
-      isTestnet, 
-      hasProvider: !!provider,
-      providerType: typeof provider
-    });
-    
-    // Check if provider has required methods
-    const providerObj = provider as any;
-    if (providerObj && typeof providerObj.request !== 'function') {
-      throw new Error('Provider does not have request method');
-    }
-    
-    // Test provider connection
-    try {
-      const accounts = await providerObj.request({ method: 'eth_accounts' });
-      logger.info('Provider connection test successful', { accountsCount: accounts?.length || 0 });
-      if (!accounts || accounts.length === 0) {
-        throw new Error('No accounts available - wallet not connected');
-      }
-    } catch (providerError) {
-      logger.error('Provider connection test failed', { error: providerError });
-      throw new Error('Wallet connection is not working properly');
-    }
-    
-    // Dynamic import to handle SSR
-    const { IExecDataProtector } = await import('@iexec/dataprotector');
-    logger.debug('IExecDataProtector imported successfully');
-    
-    const dataProtector = new IExecDataProtector(provider as any, {
-      // Enable experimental networks for Arbitrum support
-      allowExperimentalNetworks: isTestnet,
-    });
-    logger.debug('IExecDataProtector instance created');
-    
-    // Check if the instance has the expected structure
-    if (!dataProtector) {
-      throw new Error('DataProtector instance is null');
-    }
-    if (!dataProtector.core) {
-      throw new Error('DataProtector core is not available');
-    }
-    if (typeof dataProtector.core.protectData !== 'function') {
-      throw new Error('DataProtector protectData method is not available');
-    }
-    
-    logger.info('iExec DataProtector initialized successfully', { 
-      hasCore: !!dataProtector.core,
-      hasSharing: !!dataProtector.sharing,
-      coreMethods: Object.getOwnPropertyNames(dataProtector.core)
-    });
-    
-    return dataProtector;
-  } catch (error) {
-    logger.error('Failed to initialize DataProtector', { 
-      error: error instanceof Error ? error.message : String(error),
-      isTestnet,
-      hasProvider: !!provider,
-      stack: error instanceof Error ? error.stack : undefined
-    });
-    return null;
+    accounts = await provider.request({ method: 'eth_accounts' });
+  } catch (providerError) {
+    logger.error('Provider connection test failed', { error: providerError });
+    throw new DataProtectorConnectionError('Wallet connection is not working properly', { cause: providerError });
+  }
+  if (!Array.isArray(accounts) || accounts.length === 0) {
+    throw new DataProtectorConnectionError('No accounts available - wallet not connected');
   }
+  logger.info('Provider connection test successful', { accountsCount: accounts.length });
+  
+  // Experimental networks include Arbitrum
+  const dataProtector = await DataProtectorClient.connect(provider, { allowExperimentalNetworks: isTestnet });
+  logger.info('iExec DataProtector initialized successfully');
+  return dataProtector;
 }
 
 /**
  * Protect KYC data using iExec DataProtector
- * Data is encrypted and stored securely, only accessible in TEE
+ * The full record (schema in lib/services/kyc-record.ts) is encrypted and
+ * only readable by the TEE app, including the document image when provided
  */
 export async function protectKYCData(
-  dataProtector: IExecDataProtectorInstance,
+  dataProtector: DataProtectorClient,
   kycData: KYCData,
-  userAddress: string
+  userAddress: string,
+  documentImage?: Blob,
+  options: CallOptions = {}
 ): Promise<ProtectedData> {
   try {
     logger.info('Starting KYC data protection', { userAddress, documentType: kycData.documentType });
@@ -123,59 +141,25 @@ export async function protectKYCData(
       throw new Error('Missing required KYC data fields');
     }
 
-    // Generate hashes first (these are async)
-    logger.debug('Generating document hash', { documentNumber: kycData.documentNumber });
-    const documentHash = await hashData(String(kycData.documentNumber));
-    logger.debug('Document hash generated', { documentHash: documentHash.substring(0, 10) + '...' });
-    
-    logger.debug('Generating name hash', { fullName: kycData.fullName });
-    const nameHash = await hashData(String(kycData.fullName).toLowerCase());
-    logger.debug('Name hash generated', { nameHash: nameHash.substring(0, 10) + '...' });
+    const record = await buildProtectedKYCRecord(kycData, userAddress, documentImage);
     
-    // Create a structured data object for protection
-    // iExec supports: strings, numbers, booleans, arrays of these types
-    // Use very simple data to test
-    const dataToProtect = {
-      type: 'kyc',
-      user: userAddress,
-      doc: kycData.documentType,
-    };
-    
-    // Validate that all values are defined and not empty
-    for (const [key, value] of Object.entries(dataToProtect)) {
-      if (value === undefined || value === null || value === '') {
-        throw new Error(`Invalid data for field ${key}: ${value}`);
-      }
-      if (typeof value !== 'string') {
-        throw new Error(`Invalid data type for field ${key}: expected string, got ${typeof value}`);
-      }
-    }
+    // Fail here rather than in the enclave if the record breaks the TEE app's contract
+    await checkProtectedKYCRecord(record);
     
     logger.debug('Calling dataProtector.core.protectData', { 
-      dataKeys: Object.keys(dataToProtect),
-      dataTypes: Object.fromEntries(Object.entries(dataToProtect).map(([k, v]) => [k, typeof v])),
-      dataValues: Object.fromEntries(Object.entries(dataToProtect).map(([k, v]) => [k, String(v).substring(0, 20) + '...']))
+      schemaVersion: record.schemaVersion,
+      hasImage: record.document.image !== undefined,
+      imageBytes: record.document.image?.byteLength ?? 0,
     });
     
-    // Final validation - ensure no undefined values in JSON
-    const jsonData = JSON.stringify(dataToProtect);
-    if (jsonData.includes('undefined')) {
-      throw new Error('JSON contains undefined values');
-    }
-    logger.debug('Data to protect JSON', { jsonData, length: jsonData.length });
-    
-    // Parse back to ensure it's valid JSON
-    const validatedData = JSON.parse(jsonData);
-    logger.debug('Validated data for iExec', { validatedData });
-    
-    const result = await dataProtector.core.protectData({
-      data: validatedData,
+    const result = await dataProtector.protectData({
+      data: record,
       name: `KYC Data for ${userAddress.slice(0, 6)}...${userAddress.slice(-4)}`
-    });
+    }, options);
     
     const protectedData = {
       address: result.address,
-      dataHash: await createCommitment(kycData),
+      dataHash: record.commitment,
       timestamp: Date.now(),
     };
     
@@ -186,7 +170,6 @@ export async function protectKYCData(
       error: error instanceof Error ? error.message : String(error),
       userAddress,
       documentType: kycData.documentType,
-      kycData: JSON.stringify(kycData, null, 2)
     });
     throw error;
   }
@@ -196,78 +179,236 @@ export async function protectKYCData(
  * Grant access to the KYC verification app to process protected data
  */
 export async function grantVerificationAccess(
-  dataProtector: IExecDataProtectorInstance,
+  dataProtector: DataProtectorClient,
+  protectedDataAddress: string,
+  userAddress: string,
+  options: CallOptions = {}
+): Promise<GrantedAccess> {
+  const access = await dataProtector.grantAccess({
+    protectedData: protectedDataAddress,
+    authorizedApp: IEXEC_KYC_APP_ADDRESS,
+    authorizedUser: userAddress,
+  }, options);
+  
+  logger.info('Access granted for KYC verification', { protectedData: protectedDataAddress, app: IEXEC_KYC_APP_ADDRESS, user: userAddress });
+  return access;
+}
+
+/**
+ * Revoke what grantVerificationAccess granted, e.g. when the run it was made for is abandoned
+ */
+export async function revokeVerificationAccess(
+  dataProtector: DataProtectorClient,
   protectedDataAddress: string,
   userAddress: string
-): Promise<boolean> {
-  try {
-    const networkConfig = ARBITRUM_SEPOLIA_CONFIG;
-    
-    await dataProtector.core.grantAccess({
-      protectedData: protectedDataAddress,
-      authorizedApp: IEXEC_KYC_APP_ADDRESS,
-      authorizedUser: userAddress,
+): Promise<RevokedAccess[]> {
+  const revoked = await dataProtector.revokeAllAccess({
+    protectedData: protectedDataAddress,
+    authorizedApp: IEXEC_KYC_APP_ADDRESS,
+    authorizedUser: userAddress,
+  });
+  
+  logger.info('Verification access revoked', { protectedData: protectedDataAddress, count: revoked.length });
+  return revoked;
+}
+
+/**
+ * List the protected data a wallet owns, newest first, with every access granted on it
+ */
+export async function listProtectedDataAccess(
+  dataProtector: DataProtectorClient,
+  owner: string
+): Promise<ProtectedDataAccess[]> {
+  const datasets = await dataProtector.getProtectedData({ owner });
+  const withAccess = await Promise.all(datasets.map(async protectedData => {
+    const { grantedAccess } = await dataProtector.getGrantedAccess({
+      protectedData: protectedData.address,
+      pageSize: 100,
     });
-    
-    logger.info('Access granted for KYC verification', { protectedData: protectedDataAddress, app: IEXEC_KYC_APP_ADDRESS, user: userAddress });
-    return true;
-  } catch (error) {
-    logger.error('Failed to grant access', { 
-      error: error instanceof Error ? error.message : String(error),
-      protectedData: protectedDataAddress,
-      app: IEXEC_KYC_APP_ADDRESS,
-      user: userAddress
+    return { protectedData, grantedAccess };
+  }));
+  return withAccess.sort((a, b) => b.protectedData.creationTimestamp - a.protectedData.creationTimestamp);
+}
+
+/**
+ * Revoke a single granted access
+ */
+export async function revokeDataAccess(
+  dataProtector: DataProtectorClient,
+  access: GrantedAccess
+): Promise<RevokedAccess> {
+  const revoked = await dataProtector.revokeOneAccess(access);
+  logger.info('Access revoked', { protectedData: access.dataset, app: access.apprestrict, user: access.requesterrestrict, txHash: revoked.txHash });
+  return revoked;
+}
+
+/**
+ * Revoke every access granted on a protected data, leaving it unreadable by any app
+ */
+export async function revokeAllDataAccess(
+  dataProtector: DataProtectorClient,
+  protectedDataAddress: string
+): Promise<RevokedAccess[]> {
+  const revoked = await dataProtector.revokeAllAccess({ protectedData: protectedDataAddress });
+  logger.info('All access revoked', { protectedData: protectedDataAddress, count: revoked.length });
+  return revoked;
+}
+
+/**
+ * Map the iApp's report for a single protected record onto a VerificationResult
+ */
+function toVerificationResult(report: VerificationReport, proofHash: string, taskId: string): VerificationResult {
+  const [entry] = report.verificationResults ?? [];
+  const error = entry?.error ?? entry?.verificationDetails?.error;
+  if (!entry || error || !entry.verificationDetails?.checks) {
+    throw new TaskExecutionError(error ?? 'The verification report has no result', { taskId });
+  }
+  
+  const { checks, documentValidation, sanctions } = entry.verificationDetails;
+  const isValid = entry.verificationStatus === 'VERIFIED';
+  const attributes = {
+    isAdult: checks.isAdult === true,
+    isNotExpired: checks.notExpired === true,
+    isNotSanctioned: checks.notSanctioned === true,
+  };
+  const { attestation } = entry;
+  if (attestation) {
+    // The signature must vouch for this entry, or it could be lifted from another report
+    const entryHash = hashReportEntry({
+      userId: entry.userId ?? '',
+      commitment: entry.commitment ?? '',
+      documentHash: entry.documentHash ?? null,
+      verificationStatus: entry.verificationStatus ?? '',
+      timestamp: entry.timestamp,
     });
-    return false;
+    if (
+      attestation.proofHash !== entryHash ||
+      attestation.isValid !== isValid ||
+      attestation.attributes !== attributeMaskOf(attributes) ||
+      attestation.commitment !== entry.commitment
+    ) {
+      throw new TaskExecutionError('The verification report does not match its enclave signature', { taskId });
+    }
   }
+
+  return {
+    isValid,
+    timestamp: Date.parse(entry.timestamp),
+    proofHash: attestation?.proofHash ?? proofHash,
+    enclaveSignature: attestation?.signature ?? '',
+    expiryTimestamp: attestation?.expiryTimestamp,
+    attributes,
+    attributeExpiries: attestation ? attributeExpiriesOf(attestation) : undefined,
+    commitment: attestation?.commitment,
+    nullifierHash: attestation?.nullifierHash,
+    nullifierScope: attestation?.nullifierScope,
+    documentValidation,
+    sanctions: sanctions ?? undefined,
+  };
+}
+
+/**
+ * Decode the iApp's result file and map it onto a VerificationResult
+ */
+async function readVerificationReport(result: ArrayBuffer, taskId: string): Promise<VerificationResult> {
+  let report: VerificationReport;
+  try {
+    report = JSON.parse(new TextDecoder().decode(result));
+  } catch (error) {
+    throw new TaskExecutionError(`Task ${taskId} returned an unreadable report`, { taskId, cause: error });
+  }
+  
+  const proofHash = await hashBytes(result);
+  return toVerificationResult(report, proofHash, taskId);
 }
 
 /**
  * Execute the KYC verification task in TEE
  */
 export async function executeVerificationTask(
-  dataProtector: IExecDataProtectorInstance,
+  dataProtector: DataProtectorClient,
   protectedDataAddress: string,
-  isTestnet: boolean = true
+  isTestnet: boolean = true,
+  options: VerificationTaskOptions = {}
 ): Promise<IExecResult> {
   const networkConfig = isTestnet ? ARBITRUM_SEPOLIA_CONFIG : ARBITRUM_MAINNET_CONFIG;
   
-  try {
-    logger.info('Starting TEE verification task', { 
-      protectedData: protectedDataAddress,
-      app: IEXEC_KYC_APP_ADDRESS,
-      workerpool: networkConfig.workerpoolAddress,
-      isTestnet
-    });
-    
-    const taskResult = await dataProtector.core.processProtectedData({
-      protectedData: protectedDataAddress,
-      app: IEXEC_KYC_APP_ADDRESS,
-      workerpool: networkConfig.workerpoolAddress,
-    });
-    
-    // Parse the result from the TEE computation
-    const verificationResult: VerificationResult = JSON.parse(taskResult.result);
-    
-    logger.info('TEE verification completed', { 
-      taskId: protectedDataAddress,
-      isValid: verificationResult.isValid,
-      result: verificationResult
-    });
-    
-    return {
-      taskId: protectedDataAddress,
-      result: verificationResult,
-    };
-  } catch (error) {
-    logger.error('TEE verification failed', { 
-      error: error instanceof Error ? error.message : String(error),
-      protectedData: protectedDataAddress,
-      app: IEXEC_KYC_APP_ADDRESS,
-      workerpool: networkConfig.workerpoolAddress
-    });
-    throw error;
+  logger.info('Starting TEE verification task', { 
+    protectedData: protectedDataAddress,
+    app: IEXEC_KYC_APP_ADDRESS,
+    workerpool: networkConfig.workerpoolAddress,
+    isTestnet
+  });
+  
+  const { taskId, dealId, result } = await dataProtector.processProtectedData({
+    protectedData: protectedDataAddress,
+    app: IEXEC_KYC_APP_ADDRESS,
+    workerpool: networkConfig.workerpoolAddress,
+    path: KYC_RESULT_PATH,
+    args: (options.nullifierScope ?? BigInt(0)).toString(),
+    onStatusUpdate: (update: DataProtectorStatusUpdate) => {
+      const task = toCreatedTask(update, protectedDataAddress);
+      // The SDK keeps going after a cancellation; a deal it makes then still runs, unwatched
+      if (options.signal?.aborted) {
+        if (task) logger.warn('TEE task created after cancellation', { dealId: task.dealId, taskId: task.taskId });
+        return;
+      }
+      if (task) {
+        logger.info('TEE task created', { dealId: task.dealId, taskId: task.taskId });
+        options.onTaskCreated?.(task);
+      }
+      const progress = toTaskProgress(update);
+      if (progress) options.onProgress?.(progress);
+    },
+  }, { signal: options.signal });
+  
+  const verificationResult = await readVerificationReport(result, taskId);
+  
+  logger.info('TEE verification completed', { taskId, dealId, isValid: verificationResult.isValid });
+  
+  return {
+    taskId,
+    dealId,
+    result: verificationResult,
+  };
+}
+
+/**
+ * Watch a task started earlier, e.g. before a page reload, and read its result
+ */
+export async function resumeVerificationTask(
+  dataProtector: DataProtectorClient,
+  task: TeeTask,
+  options: Pick<VerificationTaskOptions, 'onProgress' | 'signal'> = {}
+): Promise<IExecResult> {
+  const { taskId, dealId } = task;
+  const onStatusUpdate = (update: DataProtectorStatusUpdate) => {
+    if (options.signal?.aborted) return;
+    const progress = toTaskProgress(update);
+    if (progress) options.onProgress?.(progress);
+  };
+  
+  logger.info('Resuming TEE verification task', { taskId, dealId });
+  options.onProgress?.({ stage: 'matching', isDone: true });
+  
+  const { status, success } = await dataProtector.waitForTaskCompletion({ taskId, dealId, onStatusUpdate }, { signal: options.signal });
+  if (!success) {
+    throw new TaskExecutionError(`Task ${taskId} ended with status ${status}`, { taskId, operation: 'watchTask' });
   }
+  
+  const { result } = await dataProtector.getResultFromCompletedTask(
+    { taskId, path: KYC_RESULT_PATH, onStatusUpdate },
+    { signal: options.signal }
+  );
+  const verificationResult = await readVerificationReport(result, taskId);
+  
+  logger.info('TEE verification completed', { taskId, dealId, isValid: verificationResult.isValid });
+  
+  return {
+    taskId,
+    dealId,
+    result: verificationResult,
+  };
 }
 
 /**
@@ -276,33 +417,61 @@ export async function executeVerificationTask(
  */
 export async function simulateVerification(
   kycData: KYCData,
-  userAddress: string
+  userAddress: string,
+  nullifierScope: bigint = BigInt(0)
 ): Promise<VerificationResult> {
   // Simulate processing delay
   await new Promise(resolve => setTimeout(resolve, 2000));
   
   const isValidDocument = isDocumentValid(kycData.expiryDate);
+  const documentValidation = validateDocument(kycData);
   const isUserAdult = isAdult(kycData.dateOfBirth);
-  const isNotSanctioned = true; // Would check sanctions list in production
-  
-  const isValid = isValidDocument && isUserAdult && isNotSanctioned;
+  const sanctions = screenKYCData(kycData);
+  const isNotSanctioned = !sanctions.isMatch;
+  if (sanctions.isMatch) {
+    logger.warn('Sanctions screening found potential matches', {
+      matches: sanctions.matches.map(match => ({ source: match.source, entryId: match.entryId, score: match.score })),
+    });
+  }
   
-  const proofData = `${userAddress}:${kycData.documentType}:${isValid}:${Date.now()}`;
-  const proofHash = await hashData(proofData);
+  const isValid = isValidDocument && documentValidation.isValid && isUserAdult && isNotSanctioned;
   
-  // Simulated enclave signature
-  const enclaveSignature = await hashData(`${proofHash}:enclave:signature`);
+  // Signed like the enclave signs, with the test key in place of the enclave's
+  const timestamp = new Date();
+  const attributes = { isAdult: isUserAdult, isNotExpired: isValidDocument, isNotSanctioned };
+  const expiryTimestamp = attestationExpiry(kycData.expiryDate, Math.floor(timestamp.getTime() / 1000));
+  const commitment = await createCommitment(kycData);
+  const nullifierHash = await generateNullifierHash(kycData, userAddress, nullifierScope);
+  const attestation = await signAttestation({
+    user: userAddress as `0x${string}`,
+    isValid,
+    proofHash: hashReportEntry({
+      userId: userAddress,
+      commitment,
+      documentHash: null,
+      verificationStatus: isValid ? 'VERIFIED' : 'FAILED',
+      timestamp: timestamp.toISOString(),
+    }),
+    expiryTimestamp,
+    ...attestAttributes(attributes, { expiryTimestamp, documentExpiryDate: kycData.expiryDate }),
+    commitment,
+    nullifierHash,
+    nullifierScope: nullifierScope.toString(),
+  }, TEST_ENCLAVE_PRIVATE_KEY);
   
   return {
     isValid,
-    timestamp: Date.now(),
-    proofHash,
-    enclaveSignature,
-    attributes: {
-      isAdult: isUserAdult,
-      isNotExpired: isValidDocument,
-      isNotSanctioned,
-    },
+    timestamp: timestamp.getTime(),
+    proofHash: attestation.proofHash,
+    enclaveSignature: attestation.signature,
+    expiryTimestamp: attestation.expiryTimestamp,
+    attributes,
+    attributeExpiries: attributeExpiriesOf(attestation),
+    commitment,
+    nullifierHash,
+    nullifierScope: nullifierScope.toString(),
+    documentValidation,
+    sanctions,
   };
 }
 
@@ -0,0 +1,102 @@
+// Protected KYC Record
+//
+// Maps KYCData onto the DataProtector layout the TEE app reads
+// (decentralized-iapp/src/protected-data/kyc-record.js).
+
+import type { KYCData } from '@/lib/types/kyc';
+import {
+  KYC_RECORD_KIND,
+  KYC_RECORD_SCHEMA_VERSION,
+  readKYCRecord,
+} from '@/decentralized-iapp/src/protected-data/kyc-record.js';
+import type { KYCRecord } from '@/decentralized-iapp/src/protected-data/kyc-record.js';
+import { findCountry } from '@/lib/utils/countries';
+import { createCommitment, hashBytes } from '@/lib/utils/crypto';
+
+export { KYC_RECORD_SCHEMA_VERSION };
+export type { KYCRecord };
+
+// Values DataProtector can serialize; optional fields are left out, never undefined
+export type ProtectedKYCRecord = {
+  kind: string;
+  schemaVersion: number;
+  owner: string;
+  commitment: string;
+  document: {
+    type: string;
+    number: string;
+    issuingCountry: string;
+    expiryDate: string;
+    imageHash?: string;
+    image?: Uint8Array;
+  };
+  holder: {
+    fullName: string;
+    dateOfBirth: string;
+    nationality: string;
+  };
+};
+
+/**
+ * Build the record to protect from the form data and the optional document image
+ * The image must be the one whose hash the form attached as documentHash
+ */
+export async function buildProtectedKYCRecord(
+  kycData: KYCData,
+  userAddress: string,
+  documentImage?: Blob
+): Promise<ProtectedKYCRecord> {
+  const country = findCountry(kycData.nationality);
+  if (!country) {
+    throw new Error(`Unknown nationality: ${kycData.nationality}`);
+  }
+
+  const record: ProtectedKYCRecord = {
+    kind: KYC_RECORD_KIND,
+    schemaVersion: KYC_RECORD_SCHEMA_VERSION,
+    owner: userAddress,
+    commitment: await createCommitment(kycData),
+    document: {
+      type: kycData.documentType,
+      number: kycData.documentNumber,
+      // The form has no separate issuing country; national documents are issued by the holder's country
+      issuingCountry: country.alpha2,
+      expiryDate: kycData.expiryDate,
+    },
+    holder: {
+      fullName: kycData.fullName,
+      dateOfBirth: kycData.dateOfBirth,
+      nationality: country.alpha2,
+    },
+  };
+
+  if (documentImage) {
+    const bytes = await documentImage.arrayBuffer();
+    const imageHash = await hashBytes(bytes);
+    if (kycData.documentHash && kycData.documentHash !== imageHash) {
+      throw new Error('Document image does not match the attached document hash');
+    }
+    record.document.imageHash = imageHash;
+    record.document.image = new Uint8Array(bytes);
+  } else if (kycData.documentHash) {
+    record.document.imageHash = kycData.documentHash;
+  }
+
+  return record;
+}
+
+/**
+ * Read a record back through the TEE app's reader, the way the enclave will
+ * Throws if the record breaks the contract
+ */
+export async function checkProtectedKYCRecord(record: ProtectedKYCRecord): Promise<KYCRecord> {
+  return readKYCRecord(async (path: string) => {
+    const value = path
+      .split('.')
+      .reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], record);
+    if (value === undefined) {
+      throw new Error(`No value at ${path}`);
+    }
+    return value instanceof Uint8Array ? value.buffer : value;
+  });
+}
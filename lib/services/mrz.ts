@@ -0,0 +1,86 @@
+// MRZ Import
+//
+// Turns a machine readable zone (pasted or OCR'd) into KYC form fields using
+// the ICAO 9303 parser shared with the TEE app (decentralized-iapp/src/documents/mrz.js).
+
+import type { DocumentType, KYCData } from '@/lib/types/kyc';
+import { parseMrz } from '@/decentralized-iapp/src/documents/mrz.js';
+import { findCountry } from '@/lib/utils/countries';
+
+export type MrzFieldErrors = Partial<Record<keyof KYCData | 'mrz', string>>;
+
+export interface MrzImport {
+  format: 'TD1' | 'TD2' | 'TD3';
+  fields: Partial<KYCData>;
+  // Check digit or mapping problems, keyed by the form field they affect
+  errors: MrzFieldErrors;
+}
+
+// MRZ codes that are not ISO 3166-1 alpha-3 (ICAO 9303 part 3)
+const MRZ_NATIONALITY_ALIASES: Record<string, string> = {
+  D: 'DEU',
+  GBD: 'GBR',
+  GBN: 'GBR',
+  GBO: 'GBR',
+  GBP: 'GBR',
+  GBS: 'GBR',
+};
+
+/**
+ * Map an MRZ nationality code onto the form's nationality options
+ */
+export function mrzNationalityToCountryName(code: string): string | undefined {
+  return findCountry(MRZ_NATIONALITY_ALIASES[code] ?? code)?.name;
+}
+
+function mrzDocumentType(documentCode: string): DocumentType | undefined {
+  if (documentCode.startsWith('P')) return 'passport';
+  if (/^[IAC]/.test(documentCode)) return 'national_id';
+  return undefined;
+}
+
+function toDisplayName(surname: string, givenNames: string): string {
+  return [givenNames, surname]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+    .replace(/(^|[\s-])\p{L}/gu, match => match.toUpperCase());
+}
+
+/**
+ * Parse MRZ text into KYC fields
+ * Fields whose check digit fails are still returned, flagged in errors
+ */
+export function importMrz(text: string): MrzImport {
+  const parsed = parseMrz(text);
+  const errors: MrzFieldErrors = {};
+  const fields: Partial<KYCData> = {
+    documentNumber: parsed.documentNumber,
+    fullName: toDisplayName(parsed.surname, parsed.givenNames),
+  };
+
+  const documentType = mrzDocumentType(parsed.documentCode);
+  if (documentType) {
+    fields.documentType = documentType;
+  }
+  if (parsed.dateOfBirth) {
+    fields.dateOfBirth = parsed.dateOfBirth;
+  }
+  if (parsed.expiryDate) {
+    fields.expiryDate = parsed.expiryDate;
+  }
+
+  const nationality = mrzNationalityToCountryName(parsed.nationality);
+  if (nationality) {
+    fields.nationality = nationality;
+  } else {
+    errors.nationality = `Unknown nationality code ${parsed.nationality}; please select it`;
+  }
+
+  if (parsed.errors.documentNumber) errors.documentNumber = parsed.errors.documentNumber;
+  if (parsed.errors.dateOfBirth) errors.dateOfBirth = parsed.errors.dateOfBirth;
+  if (parsed.errors.expiryDate) errors.expiryDate = parsed.errors.expiryDate;
+  if (parsed.errors.composite) errors.mrz = parsed.errors.composite;
+
+  return { format: parsed.format, fields, errors };
+}
@@ -0,0 +1,191 @@
+// Step Pipeline
+//
+// Runs a list of named steps over a shared context. Each step reads the
+// context and returns the fields it adds, and may be skipped, retried, timed
+// out or cancelled through an AbortSignal. When a step fails, the steps that
+// completed before it are compensated in reverse order (e.g. a grant is
+// revoked). Nothing here depends on React, so pipelines run headlessly too.
+
+import { logger } from '@/lib/logger';
+
+export interface PipelineStep<Context, Name extends string = string> {
+  name: Name;
+  // Returns the fields this step adds to the context
+  run(context: Readonly<Context>, signal: AbortSignal): Promise<Partial<Context> | void>;
+  // Skipped steps are not run, retried or compensated
+  skip?(context: Readonly<Context>): boolean;
+  // Extra attempts after the first, for errors retryIf accepts (default: any)
+  retries?: number;
+  retryDelayMs?: number;
+  retryIf?(error: unknown): boolean;
+  // Per attempt; the attempt's signal is aborted when it runs out
+  timeoutMs?: number;
+  // Undo the step after a later one failed; receives the pipeline error
+  compensate?(context: Readonly<Context>, error: PipelineError): Promise<void>;
+}
+
+export interface PipelineOptions<Context, Name extends string> {
+  signal?: AbortSignal;
+  onStepStart?(name: Name, context: Readonly<Context>): void;
+  onStepComplete?(name: Name, output: Partial<Context>, context: Readonly<Context>): void;
+  onStepRetry?(name: Name, attempt: number, error: unknown): void;
+}
+
+/**
+ * A pipeline that did not finish, with the step it stopped at
+ * The message is the cause's, so it can be shown as is
+ */
+export class PipelineError extends Error {
+  readonly step: string;
+
+  constructor(step: string, message: string, options: { cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'PipelineError';
+    this.step = step;
+  }
+}
+
+/**
+ * A step failed after its retries
+ */
+export class PipelineStepError extends PipelineError {
+  constructor(step: string, cause: unknown) {
+    super(step, cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = 'PipelineStepError';
+  }
+}
+
+/**
+ * The pipeline's signal was aborted
+ */
+export class PipelineAbortedError extends PipelineError {
+  constructor(step: string, reason?: unknown) {
+    super(step, 'Verification was cancelled', { cause: reason });
+    this.name = 'PipelineAbortedError';
+  }
+}
+
+/**
+ * A step attempt ran longer than its timeoutMs
+ */
+export class StepTimeoutError extends Error {
+  constructor(step: string, timeoutMs: number) {
+    super(`${step} did not finish within ${Math.ceil(timeoutMs / 1000)} seconds`);
+    this.name = 'StepTimeoutError';
+  }
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * One attempt of a step, settled by whichever comes first: the step, its timeout or the pipeline's abort
+ */
+function attempt<Context>(
+  step: PipelineStep<Context>,
+  context: Readonly<Context>,
+  signal: AbortSignal
+): Promise<Partial<Context> | void> {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal.reason);
+  signal.addEventListener('abort', forwardAbort, { once: true });
+
+  return new Promise<Partial<Context> | void>((resolve, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    const timer = step.timeoutMs === undefined
+      ? undefined
+      : setTimeout(() => controller.abort(new StepTimeoutError(step.name, step.timeoutMs!)), step.timeoutMs);
+
+    step.run(context, controller.signal).then(resolve, reject).finally(() => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', forwardAbort);
+    });
+  });
+}
+
+async function compensate<Context>(
+  completed: PipelineStep<Context>[],
+  context: Readonly<Context>,
+  error: PipelineError
+): Promise<void> {
+  for (const step of [...completed].reverse()) {
+    if (!step.compensate) continue;
+    try {
+      await step.compensate(context, error);
+    } catch (compensationError) {
+      logger.warn('Pipeline compensation failed', {
+        step: step.name,
+        error: compensationError instanceof Error ? compensationError.message : String(compensationError),
+      });
+    }
+  }
+}
+
+/**
+ * Run the steps in order and return the final context
+ * Throws PipelineStepError or PipelineAbortedError after compensating the completed steps
+ */
+export async function runPipeline<Context, Name extends string>(
+  steps: readonly PipelineStep<Context, Name>[],
+  initial: Context,
+  options: PipelineOptions<Context, Name> = {}
+): Promise<Context> {
+  const signal = options.signal ?? new AbortController().signal;
+  const completed: PipelineStep<Context, Name>[] = [];
+  let context = initial;
+
+  for (const step of steps) {
+    if (step.skip?.(context)) continue;
+
+    try {
+      if (signal.aborted) throw signal.reason;
+      options.onStepStart?.(step.name, context);
+
+      const retries = step.retries ?? 0;
+      let output: Partial<Context> | void;
+      for (let attemptNumber = 0; ; attemptNumber++) {
+        try {
+          output = await attempt(step, context, signal);
+          break;
+        } catch (error) {
+          const canRetry = attemptNumber < retries && !signal.aborted && (step.retryIf?.(error) ?? true);
+          if (!canRetry) throw error;
+          options.onStepRetry?.(step.name, attemptNumber + 1, error);
+          logger.warn('Pipeline step failed, retrying', {
+            step: step.name,
+            attempt: attemptNumber + 1,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          await delay(step.retryDelayMs ?? 1000, signal);
+        }
+      }
+
+      context = { ...context, ...(output ?? {}) };
+      completed.push(step);
+      options.onStepComplete?.(step.name, output ?? {}, context);
+    } catch (error) {
+      const pipelineError = signal.aborted
+        ? new PipelineAbortedError(step.name, signal.reason)
+        : new PipelineStepError(step.name, error);
+      await compensate(completed, context, pipelineError);
+      throw pipelineError;
+    }
+  }
+
+  return context;
+}
@@ -0,0 +1,333 @@
+// Proof Requests from Relying dApps
+//
+// A relying dApp describes what it needs (attributes, minimum age, allowed and
+// denied nationalities, freshness) plus a challenge nonce, signs it with EIP-712 and
+// hands it to the KYC app via the `proofRequest` URL parameter or postMessage.
+
+import { z } from 'zod';
+import { isAddressEqual, recoverTypedDataAddress } from 'viem';
+import type { ProofRequest, SignedProofRequest, ZKProof } from '@/lib/types/kyc';
+import type {
+  DisclosureRequest,
+  DisclosurePredicate,
+  SelectiveDisclosureVerificationResult,
+} from '@/lib/services/zkproof';
+import {
+  MAX_DISCLOSURE_PREDICATES,
+  Predicates,
+  getProofCommitment,
+  verifySelectiveDisclosureProof,
+} from '@/lib/services/zkproof';
+import type { ContractCallOptions, ContractPublicClient } from '@/lib/services/contract';
+import { checkVerifiedFor, getCommitmentAttestation, getIssuer } from '@/lib/services/contract';
+import type { NationalityListSpec } from '@/lib/utils/nationality-set';
+import { buildNationalitySet } from '@/lib/utils/nationality-set';
+
+// URL parameter carrying a base64url-encoded SignedProofRequest
+export const PROOF_REQUEST_PARAM = 'proofRequest';
+
+// postMessage types exchanged with the relying dApp
+export const PROOF_REQUEST_MESSAGE = 'zkkyc:proof-request';
+export const PROOF_RESPONSE_MESSAGE = 'zkkyc:proof-response';
+
+// isAdult always means at least this old, whatever minimumAge the request gives
+export const ADULT_AGE = 18;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export const PROOF_REQUEST_DOMAIN = {
+  name: 'zkKYC Proof Request',
+  version: '1',
+} as const;
+
+export const PROOF_REQUEST_TYPES = {
+  ProofRequest: [
+    { name: 'verifier', type: 'address' },
+    { name: 'verifierName', type: 'string' },
+    { name: 'origin', type: 'string' },
+    { name: 'requiredAttributes', type: 'string[]' },
+    { name: 'minimumAge', type: 'uint8' },
+    { name: 'allowedNationalities', type: 'string[]' },
+    { name: 'deniedNationalities', type: 'string[]' },
+    { name: 'freshness', type: 'uint32' },
+    { name: 'challenge', type: 'bytes32' },
+    { name: 'issuedAt', type: 'uint64' },
+    { name: 'expiresAt', type: 'uint64' },
+  ],
+} as const;
+
+export interface ProofRequestValidation {
+  isValid: boolean;
+  errors: string[];
+}
+
+export interface ProofResponse {
+  type: typeof PROOF_RESPONSE_MESSAGE;
+  challenge: string;
+  userAddress: string;
+  proof: ZKProof;
+}
+
+const proofRequestSchema = z.object({
+  version: z.literal(1),
+  verifier: z.object({
+    address: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+    name: z.string().min(1).max(100),
+    origin: z.string().url(),
+  }),
+  requiredAttributes: z.array(z.enum(['isAdult', 'isNotExpired', 'isNotSanctioned'])),
+  minimumAge: z.number().int().min(0).max(150),
+  allowedNationalities: z.array(z.string().min(1)),
+  deniedNationalities: z.array(z.string().min(1)).default([]),
+  freshness: z.number().int().positive(),
+  challenge: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
+  issuedAt: z.number().int().nonnegative(),
+  expiresAt: z.number().int().positive(),
+});
+
+const signedProofRequestSchema = z.object({
+  request: proofRequestSchema,
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/),
+});
+
+/**
+ * EIP-712 payload the relying dApp signs (e.g. with eth_signTypedData_v4)
+ */
+export function getProofRequestTypedData(request: ProofRequest) {
+  return {
+    domain: PROOF_REQUEST_DOMAIN,
+    types: PROOF_REQUEST_TYPES,
+    primaryType: 'ProofRequest' as const,
+    message: {
+      verifier: request.verifier.address as `0x${string}`,
+      verifierName: request.verifier.name,
+      origin: request.verifier.origin,
+      requiredAttributes: request.requiredAttributes,
+      minimumAge: request.minimumAge,
+      allowedNationalities: request.allowedNationalities,
+      deniedNationalities: request.deniedNationalities,
+      freshness: request.freshness,
+      challenge: request.challenge as `0x${string}`,
+      issuedAt: BigInt(request.issuedAt),
+      expiresAt: BigInt(request.expiresAt),
+    },
+  };
+}
+
+function toBase64Url(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Encode a signed request for the `proofRequest` URL parameter
+ */
+export function encodeProofRequest(signed: SignedProofRequest): string {
+  return toBase64Url(JSON.stringify(signed));
+}
+
+/**
+ * Parse a signed request from a URL parameter value or a postMessage payload
+ * Only checks the shape; call verifyProofRequest before trusting it
+ */
+export function parseProofRequest(input: string | unknown): SignedProofRequest {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(fromBase64Url(input));
+    } catch {
+      throw new Error('Proof request is not valid base64url-encoded JSON');
+    }
+  }
+
+  const parsed = signedProofRequestSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid proof request: ${issue.path.join('.') || 'request'} ${issue.message}`);
+  }
+  return parsed.data as SignedProofRequest;
+}
+
+/**
+ * Read a signed request from the page URL, if one was passed
+ */
+export function readProofRequestFromUrl(search: string): SignedProofRequest | null {
+  const value = new URLSearchParams(search).get(PROOF_REQUEST_PARAM);
+  return value ? parseProofRequest(value) : null;
+}
+
+/**
+ * Check the signature, validity window and that the circuits can express it
+ */
+export async function verifyProofRequest(
+  signed: SignedProofRequest,
+  now: number = Date.now()
+): Promise<ProofRequestValidation> {
+  const { request, signature } = signed;
+  const errors: string[] = [];
+  const nowSeconds = Math.floor(now / 1000);
+
+  try {
+    const signer = await recoverTypedDataAddress({
+      ...getProofRequestTypedData(request),
+      signature: signature as `0x${string}`,
+    });
+    if (!isAddressEqual(signer, request.verifier.address as `0x${string}`)) {
+      errors.push('Signature was not produced by the requesting verifier');
+    }
+  } catch {
+    errors.push('Signature is malformed');
+  }
+
+  if (request.issuedAt > nowSeconds + 60) {
+    errors.push('Request is issued in the future');
+  }
+  if (request.expiresAt <= nowSeconds) {
+    errors.push('Request has expired');
+  }
+  if (request.expiresAt <= request.issuedAt) {
+    errors.push('Request expires before it is issued');
+  }
+
+  try {
+    toDisclosureRequest(request);
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Translate a proof request into the predicates of a selective-disclosure proof
+ * isNotSanctioned is attested by the TEE, not the circuit, so it adds no predicate;
+ * verifyProofResponse checks it on-chain instead
+ */
+export function toDisclosureRequest(request: ProofRequest): DisclosureRequest {
+  const predicates: DisclosurePredicate[] = [];
+
+  const minimumAge = request.requiredAttributes.includes('isAdult')
+    ? Math.max(request.minimumAge, ADULT_AGE)
+    : request.minimumAge;
+  if (minimumAge > 0) {
+    predicates.push(Predicates.minAge(minimumAge));
+  }
+  if (request.requiredAttributes.includes('isNotExpired')) {
+    // expiry >= tomorrow, i.e. the document is still valid today
+    predicates.push(Predicates.documentValidFor(1));
+  }
+  if (request.allowedNationalities.length > 0 || request.deniedNationalities.length > 0) {
+    // Proven as membership of the nationality in a Merkle tree of accepted countries
+    const spec: NationalityListSpec = {
+      allow: request.allowedNationalities.length > 0 ? request.allowedNationalities : undefined,
+      deny: request.deniedNationalities,
+    };
+    // Throws on unknown countries or a list that excludes everyone
+    buildNationalitySet(spec);
+    predicates.push(Predicates.nationalityIn(spec));
+  }
+
+  if (predicates.length === 0) {
+    throw new Error('Request does not ask for anything the proof can show');
+  }
+  if (predicates.length > MAX_DISCLOSURE_PREDICATES) {
+    throw new Error(`Request needs more than ${MAX_DISCLOSURE_PREDICATES} checks`);
+  }
+
+  return { predicates, challenge: request.challenge };
+}
+
+/**
+ * How many days old a proof may be for the request; proofs are dated by day, so at least 1
+ */
+export function getMaxProofAgeDays(request: ProofRequest): number {
+  return Math.max(1, Math.ceil(request.freshness / SECONDS_PER_DAY));
+}
+
+export interface ProofResponseOptions extends ContractCallOptions {
+  now?: Date;
+}
+
+/**
+ * Check a proof response as the relying dApp: its challenge, wallet, predicates and freshness
+ * A proof older than the request's freshness is rejected, however valid it is otherwise.
+ * The prover picks every circuit input, so the proof only counts if an active issuer's
+ * enclave attested its commitment for the responding wallet, as submitZKProof requires.
+ * No predicate shows isNotSanctioned, so a request for it also needs the attribute to hold on-chain
+ */
+export async function verifyProofResponse(
+  response: ProofResponse,
+  request: ProofRequest,
+  publicClient: ContractPublicClient,
+  options: ProofResponseOptions = {}
+): Promise<SelectiveDisclosureVerificationResult> {
+  const { now = new Date(), ...callOptions } = options;
+  const reject = (reason: string): SelectiveDisclosureVerificationResult => ({
+    isValid: false,
+    nullifierHash: response.proof.nullifierHash,
+    publicOutputs: [],
+    predicates: [],
+    reason,
+  });
+
+  if (response.challenge !== request.challenge) {
+    return reject('Response does not answer this request\'s challenge');
+  }
+  const result = await verifySelectiveDisclosureProof(response.proof, toDisclosureRequest(request), {
+    userAddress: response.userAddress,
+    maxProofAgeDays: getMaxProofAgeDays(request),
+    now,
+  });
+  if (!result.isValid) return result;
+
+  const attestation = await getCommitmentAttestation(
+    publicClient,
+    response.userAddress,
+    BigInt(getProofCommitment(response.proof)),
+    callOptions
+  );
+  if (!attestation) {
+    return reject('No issuer attested the proof\'s KYC record for this wallet');
+  }
+  if (attestation.expiryTimestamp <= Math.floor(now.getTime() / 1000)) {
+    return reject('The attestation of the proof\'s KYC record has expired');
+  }
+  const issuer = await getIssuer(publicClient, attestation.issuerId, callOptions);
+  if (issuer?.status !== 'active') {
+    return reject('The issuer that attested the proof\'s KYC record is not active');
+  }
+  if (
+    request.requiredAttributes.includes('isNotSanctioned') &&
+    !(await checkVerifiedFor(publicClient, response.userAddress, ['isNotSanctioned'], callOptions))
+  ) {
+    return reject('The wallet has no current on-chain attestation that it is not sanctioned');
+  }
+  return result;
+}
+
+/**
+ * Send the finished proof back to the relying dApp that opened or embeds us
+ */
+export function postProofResponse(
+  target: Window,
+  request: ProofRequest,
+  userAddress: string,
+  proof: ZKProof
+): void {
+  const response: ProofResponse = {
+    type: PROOF_RESPONSE_MESSAGE,
+    challenge: request.challenge,
+    userAddress,
+    proof,
+  };
+  target.postMessage(response, request.verifier.origin);
+}
@@ -0,0 +1,63 @@
+// Verification Renewal
+//
+// Works out when a wallet's on-chain verification lapses, so the app can
+// remind the user ahead of time. An attestation lasts
+// ATTESTATION_VALIDITY_PERIOD, or until the document expires if that is
+// sooner; in that case renewing needs a new document, not just another TEE
+// run over the protected data.
+
+import type { OnChainVerification, VerificationExpiry, VerificationResult } from '@/lib/types/kyc';
+import { ATTESTATION_VALIDITY_PERIOD } from '@/lib/services/enclave-signer';
+
+// Reminders start this long before a verification expires (30 days in seconds)
+export const RENEWAL_WINDOW = 30 * 24 * 60 * 60;
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+/**
+ * Whether the document's expiry cut a TEE result's attestation short
+ * The enclave counts the validity period from the result's timestamp, so a shorter expiry can only come from the document
+ */
+export function isCappedByDocument(result: VerificationResult): boolean {
+  return result.expiryTimestamp !== undefined &&
+    result.expiryTimestamp < Math.floor(result.timestamp / 1000) + ATTESTATION_VALIDITY_PERIOD;
+}
+
+/**
+ * How long a wallet's verification has left, or null if it was never verified
+ * `result` is the TEE result the verification was submitted from, if the app still has it
+ */
+export function getVerificationExpiry(
+  verification: OnChainVerification,
+  result: VerificationResult | null = null,
+  now: number = Math.floor(Date.now() / 1000)
+): VerificationExpiry | null {
+  if (verification.verificationTimestamp === 0) return null;
+
+  const expiresAt = Math.min(verification.expiryTimestamp, ...Object.values(verification.attributeExpiries));
+  const documentExpiresAt = verification.attributeExpiries.isNotExpired ?? null;
+  // Older attestations end isNotExpired on its own; newer ones end entirely, which only the TEE result tells apart
+  const endsWithDocument = (documentExpiresAt !== null && documentExpiresAt < verification.expiryTimestamp) ||
+    (result !== null && result.proofHash.toLowerCase() === verification.proofHash.toLowerCase() && isCappedByDocument(result));
+
+  const secondsLeft = Math.max(0, expiresAt - now);
+  let state: VerificationExpiry['state'];
+  if (secondsLeft === 0) {
+    state = 'expired';
+  } else if (!verification.isVerified) {
+    state = 'inactive';
+  } else {
+    state = secondsLeft <= RENEWAL_WINDOW ? 'expiring' : 'active';
+  }
+  return { state, expiresAt, secondsLeft, documentExpiresAt, endsWithDocument };
+}
+
+/**
+ * Time left in its two largest units, e.g. "12d 4h" or "3h 20m"
+ */
+export function formatTimeLeft(seconds: number): string {
+  if (seconds >= DAY) return `${Math.floor(seconds / DAY)}d ${Math.floor((seconds % DAY) / HOUR)}h`;
+  if (seconds >= HOUR) return `${Math.floor(seconds / HOUR)}h ${Math.floor((seconds % HOUR) / 60)}m`;
+  return `${Math.max(1, Math.ceil(seconds / 60))}m`;
+}
@@ -0,0 +1,33 @@
+// Sanctions Screening
+//
+// Runs the TEE app's screening code (decentralized-iapp/src/sanctions) over the
+// lists bundled with it, so the simulator reaches the verdict the enclave would.
+
+import type { KYCData, SanctionsScreening } from '@/lib/types/kyc';
+import {
+  DEFAULT_MATCH_THRESHOLD,
+  parseSanctionsList,
+  screenIdentity,
+} from '@/decentralized-iapp/src/sanctions/screening.js';
+import ofacSdn from '@/decentralized-iapp/src/sanctions/lists/ofac-sdn.json';
+import unConsolidated from '@/decentralized-iapp/src/sanctions/lists/un-consolidated.json';
+import euConsolidated from '@/decentralized-iapp/src/sanctions/lists/eu-consolidated.json';
+
+export { DEFAULT_MATCH_THRESHOLD };
+
+const SANCTIONS_LISTS = [ofacSdn, unConsolidated, euConsolidated].map(parseSanctionsList);
+
+/**
+ * Screen the holder's name and date of birth against the sanctions lists
+ * A match at or above the threshold means isNotSanctioned is false
+ */
+export function screenKYCData(
+  kycData: Pick<KYCData, 'fullName' | 'dateOfBirth'>,
+  options: { threshold?: number } = {}
+): SanctionsScreening {
+  return screenIdentity(
+    { fullName: kycData.fullName, dateOfBirth: kycData.dateOfBirth },
+    SANCTIONS_LISTS,
+    options
+  );
+}
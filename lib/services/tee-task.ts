@@ -0,0 +1,76 @@
+// TEE Task Tracking
+//
+// Turns DataProtector's onStatusUpdate callbacks into the four sub-steps shown
+// under "TEE Verification", and picks the deal and task IDs out of them so
+// the task can be watched again after a page reload.
+
+import type { TeeTask, TeeTaskProgress, TeeTaskStage } from '@/lib/types/kyc';
+
+export const TEE_TASK_STAGES: { stage: TeeTaskStage; label: string }[] = [
+  { stage: 'matching', label: 'Matching orders' },
+  { stage: 'running', label: 'Running in enclave' },
+  { stage: 'result', label: 'Fetching result' },
+  { stage: 'decrypting', label: 'Decrypting result' },
+];
+
+// DataProtector status titles from processProtectedData, waitForTaskCompletion
+// and getResultFromCompletedTask
+const STAGE_BY_STATUS: Record<string, TeeTaskStage> = {
+  FETCH_ORDERS: 'matching',
+  FETCH_WORKERPOOL_ORDERBOOK: 'matching',
+  PUSH_REQUESTER_SECRET: 'matching',
+  GENERATE_ENCRYPTION_KEY: 'matching',
+  PUSH_ENCRYPTION_KEY: 'matching',
+  REQUEST_TO_PROCESS_PROTECTED_DATA: 'matching',
+  TASK_EXECUTION: 'running',
+  TASK_UPDATED: 'running',
+  TASK_RESULT_DOWNLOAD: 'result',
+  TASK_RESULT_DECRYPT: 'decrypting',
+};
+
+export interface DataProtectorStatusUpdate {
+  title: string;
+  isDone: boolean;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Map a DataProtector status update onto a sub-step
+ * Only the last status of a stage marks it done, e.g. REQUEST_TO_PROCESS_PROTECTED_DATA for matching
+ */
+export function toTaskProgress(update: DataProtectorStatusUpdate): TeeTaskProgress | null {
+  const stage = STAGE_BY_STATUS[update.title];
+  if (!stage) return null;
+
+  const lastOfStage =
+    update.title === 'REQUEST_TO_PROCESS_PROTECTED_DATA' ||
+    update.title === 'TASK_EXECUTION' ||
+    update.title === 'TASK_UPDATED' ||
+    update.title === 'TASK_RESULT_DOWNLOAD' ||
+    update.title === 'TASK_RESULT_DECRYPT';
+
+  const taskStatus = update.payload?.status;
+  return {
+    stage,
+    isDone: update.isDone && lastOfStage,
+    ...(typeof taskStatus === 'string' ? { taskStatus } : {}),
+  };
+}
+
+/**
+ * The deal and task IDs, once REQUEST_TO_PROCESS_PROTECTED_DATA reports them
+ */
+export function toCreatedTask(update: DataProtectorStatusUpdate, protectedData: string): TeeTask | null {
+  if (update.title !== 'REQUEST_TO_PROCESS_PROTECTED_DATA' || !update.isDone) return null;
+
+  const { dealId, taskId, txHash } = update.payload ?? {};
+  if (typeof dealId !== 'string' || typeof taskId !== 'string') return null;
+
+  return {
+    protectedData,
+    dealId,
+    taskId,
+    ...(typeof txHash === 'string' ? { txHash } : {}),
+    startedAt: Date.now(),
+  };
+}
@@ -0,0 +1,428 @@
+// KYC Verification Pipeline
+//
+// The verification flow as pipeline steps (lib/services/pipeline.ts): screen
+// the wallet, encrypt, prove, check the document is not bound to another
+// wallet, protect, grant, run the TEE task and submit.
+// Without a wallet provider the TEE and the submission are simulated. Steps that cost gas save
+// the session (lib/services/verification-session.ts), and a run started from
+// a saved session skips what is already done. A submitted session is kept, so
+// renewing runs only grant, the TEE task and the submission again.
+
+import type {
+  AddressScreening,
+  KYCData,
+  ProofRequest,
+  ProtectedData,
+  TeeTask,
+  TeeTaskProgress,
+  VerificationResult,
+  VerificationSession,
+  VerificationStatus,
+  ZKProof,
+} from '@/lib/types/kyc';
+import type { PipelineError, PipelineStep } from '@/lib/services/pipeline';
+import { PipelineAbortedError } from '@/lib/services/pipeline';
+import {
+  initializeDataProtector,
+  protectKYCData,
+  grantVerificationAccess,
+  revokeVerificationAccess,
+  executeVerificationTask,
+  resumeVerificationTask,
+  simulateVerification,
+} from '@/lib/services/iexec';
+import type { IExecResult } from '@/lib/services/iexec';
+import {
+  generateFullKYCProof,
+  verifyFullKYCProof,
+  getProofCommitment,
+  generateSelectiveDisclosureProof,
+  verifySelectiveDisclosureProof,
+} from '@/lib/services/zkproof';
+import { getMaxProofAgeDays, toDisclosureRequest } from '@/lib/services/proof-request';
+import { screenAddress } from '@/lib/services/address-risk';
+import {
+  EnclaveSignatureError,
+  NullifierInUseError,
+  checkNullifierAvailable,
+  createContractClients,
+  generateMockTransactionHash,
+  getNullifierScope,
+  submitVerificationProof,
+} from '@/lib/services/contract';
+import { saveSession, clearSession } from '@/lib/services/verification-session';
+import { DataProtectorConnectionError, DataProtectorError, TaskExecutionError } from '@/lib/services/data-protector';
+import type { DataProtectorClient, EthereumProvider } from '@/lib/services/data-protector';
+import { encryptForTEE, createCommitment, generateNullifierHash } from '@/lib/utils/crypto';
+import { logger } from '@/lib/logger';
+
+const REQUIRED_CHAIN_ID = 421614; // Arbitrum Sepolia
+
+export type VerificationStepName =
+  | 'screenAddress'
+  | 'encrypt'
+  | 'prove'
+  | 'connect'
+  | 'checkNullifier'
+  | 'protect'
+  | 'grant'
+  | 'runTask'
+  | 'simulate'
+  | 'checkResult'
+  | 'submit';
+
+export interface VerificationContext {
+  owner: string;
+  chainId: number | null;
+  provider: EthereumProvider | null;
+  proofRequest: ProofRequest | null;
+  // Absent when resuming a session
+  kycData?: KYCData;
+  documentImage?: File;
+  addressScreening?: AddressScreening;
+  protectedData?: ProtectedData;
+  zkProof?: ZKProof;
+  dataProtector?: DataProtectorClient;
+  session?: VerificationSession;
+  teeTask?: TeeTask;
+  verificationResult?: VerificationResult;
+  transactionHash?: string;
+}
+
+export interface VerificationListeners {
+  onTaskProgress?(progress: TeeTaskProgress): void;
+  onTaskCreated?(task: TeeTask): void;
+}
+
+// Where each step shows in VerificationProgress; null leaves it unchanged
+export const VERIFICATION_STEP_PROGRESS: Record<
+  VerificationStepName,
+  { status: VerificationStatus; currentStep: number } | null
+> = {
+  screenAddress: null,
+  encrypt: { status: 'encrypting', currentStep: 2 },
+  prove: { status: 'computing', currentStep: 3 },
+  connect: { status: 'protecting', currentStep: 4 },
+  checkNullifier: null,
+  protect: { status: 'protecting', currentStep: 4 },
+  grant: { status: 'verifying', currentStep: 4 },
+  runTask: { status: 'verifying', currentStep: 4 },
+  simulate: { status: 'verifying', currentStep: 4 },
+  checkResult: null,
+  submit: { status: 'submitting', currentStep: 5 },
+};
+
+/**
+ * Whether a failed run is over for good, so its session should be discarded
+ * Other failures (a rejected wallet prompt, a network error) can be resumed
+ * A result no active issuer signed never becomes submittable either, nor does a document bound to another wallet
+ */
+export function endsSession(error: PipelineError): boolean {
+  return error instanceof PipelineAbortedError ||
+    error.step === 'checkResult' ||
+    error.cause instanceof TaskExecutionError ||
+    error.cause instanceof EnclaveSignatureError ||
+    error.cause instanceof NullifierInUseError;
+}
+
+/**
+ * The nullifier scope the proof and the TEE result are made for: the contract's, where the run submits to it
+ * Without a provider nothing reaches the contract, and connect refuses other chains before anything does
+ */
+async function readNullifierScope(provider: EthereumProvider | null, chainId: number | null, owner: string): Promise<bigint> {
+  if (!provider || chainId !== REQUIRED_CHAIN_ID) return BigInt(0);
+  return getNullifierScope(createContractClients(provider, owner).publicClient);
+}
+
+function required<T>(value: T | undefined, name: string): T {
+  if (value === undefined) {
+    throw new Error(`Verification is missing its ${name}`);
+  }
+  return value;
+}
+
+/**
+ * The steps of one verification run
+ * Create a new pipeline per run: it keeps the run's session saves in order
+ */
+export function createVerificationPipeline(
+  listeners: VerificationListeners = {}
+): PipelineStep<VerificationContext, VerificationStepName>[] {
+  let saving = Promise.resolve();
+  // Saves run one after the other, so a late one cannot overwrite a later step
+  // A failed save rejects for its caller only and does not hold up the ones after it
+  const save = (session: VerificationSession) => {
+    const saved = saving.then(() => saveSession(session));
+    saving = saved.catch(() => undefined);
+    return saved;
+  };
+  // Set once the TEE task exists; a retry watches it instead of starting another
+  let createdTask: TeeTask | null = null;
+
+  return [
+    {
+      name: 'screenAddress',
+      // Screen the wallet before any identity data is processed
+      async run({ owner, chainId }) {
+        const addressScreening = screenAddress(owner, chainId);
+        if (addressScreening.status === 'blocked') {
+          logger.warn('Wallet address is on a sanctions list', {
+            address: addressScreening.address,
+            hits: addressScreening.hits.map(hit => hit.source),
+          });
+          throw new Error('This wallet address appears on a sanctions list and cannot be verified.');
+        }
+        if (addressScreening.status === 'flagged') {
+          logger.warn('Wallet address is flagged as high risk', {
+            address: addressScreening.address,
+            hits: addressScreening.hits.map(hit => ({ source: hit.source, risk: hit.risk })),
+          });
+        }
+        return { addressScreening };
+      },
+    },
+    {
+      name: 'encrypt',
+      skip: context => context.protectedData !== undefined,
+      timeoutMs: 30_000,
+      async run({ owner, kycData }) {
+        const data = required(kycData, 'identity data');
+        const encryptedData = await encryptForTEE(data);
+        const dataHash = await createCommitment(data);
+        return {
+          protectedData: { address: owner, dataHash, timestamp: Date.now(), encryptedData },
+        };
+      },
+    },
+    {
+      name: 'prove',
+      skip: context => context.zkProof !== undefined,
+      timeoutMs: 120_000,
+      async run({ owner, provider, chainId, kycData, proofRequest, protectedData }, signal) {
+        const data = required(kycData, 'identity data');
+        let zkProof: ZKProof;
+
+        if (proofRequest) {
+          // Prove exactly what the relying dApp asked for, bound to its challenge
+          const disclosureRequest = toDisclosureRequest(proofRequest);
+          zkProof = await generateSelectiveDisclosureProof(data, owner, disclosureRequest, { signal });
+
+          const disclosure = await verifySelectiveDisclosureProof(zkProof, disclosureRequest, {
+            userAddress: owner,
+            maxProofAgeDays: getMaxProofAgeDays(proofRequest),
+          });
+          if (!disclosure.isValid) {
+            throw new Error(disclosure.reason || `Your identity does not meet ${proofRequest.verifier.name}'s requirements.`);
+          }
+        } else {
+          const nullifierScope = await readNullifierScope(provider, chainId, owner);
+          zkProof = await generateFullKYCProof(data, owner, { minimumAge: 18, nullifierScope, signal });
+
+          // Verify the ZK proof locally, public inputs included
+          const zkVerification = await verifyFullKYCProof(zkProof, { userAddress: owner, minimumAge: 18, nullifierScope });
+          if (!zkVerification.isValid) {
+            throw new Error('ZK proof verification failed. Please check your information.');
+          }
+        }
+
+        // The proof must commit to the same record we are about to protect
+        if (getProofCommitment(zkProof) !== required(protectedData, 'encrypted data').dataHash) {
+          throw new Error('ZK proof commitment does not match the submitted identity data');
+        }
+        return { zkProof };
+      },
+    },
+    {
+      name: 'connect',
+      skip: context => !context.provider,
+      timeoutMs: 30_000,
+      retries: 1,
+      retryIf: error => error instanceof DataProtectorConnectionError,
+      async run({ provider, chainId, owner }) {
+        if (chainId !== REQUIRED_CHAIN_ID) {
+          throw new Error(`Please switch to Arbitrum Sepolia testnet (Chain ID: ${REQUIRED_CHAIN_ID}). Current chain: ${chainId}`);
+        }
+        logger.info('Wallet provider available, initializing DataProtector', { chainId, userAddress: owner });
+        return { dataProtector: await initializeDataProtector(required(provider ?? undefined, 'wallet provider'), true) };
+      },
+    },
+    {
+      name: 'checkNullifier',
+      // Before the first transaction, so a document used by another wallet costs no gas
+      skip: context => !context.dataProtector || context.session !== undefined,
+      timeoutMs: 30_000,
+      async run({ provider, owner, kycData }) {
+        const { publicClient } = createContractClients(required(provider ?? undefined, 'wallet provider'), owner);
+        const nullifierScope = await getNullifierScope(publicClient);
+        // Per-wallet nullifiers differ for every wallet, so no other wallet can hold this one
+        if (nullifierScope === BigInt(0)) return {};
+
+        const nullifierHash = await generateNullifierHash(required(kycData, 'identity data'), owner, nullifierScope);
+        await checkNullifierAvailable(publicClient, nullifierHash, owner);
+        return {};
+      },
+    },
+    {
+      name: 'protect',
+      skip: context => !context.dataProtector || context.session !== undefined,
+      async run({ dataProtector, kycData, documentImage, owner, protectedData, zkProof, proofRequest }, signal) {
+        // Protect the full KYC record, with the document image when one was uploaded
+        logger.info('Protecting KYC data with iExec', { hasDocumentImage: !!documentImage });
+        const protectedKYCData = await protectKYCData(
+          required(dataProtector, 'DataProtector client'),
+          required(kycData, 'identity data'),
+          owner,
+          documentImage,
+          { signal }
+        );
+
+        // From here on every step is remembered, so a closed tab does not cost the gas again
+        const session: VerificationSession = {
+          version: 1,
+          owner,
+          step: 'protected',
+          protectedDataAddress: protectedKYCData.address,
+          commitment: required(protectedData, 'encrypted data').dataHash,
+          zkProof: required(zkProof, 'ZK proof'),
+          ...(proofRequest ? { challenge: proofRequest.challenge } : {}),
+          startedAt: required(protectedData, 'encrypted data').timestamp,
+          updatedAt: Date.now(),
+        };
+        await save(session);
+        return { session };
+      },
+    },
+    {
+      name: 'grant',
+      // A resumed session past 'protected' was granted by the earlier run and is adopted as is
+      skip: context => !context.dataProtector,
+      async run({ dataProtector, session, owner }, signal) {
+        const current = required(session, 'session');
+        if (current.step !== 'protected') return {};
+
+        logger.info('Granting access to iExec KYC verification app');
+        const client = required(dataProtector, 'DataProtector client');
+        // The SDK cannot be interrupted and compensation only covers completed steps,
+        // so a grant the wallet confirms after the run was abandoned is revoked once it lands
+        const granting = grantVerificationAccess(client, current.protectedDataAddress, owner);
+        const revokeLateGrant = () => {
+          granting
+            .then(() => revokeVerificationAccess(client, current.protectedDataAddress, owner))
+            .catch(error => logger.warn('Failed to revoke access granted after the run was abandoned', {
+              protectedData: current.protectedDataAddress,
+              error: error instanceof Error ? error.message : String(error),
+            }));
+        };
+        signal.addEventListener('abort', revokeLateGrant, { once: true });
+        try {
+          await granting;
+        } finally {
+          signal.removeEventListener('abort', revokeLateGrant);
+        }
+        signal.throwIfAborted();
+        const granted: VerificationSession = { ...current, step: 'granted', updatedAt: Date.now() };
+        await save(granted);
+        return { session: granted };
+      },
+      // Once a task started, it has used the access; before that, nothing should keep it
+      async compensate({ dataProtector, session, owner }, error) {
+        if (!dataProtector || !session || createdTask || session.teeTask || !endsSession(error)) return;
+        await revokeVerificationAccess(dataProtector, session.protectedDataAddress, owner);
+      },
+    },
+    {
+      name: 'runTask',
+      skip: context => !context.dataProtector || context.session?.step === 'verified',
+      // A task that exists is watched again; starting one is retried only when the protocol failed
+      retries: 2,
+      retryDelayMs: 5_000,
+      retryIf: error => !(error instanceof TaskExecutionError) &&
+        (createdTask !== null || (error instanceof DataProtectorError && error.isProtocolError)),
+      async run({ dataProtector, session, provider, chainId, owner }, signal) {
+        const client = required(dataProtector, 'DataProtector client');
+        let current = required(session, 'session');
+        const onProgress = (progress: TeeTaskProgress) => listeners.onTaskProgress?.(progress);
+
+        const task = createdTask ?? (current.step === 'task' ? current.teeTask : undefined);
+        let iexecResult: IExecResult;
+        if (task) {
+          listeners.onTaskCreated?.(task);
+          iexecResult = await resumeVerificationTask(client, task, { onProgress, signal });
+        } else {
+          logger.info('Executing KYC verification task in TEE');
+          iexecResult = await executeVerificationTask(client, current.protectedDataAddress, true, {
+            // The enclave signs the document's nullifier for the scope submitProof checks
+            nullifierScope: await readNullifierScope(provider, chainId, owner),
+            onProgress,
+            signal,
+            onTaskCreated: teeTask => {
+              createdTask = teeTask;
+              current = { ...current, step: 'task', teeTask, updatedAt: Date.now() };
+              // Only lets a reload resume the task, so the run carries on without it
+              save(current).catch(error => logger.warn('Failed to save the TEE task to the session', {
+                taskId: teeTask.taskId,
+                error: error instanceof Error ? error.message : String(error),
+              }));
+              listeners.onTaskCreated?.(teeTask);
+            },
+          });
+        }
+
+        logger.info('TEE verification completed', { taskId: iexecResult.taskId, isValid: iexecResult.result.isValid });
+        if (iexecResult.result.isValid) {
+          current = { ...current, step: 'verified', verificationResult: iexecResult.result, updatedAt: Date.now() };
+          await save(current);
+        }
+        // The task's save must land before a later step can end the session
+        await saving;
+        return { session: current, teeTask: createdTask ?? task, verificationResult: iexecResult.result };
+      },
+    },
+    {
+      name: 'simulate',
+      skip: context => context.dataProtector !== undefined || context.verificationResult !== undefined,
+      timeoutMs: 30_000,
+      async run({ kycData, owner }) {
+        // Fallback to simulation for development
+        logger.warn('No wallet provider available, using simulated verification');
+        return { verificationResult: await simulateVerification(required(kycData, 'identity data'), owner) };
+      },
+    },
+    {
+      name: 'checkResult',
+      async run({ verificationResult, addressScreening }) {
+        const result = { ...required(verificationResult, 'TEE result'), addressScreening };
+        if (!result.isValid) {
+          throw new Error('Identity verification failed. Please ensure your documents are valid.');
+        }
+        return { verificationResult: result };
+      },
+    },
+    {
+      name: 'submit',
+      async run({ owner, provider, session, verificationResult }, signal) {
+        let transactionHash: string;
+        if (provider) {
+          const receipt = await submitVerificationProof(
+            createContractClients(provider, owner),
+            owner,
+            required(verificationResult, 'TEE result'),
+            { signal }
+          );
+          transactionHash = receipt.hash;
+        } else {
+          // A simulated result is signed by the test enclave, which no real deployment trusts
+          transactionHash = await generateMockTransactionHash();
+        }
+        if (session) {
+          // Kept so the verification can be renewed from the same protected data
+          const { teeTask: _teeTask, challenge: _challenge, ...rest } = session;
+          await save({ ...rest, step: 'submitted', verificationResult: required(verificationResult, 'TEE result'), updatedAt: Date.now() });
+        } else {
+          await clearSession(owner);
+        }
+        return { transactionHash };
+      },
+    },
+  ];
+}
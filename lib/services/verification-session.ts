@@ -0,0 +1,152 @@
+// Verification Sessions
+//
+// Remembers how far a DataProtector run got for each wallet, so closing the
+// tab does not mean protecting and granting (and paying gas) again. Records
+// are AES-GCM encrypted at rest in IndexedDB with a non-extractable key that
+// is generated in the browser and never leaves it.
+
+import type { VerificationResult, VerificationSession } from '@/lib/types/kyc';
+import { logger } from '@/lib/logger';
+
+const DB_NAME = 'zkkyc';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const KEY_STORE = 'keys';
+const SESSION_KEY_ID = 'verification-session';
+
+interface EncryptedSession {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+interface SessionDatabase {
+  db: IDBDatabase;
+  key: CryptoKey;
+}
+
+let database: Promise<SessionDatabase> | null = null;
+
+const ownerKey = (owner: string) => owner.toLowerCase();
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SESSION_STORE);
+      request.result.createObjectStore(KEY_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function run<T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * The key sessions are encrypted with, created on first use
+ * `add` fails if another tab stored one first, in which case that one is used
+ */
+async function getSessionKey(db: IDBDatabase): Promise<CryptoKey> {
+  const stored = await run<CryptoKey | undefined>(db, KEY_STORE, 'readonly', store => store.get(SESSION_KEY_ID));
+  if (stored) return stored;
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  try {
+    await run(db, KEY_STORE, 'readwrite', store => store.add(key, SESSION_KEY_ID));
+    return key;
+  } catch {
+    const winner = await run<CryptoKey | undefined>(db, KEY_STORE, 'readonly', store => store.get(SESSION_KEY_ID));
+    if (!winner) throw new Error('Failed to store the session key');
+    return winner;
+  }
+}
+
+function getDatabase(): Promise<SessionDatabase> {
+  if (typeof indexedDB === 'undefined' || typeof crypto === 'undefined' || !crypto.subtle) {
+    return Promise.reject(new Error('IndexedDB and Web Crypto are required to keep verification sessions'));
+  }
+  if (!database) {
+    database = openDatabase().then(async db => ({ db, key: await getSessionKey(db) }));
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+// Sanctions matches name list entries close to the holder's name, so they are not kept
+function withoutMatches(result: VerificationResult): VerificationResult {
+  const { sanctions: _sanctions, ...rest } = result;
+  return rest;
+}
+
+/**
+ * Store a wallet's session, replacing the previous one
+ * Failures are logged: losing the session only costs a restart
+ */
+export async function saveSession(session: VerificationSession): Promise<void> {
+  try {
+    const { db, key } = await getDatabase();
+    const stored: VerificationSession = {
+      ...session,
+      ...(session.verificationResult ? { verificationResult: withoutMatches(session.verificationResult) } : {}),
+    };
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      // Bound to the wallet, so a record cannot be replayed under another one
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(ownerKey(session.owner)) },
+      key,
+      new TextEncoder().encode(JSON.stringify(stored))
+    );
+    await run(db, SESSION_STORE, 'readwrite', store => store.put({ iv, data } satisfies EncryptedSession, ownerKey(session.owner)));
+  } catch (error) {
+    logger.warn('Failed to save verification session', { step: session.step, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * The session a wallet left unfinished, or null if there is none or it cannot be read
+ */
+export async function loadSession(owner: string): Promise<VerificationSession | null> {
+  try {
+    const { db, key } = await getDatabase();
+    const stored = await run<EncryptedSession | undefined>(db, SESSION_STORE, 'readonly', store => store.get(ownerKey(owner)));
+    if (!stored) return null;
+
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: stored.iv, additionalData: new TextEncoder().encode(ownerKey(owner)) },
+      key,
+      stored.data
+    );
+    const session = JSON.parse(new TextDecoder().decode(data)) as VerificationSession;
+    if (session.version !== 1 || ownerKey(session.owner) !== ownerKey(owner)) {
+      return null;
+    }
+    return session;
+  } catch (error) {
+    logger.warn('Failed to load verification session', { error: error instanceof Error ? error.message : String(error) });
+    return null;
+  }
+}
+
+export async function clearSession(owner: string): Promise<void> {
+  try {
+    const { db } = await getDatabase();
+    await run(db, SESSION_STORE, 'readwrite', store => store.delete(ownerKey(owner)));
+  } catch (error) {
+    logger.warn('Failed to clear verification session', { error: error instanceof Error ? error.message : String(error) });
+  }
+}
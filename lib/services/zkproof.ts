@@ -1,22 +1,33 @@
 // Zero-Knowledge Proof Service for Privacy-Preserving KYC
 
-import type { KYCData, ZKProof } from '@/lib/types/kyc';
-import { hashData, generateNullifierHash } from '@/lib/utils/crypto';
+import type { DocumentType, KYCData, ZKProof, Groth16Proof } from '@/lib/types/kyc';
+import type { DateSignals, KYCFieldEncoding } from '@/lib/utils/field';
+import {
+  encodeAddress,
+  encodeChallenge,
+  encodeDate,
+  encodeDocumentType,
+  encodeKYCData,
+  encodeNationality,
+  packDate,
+  toFieldString,
+} from '@/lib/utils/field';
+import type { NationalityListSpec, NationalitySet } from '@/lib/utils/nationality-set';
+import type { MerkleProof } from '@/lib/utils/merkle';
+import {
+  buildNationalitySet,
+  emptyNationalityWitness,
+  getNationalityWitness,
+} from '@/lib/utils/nationality-set';
 
 /**
  * ZK Circuit Types for KYC Verification
- * In production, these would be compiled Circom circuits
+ * Each type maps to a Circom circuit in circuits/ compiled by `pnpm circuits:build`
  */
-export type ZKCircuitType = 
-  | 'age_verification' 
-  | 'nationality_check' 
-  | 'document_validity'
-  | 'full_kyc';
-
-interface ZKInput {
-  privateInputs: Record<string, unknown>;
-  publicInputs: Record<string, unknown>;
-}
+export type ZKCircuitType =
+  | 'age_verification'
+  | 'full_kyc'
+  | 'selective_disclosure';
 
 interface ZKVerificationResult {
   isValid: boolean;
@@ -24,102 +35,190 @@ interface ZKVerificationResult {
   publicOutputs: string[];
 }
 
+interface CircuitArtifacts {
+  wasm: string;
+  zkey: string;
+  verificationKey: string;
+}
+
+type CircuitSignals = Record<string, string | number | string[]>;
+
+// Where the browser fetches compiled circuits from (served out of public/circuits)
+const CIRCUITS_BASE_URL = process.env.NEXT_PUBLIC_CIRCUITS_BASE_URL || '/circuits';
+
+// Where Node (scripts, tests, server routes) reads compiled circuits from
+const CIRCUITS_DIR = process.env.ZK_CIRCUITS_DIR || `${process.cwd()}/public/circuits`;
+
+// Index of the circuit outputs in publicSignals (outputs come before public inputs)
+const SIGNAL_RESULT = 0;
+const SIGNAL_NULLIFIER = 1;
+const SIGNAL_COMMITMENT = 2;
+
+// Index of each public input of the full KYC circuit, after its three outputs
+const FULL_KYC_LAYOUT = {
+  currentYear: 3,
+  currentMonth: 4,
+  currentDay: 5,
+  minimumAge: 6,
+  nationalityRoot: 7,
+  userAddress: 8,
+  nullifierScope: 9,
+  length: 10,
+};
+
+const verificationKeyCache = new Map<ZKCircuitType, object>();
+
 /**
- * Generate age verification ZK proof
- * Proves user is above minimum age without revealing exact birth date
+ * Resolve artifact locations for a circuit
+ * URLs in the browser, file paths in Node
  */
-export async function generateAgeVerificationProof(
-  dateOfBirth: string,
-  minimumAge: number,
-  userAddress: string
+export function getCircuitArtifacts(circuitType: ZKCircuitType): CircuitArtifacts {
+  const base = typeof window !== 'undefined' ? CIRCUITS_BASE_URL : CIRCUITS_DIR;
+  const dir = `${base}/${circuitType}`;
+
+  return {
+    wasm: `${dir}/${circuitType}.wasm`,
+    zkey: `${dir}/${circuitType}_final.zkey`,
+    verificationKey: `${dir}/verification_key.json`,
+  };
+}
+
+/**
+ * Load (and cache) the Groth16 verification key for a circuit
+ */
+async function loadVerificationKey(circuitType: ZKCircuitType): Promise<object> {
+  const cached = verificationKeyCache.get(circuitType);
+  if (cached) {
+    return cached;
+  }
+
+  const { verificationKey } = getCircuitArtifacts(circuitType);
+  let key: object;
+
+  if (typeof window !== 'undefined') {
+    const response = await fetch(verificationKey);
+    if (!response.ok) {
+      throw new Error(`Failed to load verification key for ${circuitType}: ${response.status}`);
+    }
+    key = await response.json();
+  } else {
+    const { readFile } = await import(/* webpackIgnore: true */ 'node:fs/promises');
+    key = JSON.parse(await readFile(verificationKey, 'utf8'));
+  }
+
+  verificationKeyCache.set(circuitType, key);
+  return key;
+}
+
+/**
+ * Download a proving artifact in the browser, so the download can be cancelled
+ * In Node snarkjs reads the file itself
+ */
+async function loadArtifact(location: string, signal?: AbortSignal): Promise<string | Uint8Array> {
+  if (typeof window === 'undefined') {
+    return location;
+  }
+  const response = await fetch(location, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to load ${location}: ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Run the witness calculator and Groth16 prover for a circuit
+ * The prover itself cannot be interrupted; an aborted signal discards its proof
+ */
+async function proveCircuit(
+  circuitType: ZKCircuitType,
+  input: CircuitSignals,
+  signal?: AbortSignal
 ): Promise<ZKProof> {
-  // Calculate age
-  const birthDate = new Date(dateOfBirth);
+  signal?.throwIfAborted();
+  // Dynamic import keeps snarkjs out of the server bundle
+  const { groth16 } = await import('snarkjs');
+  const artifacts = getCircuitArtifacts(circuitType);
+  const [wasm, zkey] = await Promise.all([
+    loadArtifact(artifacts.wasm, signal),
+    loadArtifact(artifacts.zkey, signal),
+  ]);
+
+  signal?.throwIfAborted();
+  const { proof, publicSignals } = await groth16.fullProve(input, wasm, zkey);
+  signal?.throwIfAborted();
+
+  return {
+    proof: proof as Groth16Proof,
+    publicSignals,
+    nullifierHash: publicSignals[SIGNAL_NULLIFIER],
+  };
+}
+
+// The UTC date, as the contract's _checkProofDate and addDays count days
+function currentDateSignals() {
   const today = new Date();
-  let age = today.getFullYear() - birthDate.getFullYear();
-  const monthDiff = today.getMonth() - birthDate.getMonth();
-  
-  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-    age--;
-  }
-  
-  const isAboveMinimumAge = age >= minimumAge;
-  
-  // In production, this would use snarkjs to generate a real ZK proof
-  // The circuit would prove: birth_date + minimum_age <= current_date
-  // without revealing the actual birth_date
-  
-  const privateWitness = {
-    birthYear: birthDate.getFullYear(),
-    birthMonth: birthDate.getMonth() + 1,
-    birthDay: birthDate.getDate(),
-    currentYear: today.getFullYear(),
-    currentMonth: today.getMonth() + 1,
-    currentDay: today.getDate(),
+  return {
+    currentYear: today.getUTCFullYear(),
+    currentMonth: today.getUTCMonth() + 1,
+    currentDay: today.getUTCDate(),
   };
-  
-  // Create proof hash (simulated)
-  const proofInput = JSON.stringify({
-    ...privateWitness,
-    minimumAge,
-    result: isAboveMinimumAge,
-  });
-  
-  const proofHash = await hashData(proofInput);
-  const nullifierHash = await generateNullifierHash(proofHash, userAddress);
-  
+}
+
+/**
+ * Private inputs shared by the full KYC and selective disclosure circuits
+ */
+function kycPrivateSignals(encoded: KYCFieldEncoding): CircuitSignals {
   return {
-    proof: proofHash,
-    publicSignals: [
-      isAboveMinimumAge ? '1' : '0',
-      minimumAge.toString(),
-      today.getFullYear().toString(),
-    ],
-    nullifierHash,
+    birthYear: encoded.birthDate.year,
+    birthMonth: encoded.birthDate.month,
+    birthDay: encoded.birthDate.day,
+    documentType: toFieldString(encoded.documentType),
+    documentHash: toFieldString(encoded.documentHash),
+    nameHash: toFieldString(encoded.nameHash),
+    nationalityCode: toFieldString(encoded.nationalityCode),
+    expiryYear: encoded.expiryDate.year,
+    expiryMonth: encoded.expiryDate.month,
+    expiryDay: encoded.expiryDate.day,
   };
 }
 
 /**
- * Generate document validity ZK proof
- * Proves document is valid without revealing document details
+ * Merkle path of the holder's nationality in a list tree
+ * Nationalities outside the list get a placeholder path, which fails the check
  */
-export async function generateDocumentValidityProof(
-  expiryDate: string,
-  documentType: string,
-  userAddress: string
-): Promise<ZKProof> {
-  const expiry = new Date(expiryDate);
-  const today = new Date();
-  const isValid = expiry > today;
-  
-  // Calculate days until expiry (without revealing exact date)
-  const daysUntilExpiry = Math.floor((expiry.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-  const hasMinimumValidity = daysUntilExpiry > 30; // At least 30 days validity
-  
-  const proofInput = JSON.stringify({
-    documentType,
-    expiryYear: expiry.getFullYear(),
-    expiryMonth: expiry.getMonth() + 1,
-    isValid,
-    hasMinimumValidity,
-  });
-  
-  const proofHash = await hashData(proofInput);
-  const nullifierHash = await generateNullifierHash(proofHash, userAddress);
-  
+function nationalityWitnessSignals(
+  witness: Pick<MerkleProof, 'pathElements' | 'pathIndices'> | null
+): CircuitSignals {
+  const { pathElements, pathIndices } = witness ?? emptyNationalityWitness();
   return {
-    proof: proofHash,
-    publicSignals: [
-      isValid ? '1' : '0',
-      hasMinimumValidity ? '1' : '0',
-    ],
-    nullifierHash,
+    nationalityPathElements: pathElements.map(toFieldString),
+    nationalityPathIndices: pathIndices.map(String),
   };
 }
 
+/**
+ * Generate age verification ZK proof
+ * Proves user is above minimum age without revealing exact birth date
+ */
+export async function generateAgeVerificationProof(
+  dateOfBirth: string,
+  minimumAge: number
+): Promise<ZKProof> {
+  const birth = encodeDate(dateOfBirth);
+
+  return proveCircuit('age_verification', {
+    birthYear: birth.year,
+    birthMonth: birth.month,
+    birthDay: birth.day,
+    ...currentDateSignals(),
+    minimumAge,
+  });
+}
+
 /**
  * Generate full KYC verification ZK proof
  * Combines age, document validity, and identity verification
+ * With a nullifierScope the nullifier identifies the document within that application, not per wallet
  */
 export async function generateFullKYCProof(
   kycData: KYCData,
@@ -127,242 +226,512 @@ export async function generateFullKYCProof(
   options: {
     minimumAge?: number;
     allowedNationalities?: string[];
+    deniedNationalities?: string[];
+    nullifierScope?: bigint;
+    signal?: AbortSignal;
   } = {}
 ): Promise<ZKProof> {
-  const { minimumAge = 18, allowedNationalities } = options;
-  
-  // Age verification
-  const ageProof = await generateAgeVerificationProof(
-    kycData.dateOfBirth,
+  const {
+    minimumAge = 18,
+    allowedNationalities = [],
+    deniedNationalities = [],
+    nullifierScope = BigInt(0),
+    signal,
+  } = options;
+
+  const nationalitySet = fullKYCNationalitySet(allowedNationalities, deniedNationalities);
+
+  return proveCircuit('full_kyc', {
+    ...kycPrivateSignals(encodeKYCData(kycData)),
+    ...nationalityWitnessSignals(
+      nationalitySet ? getNationalityWitness(nationalitySet, kycData.nationality) : null
+    ),
+    ...currentDateSignals(),
     minimumAge,
-    userAddress
-  );
-  
-  // Document validity
-  const docProof = await generateDocumentValidityProof(
-    kycData.expiryDate,
-    kycData.documentType,
-    userAddress
-  );
-  
-  // Nationality check (if restrictions provided)
-  let nationalityValid = true;
-  if (allowedNationalities && allowedNationalities.length > 0) {
-    nationalityValid = allowedNationalities.includes(kycData.nationality);
-  }
-  
-  // Combine all proofs
-  const combinedInput = JSON.stringify({
-    ageProof: ageProof.proof,
-    docProof: docProof.proof,
-    nationalityValid,
-    timestamp: Date.now(),
+    nationalityRoot: nationalitySet ? toFieldString(nationalitySet.root) : '0',
+    userAddress: toFieldString(encodeAddress(userAddress)),
+    nullifierScope: toFieldString(nullifierScope),
+  }, signal);
+}
+
+/**
+ * The accepted nationalities of a full KYC proof, or null (root 0) if any nationality is accepted
+ */
+function fullKYCNationalitySet(allowedNationalities: string[], deniedNationalities: string[]): NationalitySet | null {
+  if (allowedNationalities.length === 0 && deniedNationalities.length === 0) return null;
+  return buildNationalitySet({
+    allow: allowedNationalities.length > 0 ? allowedNationalities : undefined,
+    deny: deniedNationalities,
   });
-  
-  const combinedProofHash = await hashData(combinedInput);
-  const nullifierHash = await generateNullifierHash(
-    `${kycData.documentType}:${await hashData(kycData.documentNumber)}`,
-    userAddress
-  );
-  
-  // Determine overall validity
-  const isAgeValid = ageProof.publicSignals[0] === '1';
-  const isDocValid = docProof.publicSignals[0] === '1';
-  const isFullyValid = isAgeValid && isDocValid && nationalityValid;
-  
-  return {
-    proof: combinedProofHash,
-    publicSignals: [
-      isFullyValid ? '1' : '0',           // Overall validity
-      isAgeValid ? '1' : '0',             // Age check passed
-      isDocValid ? '1' : '0',             // Document valid
-      nationalityValid ? '1' : '0',       // Nationality allowed
-      minimumAge.toString(),               // Minimum age required
-    ],
-    nullifierHash,
-  };
 }
 
 /**
- * Verify a ZK proof (simulated)
- * In production, this would use snarkjs verify
+ * Read the KYC commitment a full KYC or selective disclosure proof was generated against
+ * Equal to createCommitment() for the same KYC data
+ */
+export function getProofCommitment(proof: ZKProof): string {
+  return proof.publicSignals[SIGNAL_COMMITMENT];
+}
+
+/**
+ * Verify a Groth16 ZK proof against the circuit's verification key
+ * A proof is only accepted if it is valid AND the circuit's result output is 1.
+ * The public inputs are whatever the prover chose; verifyFullKYCProof and
+ * verifySelectiveDisclosureProof also check them against what the verifier expects
  */
 export async function verifyZKProof(
   proof: ZKProof,
   circuitType: ZKCircuitType
 ): Promise<ZKVerificationResult> {
-  // In production, load the verification key for the circuit
-  // and use snarkjs.groth16.verify()
-  
-  // For now, we do basic validation
-  const isValidFormat = 
-    proof.proof && 
-    proof.proof.length === 64 && 
-    proof.publicSignals.length > 0;
-  
-  if (!isValidFormat) {
+  const invalid: ZKVerificationResult = {
+    isValid: false,
+    nullifierHash: proof.nullifierHash,
+    publicOutputs: [],
+  };
+
+  if (!proof.proof || proof.publicSignals.length === 0) {
+    return invalid;
+  }
+
+  // The claimed nullifier must be the one the circuit committed to
+  if (proof.publicSignals[SIGNAL_NULLIFIER] !== proof.nullifierHash) {
+    return invalid;
+  }
+
+  try {
+    const { groth16 } = await import('snarkjs');
+    const verificationKey = await loadVerificationKey(circuitType);
+    const isProofValid = await groth16.verify(verificationKey, proof.publicSignals, proof.proof);
+
     return {
-      isValid: false,
+      isValid: isProofValid && proof.publicSignals[SIGNAL_RESULT] === '1',
       nullifierHash: proof.nullifierHash,
-      publicOutputs: [],
+      publicOutputs: proof.publicSignals,
     };
+  } catch (error) {
+    console.error('[v0] ZK proof verification failed:', error);
+    return invalid;
   }
-  
-  // Check if the proof indicates success
-  const isProofValid = proof.publicSignals[0] === '1';
-  
-  return {
-    isValid: isProofValid,
+}
+
+export interface FullKYCVerificationResult extends ZKVerificationResult {
+  reason?: string;
+}
+
+/**
+ * Verify a full KYC proof against the public inputs the verifier expects, like submitZKProof does
+ * The prover chooses every input, so a proof with a lower minimum age, another wallet's address,
+ * another nationality list or scope, or an old date is rejected however valid it is otherwise
+ */
+export async function verifyFullKYCProof(
+  proof: ZKProof,
+  expected: {
+    userAddress: string;
+    minimumAge?: number;
+    allowedNationalities?: string[];
+    deniedNationalities?: string[];
+    nullifierScope?: bigint;
+    maxProofAgeDays?: number;
+    now?: Date;
+  }
+): Promise<FullKYCVerificationResult> {
+  const {
+    userAddress,
+    minimumAge = 18,
+    allowedNationalities = [],
+    deniedNationalities = [],
+    nullifierScope = BigInt(0),
+    maxProofAgeDays = 1,
+    now = new Date(),
+  } = expected;
+
+  const signals = proof.publicSignals;
+  const reject = (reason: string): FullKYCVerificationResult => ({
+    isValid: false,
     nullifierHash: proof.nullifierHash,
-    publicOutputs: proof.publicSignals,
+    publicOutputs: [],
+    reason,
+  });
+
+  if (signals.length !== FULL_KYC_LAYOUT.length) {
+    return reject(`Expected ${FULL_KYC_LAYOUT.length} public signals, got ${signals.length}`);
+  }
+
+  const proofDate: DateSignals = {
+    year: Number(signals[FULL_KYC_LAYOUT.currentYear]),
+    month: Number(signals[FULL_KYC_LAYOUT.currentMonth]),
+    day: Number(signals[FULL_KYC_LAYOUT.currentDay]),
   };
+  if (!isProofDateAccepted(proofDate, now, maxProofAgeDays)) {
+    return reject(`Proof date ${proofDate.year}-${proofDate.month}-${proofDate.day} is outside the accepted window`);
+  }
+
+  if (signals[FULL_KYC_LAYOUT.minimumAge] !== String(minimumAge)) {
+    return reject(`Proof is for a minimum age of ${signals[FULL_KYC_LAYOUT.minimumAge]}, expected ${minimumAge}`);
+  }
+
+  const nationalitySet = fullKYCNationalitySet(allowedNationalities, deniedNationalities);
+  if (signals[FULL_KYC_LAYOUT.nationalityRoot] !== (nationalitySet ? toFieldString(nationalitySet.root) : '0')) {
+    return reject('Proof checks a different nationality list');
+  }
+
+  if (signals[FULL_KYC_LAYOUT.userAddress] !== toFieldString(encodeAddress(userAddress))) {
+    return reject('Proof is bound to a different wallet');
+  }
+
+  if (signals[FULL_KYC_LAYOUT.nullifierScope] !== toFieldString(nullifierScope)) {
+    return reject('Proof is for a different nullifier scope');
+  }
+
+  const verification = await verifyZKProof(proof, 'full_kyc');
+  return verification.isValid
+    ? verification
+    : { ...verification, reason: 'Proof does not verify against the full KYC key' };
+}
+
+/**
+ * Whether a proof dated proofDate is still acceptable, counting UTC days: at most a day ahead (clock skew)
+ * and at most maxProofAgeDays behind
+ */
+function isProofDateAccepted(proofDate: DateSignals, now: Date, maxProofAgeDays: number): boolean {
+  const today: DateSignals = { year: now.getUTCFullYear(), month: now.getUTCMonth() + 1, day: now.getUTCDate() };
+  const age = daysBetween(proofDate, today);
+  return age >= -1 && age <= maxProofAgeDays;
 }
 
+// --- Selective disclosure ---
+
+/**
+ * Maximum number of predicates in one selective-disclosure proof
+ * Must match SelectiveDisclosure(N) in circuits/selective_disclosure.circom
+ */
+export const MAX_DISCLOSURE_PREDICATES = 4;
+
 /**
- * Generate Circom circuit code for age verification
- * This is the actual ZK circuit that would be compiled and used
+ * A single check a verifier can ask the prover to satisfy
  */
-export function getAgeVerificationCircuit(): string {
-  return `pragma circom 2.1.6;
+export type DisclosurePredicate =
+  | { type: 'min_age'; minimumAge: number }
+  | { type: 'document_valid_for'; days: number }
+  | { type: 'document_type'; documentType: DocumentType }
+  | { type: 'nationality_is'; nationality: string }
+  | { type: 'nationality_is_not'; nationality: string }
+  | ({ type: 'nationality_in' } & NationalityListSpec);
 
-include "circomlib/circuits/comparators.circom";
-include "circomlib/circuits/poseidon.circom";
+export type DisclosurePredicateType = DisclosurePredicate['type'];
 
-/*
- * Age Verification Circuit
- * Proves: birth_date + minimum_age <= current_date
- * Without revealing: actual birth_date
+/**
+ * What a verifier requires: every predicate must hold (logical AND)
+ * The optional challenge (hex nonce) is bound into the proof to prevent replay
  */
-template AgeVerification() {
-    // Private inputs (not revealed)
-    signal input birthYear;
-    signal input birthMonth;
-    signal input birthDay;
-    
-    // Public inputs
-    signal input currentYear;
-    signal input currentMonth;
-    signal input currentDay;
-    signal input minimumAge;
-    
-    // Output
-    signal output isAboveMinimumAge;
-    signal output nullifierHash;
-    
-    // Calculate age
-    signal ageYears;
-    ageYears <== currentYear - birthYear;
-    
-    // Check if birthday has passed this year
-    component monthCheck = LessThan(8);
-    monthCheck.in[0] <== currentMonth;
-    monthCheck.in[1] <== birthMonth;
-    
-    component dayCheck = LessThan(8);
-    dayCheck.in[0] <== currentDay;
-    dayCheck.in[1] <== birthDay;
-    
-    signal birthdayNotPassed;
-    birthdayNotPassed <== monthCheck.out + (1 - monthCheck.out) * dayCheck.out;
-    
-    // Actual age (accounting for birthday)
-    signal actualAge;
-    actualAge <== ageYears - birthdayNotPassed;
-    
-    // Check if above minimum age
-    component ageCheck = GreaterEqThan(8);
-    ageCheck.in[0] <== actualAge;
-    ageCheck.in[1] <== minimumAge;
-    
-    isAboveMinimumAge <== ageCheck.out;
-    
-    // Generate nullifier (for preventing double-verification)
-    component hasher = Poseidon(3);
-    hasher.inputs[0] <== birthYear;
-    hasher.inputs[1] <== birthMonth;
-    hasher.inputs[2] <== birthDay;
-    
-    nullifierHash <== hasher.out;
+export interface DisclosureRequest {
+  predicates: DisclosurePredicate[];
+  challenge?: string;
+}
+
+export interface PredicateOutcome {
+  predicate: DisclosurePredicate;
+  satisfied: boolean;
 }
 
-component main {public [currentYear, currentMonth, currentDay, minimumAge]} = AgeVerification();`;
+export interface SelectiveDisclosureVerificationResult extends ZKVerificationResult {
+  predicates: PredicateOutcome[];
+  reason?: string;
+}
+
+interface PredicateContext {
+  // Date the proof is generated for (public input of the circuit)
+  currentDate: DateSignals;
+}
+
+interface PredicateDefinition<P extends DisclosurePredicate> {
+  // predicateType code understood by circuits/lib/predicates.circom
+  code: number;
+  encodeParam: (predicate: P, context: PredicateContext) => bigint;
+  describe: (predicate: P) => string;
+}
+
+type PredicateRegistry = {
+  [T in DisclosurePredicateType]: PredicateDefinition<Extract<DisclosurePredicate, { type: T }>>;
+};
+
+// Code for an unused predicate slot (always satisfied)
+const PREDICATE_NONE = 0;
+
+const PREDICATE_DEFINITIONS: PredicateRegistry = {
+  min_age: {
+    code: 1,
+    encodeParam: (predicate) => BigInt(predicate.minimumAge),
+    describe: (predicate) => `At least ${predicate.minimumAge} years old`,
+  },
+  document_valid_for: {
+    code: 2,
+    encodeParam: (predicate, { currentDate }) => packDate(addDays(currentDate, predicate.days)),
+    describe: (predicate) => `Document valid for at least ${predicate.days} more days`,
+  },
+  document_type: {
+    code: 3,
+    encodeParam: (predicate) => encodeDocumentType(predicate.documentType),
+    describe: (predicate) => `Document is a ${predicate.documentType.replace('_', ' ')}`,
+  },
+  nationality_is: {
+    code: 4,
+    encodeParam: (predicate) => encodeNationality(predicate.nationality),
+    describe: (predicate) => `Nationality is ${predicate.nationality}`,
+  },
+  nationality_is_not: {
+    code: 5,
+    encodeParam: (predicate) => encodeNationality(predicate.nationality),
+    describe: (predicate) => `Nationality is not ${predicate.nationality}`,
+  },
+  nationality_in: {
+    code: 6,
+    encodeParam: (predicate) => buildNationalitySet(predicate).root,
+    describe: (predicate) => [
+      predicate.allow ? `Nationality is one of ${predicate.allow.join(', ')}` : null,
+      predicate.deny?.length ? `Nationality is none of ${predicate.deny.join(', ')}` : null,
+    ].filter(Boolean).join('; ') || 'Nationality is any country',
+  },
+};
+
+function getPredicateDefinition<P extends DisclosurePredicate>(predicate: P): PredicateDefinition<P> {
+  const definition = PREDICATE_DEFINITIONS[predicate.type] as PredicateDefinition<P> | undefined;
+  if (!definition) {
+    throw new Error(`Unknown disclosure predicate: ${predicate.type}`);
+  }
+  return definition;
+}
+
+function addDays(date: DateSignals, days: number): DateSignals {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+function daysBetween(from: DateSignals, to: DateSignals): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round(
+    (Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / msPerDay
+  );
+}
+
+/**
+ * Human-readable description of a predicate, for showing the user what is asked
+ */
+export function describePredicate(predicate: DisclosurePredicate): string {
+  return getPredicateDefinition(predicate).describe(predicate);
 }
 
 /**
- * Get full KYC verification circuit
+ * Convenience constructors for composing a DisclosureRequest
  */
-export function getFullKYCCircuit(): string {
-  return `pragma circom 2.1.6;
+export const Predicates = {
+  minAge: (minimumAge: number): DisclosurePredicate => ({ type: 'min_age', minimumAge }),
+  documentValidFor: (days: number): DisclosurePredicate => ({ type: 'document_valid_for', days }),
+  documentType: (documentType: DocumentType): DisclosurePredicate => ({ type: 'document_type', documentType }),
+  nationalityIs: (nationality: string): DisclosurePredicate => ({ type: 'nationality_is', nationality }),
+  nationalityIsNot: (nationality: string): DisclosurePredicate => ({ type: 'nationality_is_not', nationality }),
+  nationalityIn: (spec: NationalityListSpec): DisclosurePredicate => ({ type: 'nationality_in', ...spec }),
+};
 
-include "circomlib/circuits/comparators.circom";
-include "circomlib/circuits/poseidon.circom";
+function assertDisclosureRequest(request: DisclosureRequest): void {
+  if (request.predicates.length === 0) {
+    throw new Error('A disclosure request needs at least one predicate');
+  }
+  if (request.predicates.length > MAX_DISCLOSURE_PREDICATES) {
+    throw new Error(
+      `A disclosure request supports at most ${MAX_DISCLOSURE_PREDICATES} predicates, got ${request.predicates.length}`
+    );
+  }
+  // The circuit computes a single nationality root per proof
+  if (request.predicates.filter(predicate => predicate.type === 'nationality_in').length > 1) {
+    throw new Error('A disclosure request supports at most one nationality list');
+  }
+}
 
-/*
- * Full KYC Verification Circuit
- * Combines: age, document validity, and identity verification
+/**
+ * Encode a request into the circuit's predicateTypes / predicateParams inputs
+ * Unused slots are filled with the always-true predicate
  */
-template FullKYCVerification() {
-    // Private inputs
-    signal input birthYear;
-    signal input birthMonth;
-    signal input birthDay;
-    signal input documentHash; // Hash of document number
-    signal input nameHash;     // Hash of full name
-    signal input nationalityCode;
-    signal input expiryYear;
-    signal input expiryMonth;
-    
-    // Public inputs
-    signal input currentYear;
-    signal input currentMonth;
-    signal input currentDay;
-    signal input minimumAge;
-    signal input allowedNationalityHash; // 0 if any nationality allowed
-    
-    // Outputs
-    signal output isFullyVerified;
-    signal output nullifierHash;
-    
-    // --- Age Verification ---
-    signal ageYears;
-    ageYears <== currentYear - birthYear;
-    
-    component ageCheck = GreaterEqThan(8);
-    ageCheck.in[0] <== ageYears;
-    ageCheck.in[1] <== minimumAge;
-    
-    signal isAdult;
-    isAdult <== ageCheck.out;
-    
-    // --- Document Validity ---
-    component yearCheck = GreaterThan(16);
-    yearCheck.in[0] <== expiryYear * 100 + expiryMonth;
-    yearCheck.in[1] <== currentYear * 100 + currentMonth;
-    
-    signal isDocumentValid;
-    isDocumentValid <== yearCheck.out;
-    
-    // --- Nationality Check ---
-    component natCheck = IsZero();
-    natCheck.in <== allowedNationalityHash;
-    
-    component natMatch = IsEqual();
-    natMatch.in[0] <== nationalityCode;
-    natMatch.in[1] <== allowedNationalityHash;
-    
-    signal isNationalityValid;
-    isNationalityValid <== natCheck.out + (1 - natCheck.out) * natMatch.out;
-    
-    // --- Combined Verification ---
-    isFullyVerified <== isAdult * isDocumentValid * isNationalityValid;
-    
-    // --- Generate Nullifier ---
-    component nullifier = Poseidon(2);
-    nullifier.inputs[0] <== documentHash;
-    nullifier.inputs[1] <== nameHash;
-    
-    nullifierHash <== nullifier.out;
+function encodeDisclosureRequest(
+  request: DisclosureRequest,
+  context: PredicateContext
+): { challenge: string; predicateTypes: string[]; predicateParams: string[] } {
+  const predicateTypes: string[] = [];
+  const predicateParams: string[] = [];
+
+  for (let slot = 0; slot < MAX_DISCLOSURE_PREDICATES; slot++) {
+    const predicate = request.predicates[slot];
+    if (predicate) {
+      const definition = getPredicateDefinition(predicate);
+      predicateTypes.push(String(definition.code));
+      predicateParams.push(toFieldString(definition.encodeParam(predicate, context)));
+    } else {
+      predicateTypes.push(String(PREDICATE_NONE));
+      predicateParams.push('0');
+    }
+  }
+
+  const challenge = request.challenge ? toFieldString(encodeChallenge(request.challenge)) : '0';
+
+  return { challenge, predicateTypes, predicateParams };
+}
+
+/**
+ * Index of each public signal of the selective disclosure circuit
+ */
+const DISCLOSURE_LAYOUT = (() => {
+  const n = MAX_DISCLOSURE_PREDICATES;
+  const range = (start: number) => Array.from({ length: n }, (_, i) => start + i);
+  return {
+    allSatisfied: 0,
+    nullifierHash: 1,
+    commitment: 2,
+    results: range(3),
+    currentYear: 3 + n,
+    currentMonth: 4 + n,
+    currentDay: 5 + n,
+    userAddress: 6 + n,
+    challenge: 7 + n,
+    predicateTypes: range(8 + n),
+    predicateParams: range(8 + 2 * n),
+    length: 8 + 3 * n,
+  };
+})();
+
+/**
+ * Name of every public signal a proof for this request carries, by index
+ */
+export function getPublicSignalLayout(request: DisclosureRequest): string[] {
+  assertDisclosureRequest(request);
+
+  const layout = new Array<string>(DISCLOSURE_LAYOUT.length);
+  layout[DISCLOSURE_LAYOUT.allSatisfied] = 'allSatisfied';
+  layout[DISCLOSURE_LAYOUT.nullifierHash] = 'nullifierHash';
+  layout[DISCLOSURE_LAYOUT.commitment] = 'commitment';
+  layout[DISCLOSURE_LAYOUT.currentYear] = 'currentYear';
+  layout[DISCLOSURE_LAYOUT.currentMonth] = 'currentMonth';
+  layout[DISCLOSURE_LAYOUT.currentDay] = 'currentDay';
+  layout[DISCLOSURE_LAYOUT.userAddress] = 'userAddress';
+  layout[DISCLOSURE_LAYOUT.challenge] = 'challenge';
+
+  for (let slot = 0; slot < MAX_DISCLOSURE_PREDICATES; slot++) {
+    const name = request.predicates[slot]?.type ?? 'none';
+    layout[DISCLOSURE_LAYOUT.results[slot]] = `result[${slot}]:${name}`;
+    layout[DISCLOSURE_LAYOUT.predicateTypes[slot]] = `predicateType[${slot}]:${name}`;
+    layout[DISCLOSURE_LAYOUT.predicateParams[slot]] = `predicateParam[${slot}]:${name}`;
+  }
+
+  return layout;
+}
+
+/**
+ * Generate one proof covering every predicate in the request
+ * The proof reveals, per predicate, only whether it holds
+ */
+export async function generateSelectiveDisclosureProof(
+  kycData: KYCData,
+  userAddress: string,
+  request: DisclosureRequest,
+  options: { signal?: AbortSignal } = {}
+): Promise<ZKProof> {
+  assertDisclosureRequest(request);
+
+  const current = currentDateSignals();
+  const context: PredicateContext = {
+    currentDate: { year: current.currentYear, month: current.currentMonth, day: current.currentDay },
+  };
+
+  const nationalityList = request.predicates.find(
+    (predicate): predicate is Extract<DisclosurePredicate, { type: 'nationality_in' }> =>
+      predicate.type === 'nationality_in'
+  );
+
+  return proveCircuit('selective_disclosure', {
+    ...kycPrivateSignals(encodeKYCData(kycData)),
+    ...nationalityWitnessSignals(
+      nationalityList ? getNationalityWitness(buildNationalitySet(nationalityList), kycData.nationality) : null
+    ),
+    ...current,
+    userAddress: toFieldString(encodeAddress(userAddress)),
+    ...encodeDisclosureRequest(request, context),
+  }, options.signal);
 }
 
-component main {public [currentYear, currentMonth, currentDay, minimumAge, allowedNationalityHash]} = FullKYCVerification();`;
+/**
+ * Verify a selective disclosure proof against the verifier's own request
+ * The predicate slots in the proof must be exactly the ones the request encodes,
+ * so a prover cannot swap in an easier predicate.
+ * This checks the proof alone: whether an issuer attested its commitment is up to the
+ * caller (verifyProofResponse reads it from the contract)
+ */
+export async function verifySelectiveDisclosureProof(
+  proof: ZKProof,
+  request: DisclosureRequest,
+  options: {
+    userAddress?: string;
+    maxProofAgeDays?: number;
+    now?: Date;
+  } = {}
+): Promise<SelectiveDisclosureVerificationResult> {
+  const { userAddress, maxProofAgeDays = 1, now = new Date() } = options;
+  assertDisclosureRequest(request);
+
+  const signals = proof.publicSignals;
+  const reject = (reason: string): SelectiveDisclosureVerificationResult => ({
+    isValid: false,
+    nullifierHash: proof.nullifierHash,
+    publicOutputs: [],
+    predicates: [],
+    reason,
+  });
+
+  if (signals.length !== DISCLOSURE_LAYOUT.length) {
+    return reject(`Expected ${DISCLOSURE_LAYOUT.length} public signals, got ${signals.length}`);
+  }
+
+  const proofDate: DateSignals = {
+    year: Number(signals[DISCLOSURE_LAYOUT.currentYear]),
+    month: Number(signals[DISCLOSURE_LAYOUT.currentMonth]),
+    day: Number(signals[DISCLOSURE_LAYOUT.currentDay]),
+  };
+  if (!isProofDateAccepted(proofDate, now, maxProofAgeDays)) {
+    return reject(`Proof date ${proofDate.year}-${proofDate.month}-${proofDate.day} is outside the accepted window`);
+  }
+
+  if (userAddress && signals[DISCLOSURE_LAYOUT.userAddress] !== toFieldString(encodeAddress(userAddress))) {
+    return reject('Proof is bound to a different wallet');
+  }
+
+  const expected = encodeDisclosureRequest(request, { currentDate: proofDate });
+  if (signals[DISCLOSURE_LAYOUT.challenge] !== expected.challenge) {
+    return reject('Proof does not answer this request\'s challenge');
+  }
+
+  for (let slot = 0; slot < MAX_DISCLOSURE_PREDICATES; slot++) {
+    if (
+      signals[DISCLOSURE_LAYOUT.predicateTypes[slot]] !== expected.predicateTypes[slot] ||
+      signals[DISCLOSURE_LAYOUT.predicateParams[slot]] !== expected.predicateParams[slot]
+    ) {
+      return reject(`Predicate slot ${slot} does not match the request`);
+    }
+  }
+
+  const verification = await verifyZKProof(proof, 'selective_disclosure');
+  const predicates = request.predicates.map((predicate, slot) => ({
+    predicate,
+    satisfied: signals[DISCLOSURE_LAYOUT.results[slot]] === '1',
+  }));
+  const unsatisfied = predicates.filter(outcome => !outcome.satisfied);
+
+  return {
+    ...verification,
+    predicates,
+    reason: unsatisfied.length > 0
+      ? `Not satisfied: ${unsatisfied.map(outcome => describePredicate(outcome.predicate)).join(', ')}`
+      : verification.isValid ? undefined : 'Proof does not verify against the selective disclosure key',
+  };
 }
@@ -9,7 +9,8 @@ export type VerificationStatus =
   | 'verifying' 
   | 'submitting' 
   | 'completed' 
-  | 'failed';
+  | 'failed'
+  | 'cancelled';
 
 export type DocumentType = 
   | 'passport' 
@@ -39,26 +40,212 @@ export interface VerificationResult {
   isValid: boolean;
   timestamp: number;
   proofHash: string;
+  // EIP-191 signature KYCVerifier.submitProof checks; empty if the enclave did not sign
   enclaveSignature: string;
+  // Unix seconds the signed attestation expires
+  expiryTimestamp?: number;
   attributes: {
     isAdult: boolean;
     isNotExpired: boolean;
     isNotSanctioned: boolean;
   };
+  // Unix seconds each attribute that holds is attested until, as signed by the enclave
+  attributeExpiries?: Partial<Record<VerificationAttribute, number>>;
+  // Record commitment the enclave signed with the result, which submitZKProof then accepts proofs over
+  commitment?: string;
+  // The document's nullifier the enclave signed, in the contract's nullifierScope; submitting binds it to the wallet
+  nullifierHash?: string;
+  nullifierScope?: string;
+  documentValidation?: DocumentValidation;
+  sanctions?: SanctionsScreening;
+  addressScreening?: AddressScreening;
+}
+
+// Sub-steps of the iExec TEE task, in order
+export type TeeTaskStage = 'matching' | 'running' | 'result' | 'decrypting';
+
+export interface TeeTask {
+  protectedData: string;
+  dealId: string;
+  taskId: string;
+  txHash?: string;
+  startedAt: number;
+}
+
+export interface TeeTaskProgress {
+  stage: TeeTaskStage;
+  isDone: boolean;
+  // iExec task status while the task runs, e.g. ACTIVE or REVEALING
+  taskStatus?: string;
+}
+
+// Last step a verification session got through; each one costs gas or a TEE run
+// A 'submitted' session is done, and kept so the verification can be renewed from its protected data
+export type VerificationSessionStep = 'protected' | 'granted' | 'task' | 'verified' | 'submitted';
+
+/**
+ * How far a DataProtector run got for one wallet, kept across reloads
+ * Holds addresses, IDs, the ZK proof and the TEE result, never identity data
+ */
+export interface VerificationSession {
+  version: 1;
+  owner: string;
+  step: VerificationSessionStep;
+  protectedDataAddress: string;
+  commitment: string;
+  zkProof: ZKProof;
+  challenge?: string;         // proof request challenge the ZK proof answers
+  teeTask?: TeeTask;
+  verificationResult?: VerificationResult;
+  startedAt: number;
+  updatedAt: number;
+}
+
+export interface DocumentValidation {
+  isValid: boolean;
+  rule: string;       // rule applied, e.g. "aadhaar" or "national_id:ES"
+  errors: string[];
+}
+
+export interface SanctionsMatch {
+  source: string;       // list the entry comes from, e.g. OFAC-SDN
+  entryId: string;
+  matchedName: string;
+  score: number;        // name similarity scaled by date-of-birth agreement, 0..1
+  nameScore: number;
+  reasons: string[];
+  programs: string[];
+}
+
+export interface SanctionsScreening {
+  isMatch: boolean;
+  threshold: number;
+  listsChecked: { source: string; version: string }[];
+  matches: SanctionsMatch[];
+}
+
+export type AddressRiskLevel = 'sanctioned' | 'high' | 'medium';
+
+export interface AddressRiskEntry {
+  address: string;          // EIP-55 checksummed
+  chainIds: number[] | null; // null = listed on every chain
+  risk: AddressRiskLevel;
+  source: string;
+  label?: string;
+}
+
+/**
+ * Verdict on the connected wallet: sanctioned hits block verification,
+ * other hits only flag it
+ */
+export interface AddressScreening {
+  address: string;
+  chainId: number | null;
+  status: 'clear' | 'flagged' | 'blocked';
+  hits: AddressRiskEntry[];
+  snapshotVersion: string;
+}
+
+export interface Groth16Proof {
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+  protocol: string;
+  curve: string;
 }
 
 export interface ZKProof {
-  proof: string;
+  proof: Groth16Proof;
   publicSignals: string[];
   nullifierHash: string;
 }
 
+/**
+ * A circuit's Groth16 verification key, as `snarkjs zkey export verificationkey` writes it
+ * Points are decimal strings in projective form; G2 coordinates are [real, imaginary]
+ */
+export interface Groth16VerificationKey {
+  protocol: string;
+  curve: string;
+  nPublic: number;
+  vk_alpha_1: string[];
+  vk_beta_2: string[][];
+  vk_gamma_2: string[][];
+  vk_delta_2: string[][];
+  IC: string[][];
+}
+
+export type VerificationAttribute = keyof VerificationResult['attributes'];
+
+/**
+ * What a relying dApp asks the user to prove
+ * Signed by the relying dApp (EIP-712) and handed over via URL or postMessage
+ */
+export interface ProofRequest {
+  version: 1;
+  verifier: {
+    address: string;          // signer of the request
+    name: string;
+    origin: string;           // where the response is posted back to
+  };
+  requiredAttributes: VerificationAttribute[];
+  minimumAge: number;
+  allowedNationalities: string[]; // empty = any nationality
+  deniedNationalities: string[];  // removed from the allowed set
+  freshness: number;          // seconds a proof stays acceptable after generation
+  challenge: string;          // 32-byte hex nonce bound into the proof
+  issuedAt: number;           // unix seconds
+  expiresAt: number;          // unix seconds
+}
+
+export interface SignedProofRequest {
+  request: ProofRequest;
+  signature: string;
+}
+
 export interface OnChainVerification {
   userAddress: string;
   isVerified: boolean;
   verificationTimestamp: number;
   proofHash: string;
   expiryTimestamp: number;
+  // bytes32 ID of the issuer whose enclave signed the result
+  issuerId: string;
+  // Attributes that hold now: attested, not expired, and within the issuer's scope
+  attributes: VerificationAttribute[];
+  // Unix seconds each attested attribute expires, whether or not it still holds
+  attributeExpiries: Partial<Record<VerificationAttribute, number>>;
+}
+
+// 'inactive' is a verification that has not expired but does not hold, e.g. revoked or from a suspended issuer
+export type VerificationExpiryState = 'active' | 'expiring' | 'expired' | 'inactive';
+
+/**
+ * When a wallet's on-chain verification lapses, for reminders and renewal
+ */
+export interface VerificationExpiry {
+  state: VerificationExpiryState;
+  // Unix seconds the first attested attribute expires
+  expiresAt: number;
+  secondsLeft: number;
+  // Unix seconds the isNotExpired attribute ends, if it was attested
+  documentExpiresAt: number | null;
+  // The document expires before a full validity period, so renewing needs a new document
+  endsWithDocument: boolean;
+}
+
+export type IssuerStatus = 'active' | 'suspended';
+
+/**
+ * A TEE issuer registered with KYCVerifier (an iExec app and the enclave key it signs with)
+ * Its scope lists the attributes its verifications vouch for
+ */
+export interface VerificationIssuer {
+  id: string;
+  signer: string;
+  attributeScope: VerificationAttribute[];
+  status: IssuerStatus;
+  jurisdiction: string;
 }
 
 export interface IExecConfig {
@@ -0,0 +1,47 @@
+// ISO 3166-1 country codes
+//
+// Nationalities are encoded into the circuits by their ISO 3166-1 numeric
+// code, so allowlists and denylists can be built as Merkle trees of codes.
+// The table is shared with the TEE app (decentralized-iapp/src/documents/countries.js).
+
+import {
+  COUNTRIES,
+  findCountry,
+  getCountryCode,
+} from '@/decentralized-iapp/src/documents/countries.js';
+import type { Country } from '@/decentralized-iapp/src/documents/countries.js';
+
+export { COUNTRIES, findCountry, getCountryCode };
+export type { Country };
+
+/**
+ * Named groups of countries (alpha-3), for use in allow/deny lists
+ */
+export const COUNTRY_GROUPS: Record<string, readonly string[]> = {
+  // European Union member states
+  EU: [
+    'AUT', 'BEL', 'BGR', 'HRV', 'CYP', 'CZE', 'DNK', 'EST', 'FIN', 'FRA', 'DEU',
+    'GRC', 'HUN', 'IRL', 'ITA', 'LVA', 'LTU', 'LUX', 'MLT', 'NLD', 'POL', 'PRT',
+    'ROU', 'SVK', 'SVN', 'ESP', 'SWE',
+  ],
+  // European Economic Area (EU + Iceland, Liechtenstein, Norway)
+  EEA: [
+    'AUT', 'BEL', 'BGR', 'HRV', 'CYP', 'CZE', 'DNK', 'EST', 'FIN', 'FRA', 'DEU',
+    'GRC', 'HUN', 'IRL', 'ITA', 'LVA', 'LTU', 'LUX', 'MLT', 'NLD', 'POL', 'PRT',
+    'ROU', 'SVK', 'SVN', 'ESP', 'SWE', 'ISL', 'LIE', 'NOR',
+  ],
+};
+
+/**
+ * Expand group names (e.g. "EU") and country identifiers into numeric codes
+ */
+export function resolveCountryCodes(values: readonly string[]): number[] {
+  const codes = new Set<number>();
+  for (const value of values) {
+    const group = COUNTRY_GROUPS[value.trim().toUpperCase()];
+    for (const member of group ?? [value]) {
+      codes.add(getCountryCode(member));
+    }
+  }
+  return Array.from(codes).sort((a, b) => a - b);
+}
@@ -1,6 +1,7 @@
 // Cryptographic utilities for KYC data protection
 
-import type { KYCData, ZKProof } from '@/lib/types/kyc';
+import type { KYCData } from '@/lib/types/kyc';
+import { computeCommitment, computeNullifier } from '@/decentralized-iapp/src/protected-data/commitment.js';
 
 /**
  * Generate a SHA-256 hash of the input data
@@ -32,57 +33,47 @@ export async function hashData(data: string): Promise<string> {
   }
 }
 
+/**
+ * Generate a SHA-256 hash of binary data, e.g. an uploaded document image
+ */
+export async function hashBytes(data: ArrayBuffer): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Web Crypto API not available');
+  }
+  if (data.byteLength === 0) {
+    throw new Error('Cannot hash empty data');
+  }
+
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(hashBuffer), b => b.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * Generate a unique nullifier hash for ZK proofs
  * This prevents double-verification while maintaining privacy
+ *
+ * Matches the full KYC circuit: Poseidon(documentType, documentHash, scope), where
+ * scope is nullifierScope (encodeNullifierScope) or, when that is 0, userAddress.
+ * Per wallet, a document has a different nullifier for every wallet; scoped to an
+ * application, it has one nullifier there whichever wallet proves it.
  */
 export async function generateNullifierHash(
-  documentHash: string, 
-  userAddress: string
+  kycData: KYCData,
+  userAddress: string,
+  nullifierScope: bigint = BigInt(0)
 ): Promise<string> {
-  const combined = `${documentHash}:${userAddress}:nullifier`;
-  return hashData(combined);
+  return computeNullifier(kycData, userAddress, nullifierScope);
 }
 
 /**
  * Create a commitment hash for the KYC data
  * This is what gets stored on-chain (not the actual data)
+ *
+ * Matches the full KYC circuit:
+ * Poseidon(documentType, documentHash, nameHash, nationalityCode, birthDate, expiryDate)
  */
 export async function createCommitment(kycData: KYCData): Promise<string> {
-  const dataString = JSON.stringify({
-    documentType: kycData.documentType,
-    documentNumber: kycData.documentNumber,
-    dateOfBirth: kycData.dateOfBirth,
-    nationality: kycData.nationality,
-  });
-  return hashData(dataString);
-}
-
-/**
- * Simulate ZK proof generation for age verification
- * In production, this would use a ZK circuit (snarkjs/circom)
- */
-export async function generateAgeProof(
-  dateOfBirth: string,
-  minimumAge: number = 18
-): Promise<ZKProof> {
-  const birthDate = new Date(dateOfBirth);
-  const today = new Date();
-  const age = today.getFullYear() - birthDate.getFullYear();
-  
-  // Simulated proof - in production, use snarkjs with a proper circuit
-  const proofInput = `${dateOfBirth}:${minimumAge}:${age >= minimumAge}`;
-  const proofHash = await hashData(proofInput);
-  const nullifierHash = await hashData(`${proofHash}:nullifier`);
-  
-  return {
-    proof: proofHash,
-    publicSignals: [
-      age >= minimumAge ? '1' : '0', // isAdult signal
-      minimumAge.toString(),
-    ],
-    nullifierHash,
-  };
+  return computeCommitment(kycData);
 }
 
 /**
@@ -0,0 +1,121 @@
+// Field-element encoding for ZK circuit inputs
+//
+// Every value that enters a circuit (or a Poseidon hash that a circuit
+// recomputes) is encoded here, so the TypeScript side and the Circom side
+// always agree on the exact field elements. The encodings the record
+// commitment is built from are shared with the TEE app
+// (decentralized-iapp/src/protected-data/commitment.js).
+
+import {
+  DOCUMENT_TYPE_CODES,
+  encodeDate,
+  encodeDocumentType,
+  hashString,
+  normalizeDocumentNumber,
+  normalizeName,
+  packDate,
+  packString,
+  poseidonHash,
+} from '@/decentralized-iapp/src/protected-data/commitment.js';
+import type { DateSignals } from '@/decentralized-iapp/src/protected-data/commitment.js';
+import type { KYCData } from '@/lib/types/kyc';
+import { getCountryCode } from '@/lib/utils/countries';
+
+export {
+  DOCUMENT_TYPE_CODES,
+  encodeDate,
+  encodeDocumentType,
+  hashString,
+  normalizeDocumentNumber,
+  normalizeName,
+  packDate,
+  packString,
+  poseidonHash,
+};
+export type { DateSignals };
+
+// Order of the BN254 scalar field used by the Circom circuits
+export const SNARK_SCALAR_FIELD = BigInt(
+  '21888242871839275222246405745257275088548364400416034343698204186575808495617'
+);
+
+/**
+ * KYC data encoded as the private inputs of the full KYC circuit
+ */
+export interface KYCFieldEncoding {
+  documentType: bigint;
+  documentHash: bigint;
+  nameHash: bigint;
+  nationalityCode: bigint;
+  birthDate: DateSignals;
+  expiryDate: DateSignals;
+}
+
+/**
+ * Render a field element the way snarkjs renders public signals
+ */
+export function toFieldString(value: bigint): string {
+  return value.toString();
+}
+
+export function encodeDocumentNumber(documentNumber: string): bigint {
+  return hashString(normalizeDocumentNumber(documentNumber));
+}
+
+export function encodeName(fullName: string): bigint {
+  return hashString(normalizeName(fullName));
+}
+
+/**
+ * Encode a nationality as its ISO 3166-1 numeric code (never 0)
+ * Accepts a country name or alpha-2/alpha-3 code; unknown values throw
+ */
+export function encodeNationality(nationality: string): bigint {
+  return BigInt(getCountryCode(nationality));
+}
+
+/**
+ * Encode an EVM address as a field element (160 bits, always fits)
+ */
+export function encodeAddress(address: string): bigint {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+  return BigInt(address);
+}
+
+/**
+ * Encode an application's name as the nullifier scope of the full KYC circuit
+ * Above every address, so a scoped nullifier never equals a wallet's per-wallet one
+ */
+export function encodeNullifierScope(application: string): bigint {
+  const scope = hashString(`zkkyc-nullifier-scope:${application}`);
+  if (scope < BigInt(1) << BigInt(160)) {
+    throw new Error(`Nullifier scope for ${application} falls in the address range; pick another name`);
+  }
+  return scope;
+}
+
+/**
+ * Encode a verifier challenge (hex nonce) as a field element
+ */
+export function encodeChallenge(challenge: string): bigint {
+  if (!/^0x[0-9a-fA-F]{1,64}$/.test(challenge)) {
+    throw new Error(`Invalid challenge: ${challenge}`);
+  }
+  return BigInt(challenge) % SNARK_SCALAR_FIELD;
+}
+
+/**
+ * Encode a KYC record into the circuit's private inputs
+ */
+export function encodeKYCData(kycData: KYCData): KYCFieldEncoding {
+  return {
+    documentType: encodeDocumentType(kycData.documentType),
+    documentHash: encodeDocumentNumber(kycData.documentNumber),
+    nameHash: encodeName(kycData.fullName),
+    nationalityCode: encodeNationality(kycData.nationality),
+    birthDate: encodeDate(kycData.dateOfBirth),
+    expiryDate: encodeDate(kycData.expiryDate),
+  };
+}
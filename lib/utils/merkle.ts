@@ -0,0 +1,86 @@
+// Poseidon Merkle trees matching circuits/lib/merkle.circom
+//
+// Fixed-depth binary trees; empty leaves are 0. Node = Poseidon(left, right).
+
+import { poseidonHash } from '@/lib/utils/field';
+
+export interface MerkleTree {
+  depth: number;
+  // layers[0] are the (padded) leaves, layers[depth] is [root]
+  layers: bigint[][];
+  root: bigint;
+}
+
+export interface MerkleProof {
+  leaf: bigint;
+  root: bigint;
+  pathElements: bigint[];
+  // 0 = current node is the left child, 1 = right child
+  pathIndices: number[];
+}
+
+/**
+ * Build a tree over the given leaves, padded with zeros to 2^depth
+ */
+export function buildMerkleTree(leaves: bigint[], depth: number): MerkleTree {
+  const capacity = 1 << depth;
+  if (leaves.length > capacity) {
+    throw new Error(`A depth-${depth} tree holds at most ${capacity} leaves, got ${leaves.length}`);
+  }
+
+  const layers: bigint[][] = [
+    [...leaves, ...new Array<bigint>(capacity - leaves.length).fill(BigInt(0))],
+  ];
+
+  for (let level = 0; level < depth; level++) {
+    const current = layers[level];
+    const next: bigint[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(poseidonHash([current[i], current[i + 1]]));
+    }
+    layers.push(next);
+  }
+
+  return { depth, layers, root: layers[depth][0] };
+}
+
+/**
+ * Inclusion witness for a leaf, or null if the leaf is not in the tree
+ */
+export function getMerkleProof(tree: MerkleTree, leaf: bigint): MerkleProof | null {
+  let index = tree.layers[0].indexOf(leaf);
+  if (index === -1) {
+    return null;
+  }
+
+  const pathElements: bigint[] = [];
+  const pathIndices: number[] = [];
+
+  for (let level = 0; level < tree.depth; level++) {
+    const isRight = index % 2;
+    pathElements.push(tree.layers[level][isRight ? index - 1 : index + 1]);
+    pathIndices.push(isRight);
+    index = Math.floor(index / 2);
+  }
+
+  return { leaf, root: tree.root, pathElements, pathIndices };
+}
+
+/**
+ * Recompute the root from a witness, as the circuit does
+ */
+export function computeMerkleRoot(
+  leaf: bigint,
+  pathElements: bigint[],
+  pathIndices: number[]
+): bigint {
+  return pathElements.reduce((node, sibling, level) => (
+    pathIndices[level]
+      ? poseidonHash([sibling, node])
+      : poseidonHash([node, sibling])
+  ), leaf);
+}
+
+export function verifyMerkleProof(proof: MerkleProof): boolean {
+  return computeMerkleRoot(proof.leaf, proof.pathElements, proof.pathIndices) === proof.root;
+}
@@ -0,0 +1,83 @@
+// Nationality allow/deny lists as Merkle trees of ISO 3166-1 numeric codes
+//
+// A proof shows membership of the holder's nationality code in a tree. A
+// denylist is turned into the tree of every ISO 3166-1 country not on it, so
+// non-membership is proven as membership of the complement; a nationality
+// outside ISO 3166-1 can never satisfy either.
+
+import { COUNTRIES, resolveCountryCodes } from '@/lib/utils/countries';
+import type { MerkleProof, MerkleTree } from '@/lib/utils/merkle';
+import { buildMerkleTree, getMerkleProof } from '@/lib/utils/merkle';
+import { encodeNationality } from '@/lib/utils/field';
+
+/**
+ * Depth of nationality trees; must match the circuits (2^8 = 256 >= 249 countries)
+ */
+export const NATIONALITY_TREE_DEPTH = 8;
+
+export interface NationalityListSpec {
+  // Country names, alpha-2/alpha-3 codes or group names (e.g. "EU"); omitted = every country
+  allow?: readonly string[];
+  // Same format; removed from the allowed set
+  deny?: readonly string[];
+}
+
+export interface NationalitySet {
+  codes: number[];
+  tree: MerkleTree;
+  root: bigint;
+}
+
+const setCache = new Map<string, NationalitySet>();
+
+function cacheKey(spec: NationalityListSpec): string {
+  return JSON.stringify({
+    allow: spec.allow ? resolveCountryCodes(spec.allow) : null,
+    deny: spec.deny ? resolveCountryCodes(spec.deny) : [],
+  });
+}
+
+/**
+ * Build the tree of accepted nationality codes for an allow/deny spec
+ * Leaves are sorted so verifier and prover derive the same root independently
+ */
+export function buildNationalitySet(spec: NationalityListSpec): NationalitySet {
+  const key = cacheKey(spec);
+  const cached = setCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const allowed = spec.allow
+    ? resolveCountryCodes(spec.allow)
+    : COUNTRIES.map(country => country.numeric).sort((a, b) => a - b);
+  const denied = new Set(spec.deny ? resolveCountryCodes(spec.deny) : []);
+  const codes = allowed.filter(code => !denied.has(code));
+
+  if (codes.length === 0) {
+    throw new Error('Nationality list excludes every country');
+  }
+
+  const tree = buildMerkleTree(codes.map(code => BigInt(code)), NATIONALITY_TREE_DEPTH);
+  const set = { codes, tree, root: tree.root };
+  setCache.set(key, set);
+  return set;
+}
+
+/**
+ * Inclusion witness for a nationality, or null if it is not accepted
+ */
+export function getNationalityWitness(set: NationalitySet, nationality: string): MerkleProof | null {
+  return getMerkleProof(set.tree, encodeNationality(nationality));
+}
+
+/**
+ * Placeholder witness for proofs that do not check a nationality list
+ * Any path is fine: the circuit only compares its root when asked to
+ */
+export function emptyNationalityWitness(): Pick<MerkleProof, 'pathElements' | 'pathIndices'> {
+  return {
+    pathElements: new Array<bigint>(NATIONALITY_TREE_DEPTH).fill(BigInt(0)),
+    pathIndices: new Array<number>(NATIONALITY_TREE_DEPTH).fill(0),
+  };
+}
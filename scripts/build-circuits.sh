@@ -0,0 +1,64 @@
+#!/usr/bin/env bash
+# Compile the Circom circuits in circuits/ into the Groth16 artifacts the app
+# loads at runtime: public/circuits/<name>/<name>.wasm, <name>_final.zkey and
+# verification_key.json.
+#
+# Usage: pnpm circuits:build [circuit ...]
+#
+# Set PTAU to a Powers of Tau file from a public ceremony for production keys.
+# Without it a single-contributor ceremony is generated locally, which is only
+# suitable for development.
+
+set -euo pipefail
+
+ROOT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")/.." && pwd)"
+BUILD_DIR="$ROOT_DIR/build/circuits"
+OUT_DIR="$ROOT_DIR/public/circuits"
+PTAU_POWER="${PTAU_POWER:-13}"
+PTAU="${PTAU:-$BUILD_DIR/pot${PTAU_POWER}_final.ptau}"
+
+CIRCOM="$ROOT_DIR/node_modules/.bin/circom2"
+SNARKJS="$ROOT_DIR/node_modules/.bin/snarkjs"
+
+if [ "$#" -gt 0 ]; then
+  CIRCUITS=("$@")
+else
+  CIRCUITS=(age_verification full_kyc selective_disclosure)
+fi
+
+mkdir -p "$BUILD_DIR" "$OUT_DIR"
+
+entropy() {
+  head -c 32 /dev/urandom | od -An -tx1 | tr -d ' \n'
+}
+
+if [ ! -f "$PTAU" ]; then
+  echo "==> Generating development Powers of Tau (2^$PTAU_POWER)"
+  "$SNARKJS" powersoftau new bn128 "$PTAU_POWER" "$BUILD_DIR/pot_0000.ptau"
+  "$SNARKJS" powersoftau contribute "$BUILD_DIR/pot_0000.ptau" "$BUILD_DIR/pot_0001.ptau" \
+    --name="zkKYC development" -e="$(entropy)"
+  "$SNARKJS" powersoftau prepare phase2 "$BUILD_DIR/pot_0001.ptau" "$PTAU"
+  rm -f "$BUILD_DIR/pot_0000.ptau" "$BUILD_DIR/pot_0001.ptau"
+fi
+
+for circuit in "${CIRCUITS[@]}"; do
+  echo "==> Building $circuit"
+  target="$OUT_DIR/$circuit"
+  mkdir -p "$target"
+
+  "$CIRCOM" "$ROOT_DIR/circuits/$circuit.circom" \
+    --r1cs --wasm --O2 \
+    -l "$ROOT_DIR/node_modules" \
+    -o "$BUILD_DIR"
+
+  "$SNARKJS" groth16 setup "$BUILD_DIR/$circuit.r1cs" "$PTAU" "$BUILD_DIR/${circuit}_0000.zkey"
+  "$SNARKJS" zkey contribute "$BUILD_DIR/${circuit}_0000.zkey" "$target/${circuit}_final.zkey" \
+    --name="zkKYC development" -e="$(entropy)"
+  "$SNARKJS" zkey export verificationkey "$target/${circuit}_final.zkey" "$target/verification_key.json"
+
+  cp "$BUILD_DIR/${circuit}_js/$circuit.wasm" "$target/$circuit.wasm"
+
+  node "$ROOT_DIR/scripts/check-circuit-vectors.mjs" "$circuit"
+done
+
+echo "==> Circuit artifacts written to $OUT_DIR"
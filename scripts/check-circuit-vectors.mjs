@@ -0,0 +1,50 @@
+// Run a compiled circuit's witness calculator over circuits/vectors/<circuit>.json
+// and compare its outputs with the values the TypeScript encoders produced.
+//
+// Usage: node scripts/check-circuit-vectors.mjs <circuit>
+
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const circuit = process.argv[2];
+if (!circuit) {
+  console.error('Usage: node scripts/check-circuit-vectors.mjs <circuit>');
+  process.exit(1);
+}
+
+const vectorsPath = path.join(rootDir, 'circuits', 'vectors', `${circuit}.json`);
+if (!existsSync(vectorsPath)) {
+  console.log(`No vectors for ${circuit}, skipping`);
+  process.exit(0);
+}
+
+const buildDir = path.join(rootDir, 'build', 'circuits', `${circuit}_js`);
+const { outputs, cases } = JSON.parse(await readFile(vectorsPath, 'utf8'));
+const witnessCalculator = require(path.join(buildDir, 'witness_calculator.js'));
+const calculator = await witnessCalculator(await readFile(path.join(buildDir, `${circuit}.wasm`)));
+
+let failures = 0;
+for (const vector of cases) {
+  // Witness layout: [1, ...outputs, ...public inputs, ...private inputs, ...]
+  const witness = await calculator.calculateWitness(vector.input, true);
+
+  outputs.forEach((name, index) => {
+    const actual = witness[index + 1].toString();
+    const expected = vector.expected[name];
+    if (actual !== expected) {
+      failures++;
+      console.error(`✗ ${vector.name}: ${name} = ${actual}, expected ${expected}`);
+    }
+  });
+}
+
+if (failures > 0) {
+  process.exit(1);
+}
+console.log(`✓ ${circuit}: ${cases.length} vectors match`);
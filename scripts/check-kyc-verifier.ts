@@ -0,0 +1,670 @@
+// Run KYCVerifier on a local devnet (scripts/devnet.ts) through the functions
+// in lib/services/contract.ts: the enclave signature check, submitting a
+// proof, reading it back, attribute and proof expiry, the issuer registry,
+// roles, upgrades, zero-knowledge submissions and revocation. The
+// zero-knowledge checks need the full_kyc circuit (pnpm circuits:build).
+//
+// Usage: pnpm contracts:check
+
+import { getAddress, keccak256, toHex } from 'viem';
+import type { Address, Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import {
+  ContractError,
+  EnclaveSignatureError,
+  KYC_VERIFIER_ABI,
+  NullifierInUseError,
+  REVOKER_ROLE,
+  VERIFICATION_ATTRIBUTES,
+  ZK_ISSUER_ID,
+  addIssuer,
+  checkEnclaveSignature,
+  checkOnChainVerification,
+  checkVerifiedFor,
+  createContractClients,
+  decodeAttributeMask,
+  encodeAttributeMask,
+  getAttestingIssuer,
+  getIssuer,
+  getIssuers,
+  getNullifierOwner,
+  getNullifierScope,
+  getVerificationDetails,
+  grantVerifierRole,
+  hasVerifierRole,
+  isWalletRevoked,
+  reactivateIssuer,
+  reinstateWallet,
+  releaseNullifier,
+  revokeVerification,
+  rotateIssuerSigner,
+  setIssuerScope,
+  setNullifierScope,
+  submitVerificationProof,
+  submitZKProof,
+  suspendIssuer,
+  toContractError,
+  toGroth16Calldata,
+  toIssuerId,
+  upgradeVerifier,
+  verifyZKProofOnChain,
+} from '@/lib/services/contract';
+import {
+  TEST_ENCLAVE_ADDRESS,
+  TEST_ENCLAVE_PRIVATE_KEY,
+  attributeMaskOf,
+  signAttestation,
+  toAttestation,
+} from '@/lib/services/enclave-signer';
+import { PROOF_RESPONSE_MESSAGE, toDisclosureRequest, verifyProofResponse } from '@/lib/services/proof-request';
+import {
+  generateFullKYCProof,
+  generateSelectiveDisclosureProof,
+  getProofCommitment,
+  verifyFullKYCProof,
+  verifyZKProof,
+} from '@/lib/services/zkproof';
+import { generateNullifierHash } from '@/lib/utils/crypto';
+import { encodeNullifierScope } from '@/lib/utils/field';
+import type { KYCData, ProofRequest, VerificationAttribute, VerificationResult, ZKProof } from '@/lib/types/kyc';
+import { DEVNET_ISSUER, deployImplementation, devnetChain, startDevnet } from './devnet';
+import type { Devnet } from './devnet';
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+// An adult with a document valid for years; the proofs below are made from it
+const ZK_KYC_DATA: KYCData = {
+  documentType: 'passport',
+  documentNumber: 'X1234567',
+  fullName: 'Bob Example',
+  dateOfBirth: '1990-04-12',
+  nationality: 'FR',
+  expiryDate: `${new Date().getFullYear() + 5}-01-01`,
+};
+
+// A document nullifier the TEE results below carry
+const TEE_NULLIFIER = '424242';
+
+// Where an ERC1967 proxy keeps its implementation address
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+/**
+ * A TEE result for the user, signed with the given enclave key
+ * attributeExpiries lists the attributes that hold; by default all of them, until the proof expires
+ * commitment is the record commitment the enclave vouches for, by default one no proof is made over
+ * nullifierHash is the document's nullifier in nullifierScope, by default one only the user's results carry
+ */
+async function signedResult(
+  signerKey: Hex,
+  user: Address,
+  expiryTimestamp: number,
+  { isValid = true, attributeExpiries, commitment = '1', nullifierHash = BigInt(user).toString(), nullifierScope = '0' }: {
+    isValid?: boolean;
+    attributeExpiries?: Partial<Record<VerificationAttribute, number>>;
+    commitment?: string;
+    nullifierHash?: string;
+    nullifierScope?: string;
+  } = {}
+): Promise<VerificationResult> {
+  const expiries = attributeExpiries ?? Object.fromEntries(VERIFICATION_ATTRIBUTES.map(attribute => [attribute, expiryTimestamp]));
+  const attributes = {
+    isAdult: expiries.isAdult !== undefined,
+    isNotExpired: expiries.isNotExpired !== undefined,
+    isNotSanctioned: expiries.isNotSanctioned !== undefined,
+  };
+  const proofHash = keccak256(toHex(`${user}:${expiryTimestamp}`));
+  const attestation = await signAttestation({
+    user,
+    isValid,
+    proofHash,
+    expiryTimestamp,
+    attributes: attributeMaskOf(attributes),
+    attributeExpiries: VERIFICATION_ATTRIBUTES.map(attribute => expiries[attribute] ?? 0),
+    commitment,
+    nullifierHash,
+    nullifierScope,
+  }, signerKey);
+  return {
+    isValid,
+    timestamp: Date.now(),
+    proofHash,
+    enclaveSignature: attestation.signature,
+    expiryTimestamp,
+    attributes,
+    attributeExpiries: expiries,
+    commitment,
+    nullifierHash,
+    nullifierScope,
+  };
+}
+
+async function chainTime(devnet: Devnet): Promise<number> {
+  const block = await devnet.provider.request({ method: 'eth_getBlockByNumber', params: ['latest', false] }) as { timestamp: Hex };
+  return Number(BigInt(block.timestamp));
+}
+
+async function expectRevert(action: Promise<unknown>, reason: string) {
+  try {
+    await action;
+  } catch (error) {
+    if (error instanceof ContractError && error.reason === reason) return;
+    throw new Error(`expected revert "${reason}", got ${error instanceof Error ? error.message : String(error)}`);
+  }
+  throw new Error(`expected revert "${reason}", but the transaction succeeded`);
+}
+
+function expect(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+async function main() {
+  console.log('==> Compiling and deploying KYCVerifier');
+  const devnet = await startDevnet();
+  const [owner, alice, bob, carol, dave] = devnet.accounts;
+  const options = { address: devnet.verifierAddress };
+  const clientsFor = (account: Address) => createContractClients(devnet.provider, account, devnetChain);
+  const { publicClient } = clientsFor(owner);
+
+  // A second issuer, registered by the checks below
+  const euIssuerId = toIssuerId('zkkyc-eu');
+  const euKey = generatePrivateKey();
+  const euRotatedKey = generatePrivateKey();
+
+  // The ZK issuer is registered alongside the devnet issuer when the Groth16 verifier is deployed
+  const baseIssuerCount = devnet.zkVerifierAddress ? 2 : 1;
+  let bobProof: ZKProof;
+  // bob's document, proven by carol in the nullifier scope
+  let carolProof: ZKProof;
+
+  // The revert reason the contract gives for a TEE result, without the app's checks in front of it
+  async function submitProofRevert(user: Address, result: VerificationResult): Promise<string | undefined> {
+    const attestation = toAttestation(user, result)!;
+    const reverted = await publicClient.simulateContract({
+      address: devnet.verifierAddress,
+      abi: KYC_VERIFIER_ABI,
+      functionName: 'submitProof',
+      args: [
+        user,
+        attestation.isValid,
+        attestation.proofHash,
+        result.enclaveSignature as Hex,
+        BigInt(attestation.expiryTimestamp),
+        BigInt(attestation.attributes),
+        attestation.attributeExpiries.map(BigInt),
+        BigInt(attestation.commitment),
+        BigInt(attestation.nullifierHash),
+        BigInt(attestation.nullifierScope),
+      ],
+      account: user,
+    }).then(() => null, error => toContractError('submitProof', error));
+    return reverted?.reason;
+  }
+
+  const checks: [string, () => Promise<void>][] = [
+    ['an unverified user is not verified', async () => {
+      expect(!(await checkOnChainVerification(publicClient, alice, options)), 'isVerified returned true');
+    }],
+    ['submitProof with the enclave signature verifies the user', async () => {
+      const expiry = (await chainTime(devnet)) + 365 * 24 * HOUR;
+      const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, alice, expiry);
+      const receipt = await submitVerificationProof(clientsFor(alice), alice, result, options);
+
+      expect(receipt.gasUsed > BigInt(0), 'receipt has no gas used');
+      expect(await checkOnChainVerification(publicClient, alice, options), 'isVerified returned false');
+      const details = await getVerificationDetails(publicClient, alice, options);
+      expect(details?.isVerified === true, 'getVerification is not verified');
+      expect(details?.proofHash === result.proofHash, `proofHash ${details?.proofHash}, expected ${result.proofHash}`);
+      expect(details?.expiryTimestamp === expiry, `expiryTimestamp ${details?.expiryTimestamp}, expected ${expiry}`);
+      expect(details?.issuerId === DEVNET_ISSUER.id, `issuerId ${details?.issuerId}, expected ${DEVNET_ISSUER.id}`);
+      expect(details?.attributes.join() === VERIFICATION_ATTRIBUTES.join(), `attributes ${details?.attributes.join()}`);
+      expect(details?.attributeExpiries.isAdult === expiry, `isAdult expires ${details?.attributeExpiries.isAdult}, expected ${expiry}`);
+    }],
+    ['submitProof binds the document\'s nullifier to the user', async () => {
+      const expiry = (await chainTime(devnet)) + 365 * 24 * HOUR;
+      const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, dave, expiry, { nullifierHash: TEE_NULLIFIER });
+      const { blockNumber } = await submitVerificationProof(clientsFor(dave), dave, result, options);
+
+      expect(await getNullifierOwner(publicClient, TEE_NULLIFIER, options) === dave, 'the nullifier is not bound to dave');
+      const [bound] = await publicClient.getContractEvents({
+        address: devnet.verifierAddress,
+        abi: KYC_VERIFIER_ABI,
+        eventName: 'NullifierBound',
+        fromBlock: blockNumber,
+        toBlock: blockNumber,
+      });
+      expect(bound?.args.user === dave && bound.args.nullifierHash === BigInt(TEE_NULLIFIER), 'no NullifierBound event for dave');
+    }],
+    ['submitProof refuses a document bound to another wallet', async () => {
+      const expiry = (await chainTime(devnet)) + 365 * 24 * HOUR;
+      const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, carol, expiry, { nullifierHash: TEE_NULLIFIER });
+      const error = await submitVerificationProof(clientsFor(carol), carol, result, options).catch(error => error);
+      expect(error instanceof NullifierInUseError && error.boundTo === dave && error.functionName === 'submitProof', `got ${error}`);
+
+      // And refused by the contract itself
+      const reason = await submitProofRevert(carol, result);
+      expect(reason === 'Nullifier already used', `simulation gave ${reason ?? 'no revert'}`);
+    }],
+    ['the attribute mask helpers match the contract\'s bits', async () => {
+      const { abi } = devnet.compiled.implementation;
+      const read = (functionName: string) => publicClient.readContract({ address: devnet.verifierAddress, abi, functionName }) as Promise<bigint>;
+      expect(encodeAttributeMask(['isAdult']) === await read('ATTR_ADULT'), 'isAdult does not match ATTR_ADULT');
+      expect(encodeAttributeMask(['isNotExpired']) === await read('ATTR_NOT_EXPIRED'), 'isNotExpired does not match ATTR_NOT_EXPIRED');
+      expect(encodeAttributeMask(['isNotSanctioned']) === await read('ATTR_NOT_SANCTIONED'), 'isNotSanctioned does not match ATTR_NOT_SANCTIONED');
+      expect(encodeAttributeMask(VERIFICATION_ATTRIBUTES) === await read('ALL_ATTRIBUTES'), 'all attributes do not match ALL_ATTRIBUTES');
+      expect(decodeAttributeMask(BigInt(5)).join() === 'isAdult,isNotSanctioned', `5 decodes to ${decodeAttributeMask(BigInt(5)).join()}`);
+    }],
+    ['submitProof refuses a result another key signed', async () => {
+      const expiry = (await chainTime(devnet)) + HOUR;
+      const result = await signedResult(generatePrivateKey(), bob, expiry);
+      await expectRevert(
+        submitVerificationProof(clientsFor(bob), bob, result, options),
+        'Invalid enclave signature'
+      );
+    }],
+    ['the signature check finds the issuer the enclave belongs to', async () => {
+      const expiry = (await chainTime(devnet)) + HOUR;
+      const issuer = await checkEnclaveSignature(publicClient, bob, await signedResult(TEST_ENCLAVE_PRIVATE_KEY, bob, expiry), options);
+      expect(issuer.id === DEVNET_ISSUER.id, `issuer ${issuer.id}, expected ${DEVNET_ISSUER.id}`);
+      expect(issuer.signer === TEST_ENCLAVE_ADDRESS, `signer ${issuer.signer}, expected ${TEST_ENCLAVE_ADDRESS}`);
+
+      // A result for another wallet does not recover to the enclave
+      const forAlice = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, alice, expiry);
+      const error = await checkEnclaveSignature(publicClient, bob, forAlice, options).catch(error => error);
+      expect(error instanceof EnclaveSignatureError, 'a result signed for another wallet passed the check');
+    }],
+    ['the signature check rejects an unsigned result', async () => {
+      const result = { ...(await signedResult(TEST_ENCLAVE_PRIVATE_KEY, bob, (await chainTime(devnet)) + HOUR)), enclaveSignature: '' };
+      const error = await checkEnclaveSignature(publicClient, bob, result, options).catch(error => error);
+      expect(error instanceof EnclaveSignatureError && error.message === 'The TEE result is not signed', `got ${error}`);
+    }],
+    ['submitProof rejects a failed verification', async () => {
+      const expiry = (await chainTime(devnet)) + HOUR;
+      const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, bob, expiry, { isValid: false });
+      await expectRevert(
+        submitVerificationProof(clientsFor(bob), bob, result, options),
+        'Verification failed'
+      );
+    }],
+    ['submitProof rejects an expired proof', async () => {
+      const expiry = (await chainTime(devnet)) - 1;
+      const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, bob, expiry);
+      await expectRevert(
+        submitVerificationProof(clientsFor(bob), bob, result, options),
+        'Proof already expired'
+      );
+    }],
+    ['a verification lapses at its expiry', async () => {
+      const expiry = (await chainTime(devnet)) + HOUR;
+      const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, bob, expiry);
+      await submitVerificationProof(clientsFor(bob), bob, result, options);
+      expect(await checkOnChainVerification(publicClient, bob, options), 'isVerified returned false before expiry');
+
+      await devnet.increaseTime(HOUR + 1);
+      expect(!(await checkOnChainVerification(publicClient, bob, options)), 'isVerified returned true after expiry');
+      const details = await getVerificationDetails(publicClient, bob, options);
+      expect(details?.isVerified === false, 'getVerification is verified after expiry');
+      expect(details?.expiryTimestamp === expiry, 'expiryTimestamp changed');
+    }],
+    ['an attribute lapses at its own expiry', async () => {
+      const now = await chainTime(devnet);
+      const expiry = now + 365 * 24 * HOUR;
+      const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, dave, expiry, {
+        attributeExpiries: { isAdult: expiry, isNotExpired: now + HOUR, isNotSanctioned: expiry },
+      });
+      await submitVerificationProof(clientsFor(dave), dave, result, options);
+      expect(await checkOnChainVerification(publicClient, dave, options), 'isVerified returned false before the attribute expired');
+
+      await devnet.increaseTime(HOUR + 1);
+      expect(!(await checkOnChainVerification(publicClient, dave, options)), 'isVerified returned true after isNotExpired expired');
+      expect(await checkVerifiedFor(publicClient, dave, ['isAdult', 'isNotSanctioned'], options), 'the other attributes lapsed too');
+      expect(!(await checkVerifiedFor(publicClient, dave, ['isNotExpired'], options)), 'isVerifiedFor(isNotExpired) returned true');
+      const details = await getVerificationDetails(publicClient, dave, options);
+      expect(details?.attributes.join() === 'isAdult,isNotSanctioned', `attributes ${details?.attributes.join()}`);
+      expect(details?.attributeExpiries.isNotExpired === now + HOUR, `isNotExpired expires ${details?.attributeExpiries.isNotExpired}`);
+    }],
+    ['submitProof rejects an attribute that outlives the proof', async () => {
+      const expiry = (await chainTime(devnet)) + HOUR;
+      const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, bob, expiry, {
+        attributeExpiries: { isAdult: expiry + 1, isNotExpired: expiry, isNotSanctioned: expiry },
+      });
+      await expectRevert(submitVerificationProof(clientsFor(bob), bob, result, options), 'Attribute outlives proof');
+    }],
+    ['submitProof rejects an attribute already expired', async () => {
+      const now = await chainTime(devnet);
+      const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, bob, now + HOUR, {
+        attributeExpiries: { isAdult: now + HOUR, isNotExpired: now - 1, isNotSanctioned: now + HOUR },
+      });
+      await expectRevert(submitVerificationProof(clientsFor(bob), bob, result, options), 'Attribute already expired');
+    }],
+    ['only issuer admins manage the registry', async () => {
+      const issuer = { id: euIssuerId, signer: privateKeyToAccount(euKey).address, attributeScope: VERIFICATION_ATTRIBUTES, jurisdiction: 'EU' };
+      await expectRevert(addIssuer(clientsFor(alice), issuer, options), 'AccessControlUnauthorizedAccount');
+      await expectRevert(suspendIssuer(clientsFor(alice), DEVNET_ISSUER.id, options), 'AccessControlUnauthorizedAccount');
+    }],
+    ['a second issuer verifies users and is reported as their attester', async () => {
+      const issuer = { id: euIssuerId, signer: privateKeyToAccount(euKey).address, attributeScope: VERIFICATION_ATTRIBUTES, jurisdiction: 'EU' };
+      await addIssuer(clientsFor(owner), issuer, options);
+      const expiry = (await chainTime(devnet)) + 365 * 24 * HOUR;
+      await submitVerificationProof(clientsFor(carol), carol, await signedResult(euKey, carol, expiry), options);
+
+      expect(await checkOnChainVerification(publicClient, carol, options), 'isVerified returned false');
+      const attester = await getAttestingIssuer(publicClient, carol, options);
+      expect(attester?.id === euIssuerId && attester.jurisdiction === 'EU', `attester ${attester?.id}, expected ${euIssuerId}`);
+      const issuers = await getIssuers(publicClient, options);
+      expect(issuers.length === baseIssuerCount + 1, `${issuers.length} issuers, expected ${baseIssuerCount + 1}`);
+    }],
+    ['a signer cannot belong to two issuers', async () => {
+      const issuer = { ...DEVNET_ISSUER, id: toIssuerId('zkkyc-duplicate') };
+      await expectRevert(addIssuer(clientsFor(owner), issuer, options), 'Signer already registered');
+    }],
+    ['suspending an issuer refuses its results and lapses its verifications', async () => {
+      await suspendIssuer(clientsFor(owner), euIssuerId, options);
+      expect(!(await checkOnChainVerification(publicClient, carol, options)), 'isVerified returned true for a suspended issuer');
+      const expiry = (await chainTime(devnet)) + HOUR;
+      await expectRevert(
+        submitVerificationProof(clientsFor(carol), carol, await signedResult(euKey, carol, expiry), options),
+        'Issuer suspended'
+      );
+
+      await reactivateIssuer(clientsFor(owner), euIssuerId, options);
+      expect(await checkOnChainVerification(publicClient, carol, options), 'isVerified returned false after reactivation');
+    }],
+    ['rotating an issuer\'s signer keeps its verifications and refuses the old key', async () => {
+      await rotateIssuerSigner(clientsFor(owner), euIssuerId, privateKeyToAccount(euRotatedKey).address, options);
+      expect(await checkOnChainVerification(publicClient, carol, options), 'isVerified returned false after rotation');
+
+      const expiry = (await chainTime(devnet)) + 365 * 24 * HOUR;
+      await expectRevert(
+        submitVerificationProof(clientsFor(carol), carol, await signedResult(euKey, carol, expiry), options),
+        'Invalid enclave signature'
+      );
+      await submitVerificationProof(clientsFor(carol), carol, await signedResult(euRotatedKey, carol, expiry), options);
+      const issuer = await getIssuer(publicClient, euIssuerId, options);
+      expect(issuer?.signer === privateKeyToAccount(euRotatedKey).address, `signer ${issuer?.signer} was not rotated`);
+    }],
+    ['an issuer scoped to some attributes only verifies those', async () => {
+      await setIssuerScope(clientsFor(owner), euIssuerId, ['isAdult'], options);
+      const issuer = await getIssuer(publicClient, euIssuerId, options);
+      expect(issuer?.attributeScope.join() === 'isAdult', `scope ${issuer?.attributeScope.join()}, expected isAdult`);
+
+      expect(await checkVerifiedFor(publicClient, carol, ['isAdult'], options), 'isVerifiedFor(isAdult) returned false');
+      expect(!(await checkVerifiedFor(publicClient, carol, ['isAdult', 'isNotSanctioned'], options)), 'isVerifiedFor went beyond the scope');
+      expect(!(await checkOnChainVerification(publicClient, carol, options)), 'isVerified returned true for a partial scope');
+    }],
+    ['submitProof refuses attributes outside the issuer\'s scope', async () => {
+      const expiry = (await chainTime(devnet)) + HOUR;
+      await expectRevert(
+        submitVerificationProof(clientsFor(carol), carol, await signedResult(euRotatedKey, carol, expiry), options),
+        'Attributes outside issuer scope'
+      );
+
+      const ageOnly = await signedResult(euRotatedKey, carol, expiry, { attributeExpiries: { isAdult: expiry } });
+      await submitVerificationProof(clientsFor(carol), carol, ageOnly, options);
+      expect(await checkVerifiedFor(publicClient, carol, ['isAdult'], options), 'isVerifiedFor(isAdult) returned false');
+      const details = await getVerificationDetails(publicClient, carol, options);
+      expect(details?.attributes.join() === 'isAdult', `attributes ${details?.attributes.join()}, expected isAdult`);
+    }],
+    ['only the admin can upgrade the contract', async () => {
+      const implementation = await deployImplementation(devnet.provider, owner, devnet.compiled);
+      await expectRevert(upgradeVerifier(clientsFor(alice), implementation, options), 'AccessControlUnauthorizedAccount');
+    }],
+    ['an upgrade keeps verifications and issuers', async () => {
+      const implementation = await deployImplementation(devnet.provider, owner, devnet.compiled);
+      await upgradeVerifier(clientsFor(owner), implementation, options);
+
+      const slot = await publicClient.getStorageAt({ address: devnet.verifierAddress, slot: IMPLEMENTATION_SLOT });
+      expect(!!slot && getAddress(`0x${slot.slice(-40)}`) === implementation, `implementation slot holds ${slot}`);
+      expect(await checkOnChainVerification(publicClient, alice, options), 'isVerified returned false after the upgrade');
+      const issuers = await getIssuers(publicClient, options);
+      expect(issuers.length === baseIssuerCount + 1, `${issuers.length} issuers after the upgrade, expected ${baseIssuerCount + 1}`);
+    }],
+    ...(devnet.zkVerifierAddress ? zkChecks() : []),
+    ['only revokers can revoke a verification', async () => {
+      await expectRevert(revokeVerification(clientsFor(alice), alice, options), 'AccessControlUnauthorizedAccount');
+      expect(await checkOnChainVerification(publicClient, alice, options), 'isVerified returned false');
+    }],
+    ['an account granted REVOKER_ROLE revokes a verification', async () => {
+      await grantVerifierRole(clientsFor(owner), REVOKER_ROLE, bob, options);
+      expect(await hasVerifierRole(publicClient, REVOKER_ROLE, bob, options), 'hasRole returned false');
+      await revokeVerification(clientsFor(bob), alice, options);
+      expect(!(await checkOnChainVerification(publicClient, alice, options)), 'isVerified returned true after revocation');
+    }],
+    ['a revoked wallet cannot verify again until it is reinstated', async () => {
+      expect(await isWalletRevoked(publicClient, alice, options), 'isWalletRevoked returned false after revocation');
+      const expiry = (await chainTime(devnet)) + 365 * 24 * HOUR;
+      // For the scope the checks above may have set
+      const nullifierScope = (await getNullifierScope(publicClient, options)).toString();
+      const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, alice, expiry, { nullifierScope });
+      await expectRevert(submitVerificationProof(clientsFor(alice), alice, result, options), 'Verification revoked');
+
+      // Releasing the nullifier must not let the old signed result be replayed
+      await releaseNullifier(clientsFor(owner), result.nullifierHash!, options);
+      expect(await isWalletRevoked(publicClient, alice, options), 'isWalletRevoked returned false after the release');
+      await expectRevert(submitVerificationProof(clientsFor(alice), alice, result, options), 'Verification revoked');
+
+      await expectRevert(reinstateWallet(clientsFor(alice), alice, options), 'AccessControlUnauthorizedAccount');
+      await reinstateWallet(clientsFor(owner), alice, options);
+      expect(!(await isWalletRevoked(publicClient, alice, options)), 'isWalletRevoked returned true after reinstating');
+      await expectRevert(reinstateWallet(clientsFor(owner), alice, options), 'Wallet not revoked');
+      await submitVerificationProof(clientsFor(alice), alice, result, options);
+      expect(await checkOnChainVerification(publicClient, alice, options), 'isVerified returned false after reinstating');
+    }],
+  ];
+
+  // A TEE result vouching for the record a proof is over, which submitZKProof requires of the prover
+  // The enclave signs the document's nullifier for the same scope as the proof
+  async function attestRecord(user: Address, proof: ZKProof) {
+    const expiry = (await chainTime(devnet)) + 365 * DAY;
+    const result = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, user, expiry, {
+      commitment: getProofCommitment(proof),
+      nullifierHash: proof.nullifierHash,
+      nullifierScope: proof.publicSignals[9],
+    });
+    await submitVerificationProof(clientsFor(user), user, result, options);
+  }
+
+  function zkChecks(): [string, () => Promise<void>][] {
+    return [
+      ['the on-chain Groth16 verifier agrees with snarkjs', async () => {
+        bobProof = await generateFullKYCProof(ZK_KYC_DATA, bob);
+        expect((await verifyZKProof(bobProof, 'full_kyc')).isValid, 'snarkjs rejected the proof');
+        expect(await verifyZKProofOnChain(publicClient, bobProof, options), 'verifyProof rejected the proof');
+
+        const tampered = { ...bobProof, publicSignals: bobProof.publicSignals.map((signal, i) => (i === 2 ? '1' : signal)) };
+        expect(!(await verifyZKProofOnChain(publicClient, tampered, options)), 'verifyProof accepted a tampered commitment');
+      }],
+      ['verifyFullKYCProof checks the public inputs, not only the proof', async () => {
+        expect((await verifyFullKYCProof(bobProof, { userAddress: bob })).isValid, 'rejected bob\'s own proof');
+        const rejected = async (proof: ZKProof, expected: Parameters<typeof verifyFullKYCProof>[1], what: string) => {
+          const result = await verifyFullKYCProof(proof, expected);
+          expect(!result.isValid, `accepted ${what}`);
+        };
+        await rejected(bobProof, { userAddress: carol }, 'another wallet\'s proof');
+        await rejected(bobProof, { userAddress: bob, now: new Date(Date.now() + 3 * DAY * 1000) }, 'a proof made days ago');
+        await rejected(bobProof, { userAddress: bob, deniedNationalities: ['KP'] }, 'a proof without the nationality check');
+        await rejected(bobProof, { userAddress: bob, nullifierScope: encodeNullifierScope('zkkyc-devnet') }, 'a proof for another scope');
+        const anyAge = await generateFullKYCProof(ZK_KYC_DATA, bob, { minimumAge: 0 });
+        expect((await verifyZKProof(anyAge, 'full_kyc')).isValid, 'snarkjs rejected the minimum age 0 proof');
+        await rejected(anyAge, { userAddress: bob }, 'a proof of minimum age 0');
+      }],
+      ['submitZKProof refuses a proof over a record no issuer attested', async () => {
+        // A valid proof, but over a record dave made up rather than one the enclave verified
+        const invented = await generateFullKYCProof(
+          { ...ZK_KYC_DATA, fullName: 'Invented Person', documentNumber: 'Z9999999' },
+          dave
+        );
+        await attestRecord(dave, await generateFullKYCProof(ZK_KYC_DATA, dave));
+        await expectRevert(submitZKProof(clientsFor(dave), invented, options), 'Commitment not attested');
+
+        // And refused by the contract itself
+        const [a, b, c, input] = toGroth16Calldata(invented);
+        const reverted = await publicClient.simulateContract({
+          address: devnet.verifierAddress,
+          abi: KYC_VERIFIER_ABI,
+          functionName: 'submitZKProof',
+          args: [a, b, c, input],
+          account: dave,
+        }).then(() => null, error => toContractError('submitZKProof', error));
+        expect(reverted?.reason === 'Commitment not attested', `simulation gave ${reverted?.reason ?? 'no revert'}`);
+      }],
+      ['submitZKProof verifies the prover with the ZK issuer\'s attributes', async () => {
+        await attestRecord(bob, bobProof);
+        await submitZKProof(clientsFor(bob), bobProof, options);
+
+        expect(await checkVerifiedFor(publicClient, bob, ['isAdult', 'isNotExpired'], options), 'isVerifiedFor returned false');
+        expect(!(await checkOnChainVerification(publicClient, bob, options)), 'isVerified returned true without isNotSanctioned');
+        const details = await getVerificationDetails(publicClient, bob, options);
+        const commitment = `0x${BigInt(getProofCommitment(bobProof)).toString(16).padStart(64, '0')}`;
+        expect(details?.issuerId === ZK_ISSUER_ID, `issuerId ${details?.issuerId}, expected ${ZK_ISSUER_ID}`);
+        expect(details?.proofHash === commitment, `proofHash ${details?.proofHash}, expected the commitment ${commitment}`);
+        expect(details?.expiryTimestamp === (await chainTime(devnet)) + 30 * DAY, `expiryTimestamp ${details?.expiryTimestamp}`);
+        const attester = await getAttestingIssuer(publicClient, bob, options);
+        expect(attester?.signer === devnet.zkVerifierAddress, `attester signer ${attester?.signer}, expected the verifier`);
+      }],
+      ['a relying dApp accepts a disclosure proof only over an attested record', async () => {
+        const issuedAt = Math.floor(Date.now() / 1000);
+        const request: ProofRequest = {
+          version: 1,
+          verifier: { address: owner, name: 'Devnet dApp', origin: 'http://localhost' },
+          requiredAttributes: ['isAdult'],
+          minimumAge: 18,
+          allowedNationalities: [],
+          deniedNationalities: [],
+          freshness: DAY,
+          challenge: keccak256(toHex('devnet challenge')),
+          issuedAt,
+          expiresAt: issuedAt + HOUR,
+        };
+        const respond = async (user: Address, kycData: KYCData, asked = request) => verifyProofResponse({
+          type: PROOF_RESPONSE_MESSAGE,
+          challenge: asked.challenge,
+          userAddress: user,
+          proof: await generateSelectiveDisclosureProof(kycData, user, toDisclosureRequest(asked)),
+        }, asked, publicClient, options);
+
+        const attested = await respond(bob, ZK_KYC_DATA);
+        expect(attested.isValid, `rejected bob's attested record: ${attested.reason}`);
+        const invented = await respond(dave, { ...ZK_KYC_DATA, fullName: 'Invented Person', documentNumber: 'Z9999999' });
+        expect(!invented.isValid, 'accepted a proof over a record no issuer attested');
+
+        // The ZK issuer does not attest isNotSanctioned, and no predicate can show it
+        const sanctionsChecked = await respond(bob, ZK_KYC_DATA, { ...request, requiredAttributes: ['isAdult', 'isNotSanctioned'] });
+        expect(!sanctionsChecked.isValid, 'accepted isNotSanctioned without an on-chain attestation');
+      }],
+      ['submitZKProof refuses a proof made for another wallet', async () => {
+        await expectRevert(submitZKProof(clientsFor(carol), bobProof, options), 'Proof is for another wallet');
+      }],
+      ['the same wallet can submit its proof again', async () => {
+        await submitZKProof(clientsFor(bob), bobProof, options);
+        expect(await checkVerifiedFor(publicClient, bob, ['isAdult', 'isNotExpired'], options), 'isVerifiedFor returned false');
+      }],
+      ['submitZKProof rejects a proof whose checks failed', async () => {
+        const underage = await generateFullKYCProof(ZK_KYC_DATA, dave, { minimumAge: 120 });
+        await expectRevert(submitZKProof(clientsFor(dave), underage, options), 'Verification failed');
+      }],
+      ['only issuer admins set the nullifier scope, which cannot be an address', async () => {
+        const nullifierScope = encodeNullifierScope('zkkyc-devnet');
+        await expectRevert(setNullifierScope(clientsFor(alice), nullifierScope, options), 'AccessControlUnauthorizedAccount');
+        await expectRevert(setNullifierScope(clientsFor(owner), BigInt(alice), options), 'Invalid nullifier scope');
+      }],
+      ['with a nullifier scope, a document verifies one wallet only', async () => {
+        // carol's wallet has the record attested too, with its per-wallet nullifier
+        await attestRecord(carol, await generateFullKYCProof(ZK_KYC_DATA, carol));
+        const nullifierScope = encodeNullifierScope('zkkyc-devnet');
+        await setNullifierScope(clientsFor(owner), nullifierScope, options);
+        await expectRevert(submitZKProof(clientsFor(bob), bobProof, options), 'Wrong nullifier scope');
+
+        const scoped = await generateFullKYCProof(ZK_KYC_DATA, bob, { nullifierScope });
+        const expected = await generateNullifierHash(ZK_KYC_DATA, bob, nullifierScope);
+        expect(scoped.nullifierHash === expected, `nullifier ${scoped.nullifierHash}, expected ${expected}`);
+        const { blockNumber } = await submitZKProof(clientsFor(bob), scoped, options);
+        expect(await getNullifierOwner(publicClient, scoped.nullifierHash, options) === bob, 'the nullifier is not bound to bob');
+        const [bound] = await publicClient.getContractEvents({
+          address: devnet.verifierAddress,
+          abi: KYC_VERIFIER_ABI,
+          eventName: 'NullifierBound',
+          fromBlock: blockNumber,
+          toBlock: blockNumber,
+        });
+        expect(bound?.args.user === bob && bound.args.nullifierHash === BigInt(expected), 'no NullifierBound event for bob');
+
+        // Same document, another wallet: same nullifier, caught before the wallet prompts
+        carolProof = await generateFullKYCProof(ZK_KYC_DATA, carol, { nullifierScope });
+        expect(carolProof.nullifierHash === scoped.nullifierHash, 'the scoped nullifier differs between wallets');
+        const error = await submitZKProof(clientsFor(carol), carolProof, options).catch(error => error);
+        expect(error instanceof NullifierInUseError && error.boundTo === bob, `got ${error}`);
+
+        // And refused by the contract itself
+        const [a, b, c, input] = toGroth16Calldata(carolProof);
+        const reverted = await publicClient.simulateContract({
+          address: devnet.verifierAddress,
+          abi: KYC_VERIFIER_ABI,
+          functionName: 'submitZKProof',
+          args: [a, b, c, input],
+          account: carol,
+        }).then(() => null, error => toContractError('submitZKProof', error));
+        expect(reverted?.reason === 'Nullifier already used', `simulation gave ${reverted?.reason ?? 'no revert'}`);
+
+        // A TEE result carries the same nullifier, and is refused the same way
+        const expiry = (await chainTime(devnet)) + 365 * DAY;
+        const teeResult = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, carol, expiry, {
+          nullifierHash: carolProof.nullifierHash,
+          nullifierScope: nullifierScope.toString(),
+        });
+        const teeError = await submitVerificationProof(clientsFor(carol), carol, teeResult, options).catch(error => error);
+        expect(teeError instanceof NullifierInUseError && teeError.boundTo === bob, `got ${teeError}`);
+        // Nor can the enclave be asked for a nullifier in another scope
+        const unscoped = await signedResult(TEST_ENCLAVE_PRIVATE_KEY, carol, expiry);
+        await expectRevert(submitVerificationProof(clientsFor(carol), carol, unscoped, options), 'Wrong nullifier scope');
+      }],
+      ['a revoker releases a nullifier so another wallet can use the document', async () => {
+        await expectRevert(releaseNullifier(clientsFor(alice), carolProof.nullifierHash, options), 'AccessControlUnauthorizedAccount');
+        await releaseNullifier(clientsFor(owner), carolProof.nullifierHash, options);
+        await submitZKProof(clientsFor(carol), carolProof, options);
+        expect(await getNullifierOwner(publicClient, carolProof.nullifierHash, options) === carol, 'the nullifier is not bound to carol');
+      }],
+      ['a revoked wallet cannot verify with a proof either until it is reinstated', async () => {
+        await revokeVerification(clientsFor(owner), carol, options);
+        await expectRevert(submitZKProof(clientsFor(carol), carolProof, options), 'Verification revoked');
+        await releaseNullifier(clientsFor(owner), carolProof.nullifierHash, options);
+        await expectRevert(submitZKProof(clientsFor(carol), carolProof, options), 'Verification revoked');
+
+        await reinstateWallet(clientsFor(owner), carol, options);
+        await submitZKProof(clientsFor(carol), carolProof, options);
+        expect(await checkVerifiedFor(publicClient, carol, ['isAdult', 'isNotExpired'], options), 'isVerifiedFor returned false');
+      }],
+      ['submitZKProof rejects a proof made days ago', async () => {
+        await devnet.increaseTime(3 * DAY);
+        await expectRevert(submitZKProof(clientsFor(carol), carolProof, options), 'Stale proof date');
+      }],
+    ];
+  }
+
+  let failures = 0;
+  try {
+    for (const [name, check] of checks) {
+      try {
+        await check();
+        console.log(`✓ ${name}`);
+      } catch (error) {
+        failures++;
+        console.error(`✗ ${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } finally {
+    await devnet.stop();
+  }
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+  console.log(`✓ KYCVerifier: ${checks.length} checks pass`);
+  // snarkjs keeps its prover's worker threads alive
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+// Copy the Tesseract worker, WASM core and English language data out of
+// node_modules into public/tesseract, so document OCR loads them from this app
+// instead of a CDN.
+//
+// Usage: node scripts/copy-ocr-assets.mjs (run by pnpm install)
+
+import { copyFile, mkdir, readdir } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = path.join(rootDir, 'public', 'tesseract');
+
+// The core must be the version tesseract.js was built against, so resolve it from there
+const tesseractDir = path.dirname(require.resolve('tesseract.js/package.json'));
+const coreDir = path.dirname(createRequire(path.join(tesseractDir, 'package.json')).resolve('tesseract.js-core/package.json'));
+// createWorker's default OEM is LSTM only, which reads the best_int models
+const langDir = path.join(path.dirname(require.resolve('@tesseract.js-data/eng/package.json')), '4.0.0_best_int');
+
+async function copyInto(dir, sources) {
+  await mkdir(path.join(outDir, dir), { recursive: true });
+  for (const source of sources) {
+    await copyFile(source, path.join(outDir, dir, path.basename(source)));
+  }
+}
+
+await copyInto('.', [path.join(tesseractDir, 'dist', 'worker.min.js')]);
+// Every variant the worker picks between by SIMD support; the .wasm.js builds embed the WASM
+const cores = (await readdir(coreDir)).filter(name => /^tesseract-core.*\.wasm\.js$/.test(name));
+await copyInto('core', cores.map(name => path.join(coreDir, name)));
+await copyInto('lang', [path.join(langDir, 'eng.traineddata.gz')]);
+
+console.log(`Copied the OCR worker, ${cores.length} cores and eng.traineddata to ${path.relative(rootDir, outDir)}`);
@@ -0,0 +1,250 @@
+// Local devnet for the KYCVerifier contract
+//
+// Compiles the Solidity from generateContractCode() with solc, starts an
+// in-process Ganache chain and deploys the contract behind an ERC1967 proxy
+// with the test enclave registered as its issuer, so lib/services/contract.ts
+// can run without Arbitrum Sepolia. When the full_kyc circuit is built, its
+// Groth16 verifier is generated, deployed and set for submitZKProof too.
+//
+// Usage: pnpm contracts:devnet   (serves the chain on http://127.0.0.1:8545)
+
+import { existsSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import ganache from 'ganache';
+import { createPublicClient, createWalletClient, custom, defineChain, encodeFunctionData, getAddress, zeroAddress } from 'viem';
+import type { Abi, Address, Hex } from 'viem';
+import {
+  KYC_VERIFIER_ABI,
+  VERIFICATION_ATTRIBUTES,
+  addIssuer,
+  createContractClients,
+  generateContractCode,
+  generateGroth16VerifierCode,
+  setZKVerifier,
+  toIssuerId,
+} from '@/lib/services/contract';
+import type { IssuerRegistration } from '@/lib/services/contract';
+import { TEST_ENCLAVE_ADDRESS } from '@/lib/services/enclave-signer';
+import { getCircuitArtifacts } from '@/lib/services/zkproof';
+import type { EthereumProvider } from '@/lib/services/data-protector';
+import type { Groth16VerificationKey } from '@/lib/types/kyc';
+
+const require = createRequire(import.meta.url);
+
+// Fixed so deployments and signatures are the same on every run
+const DEVNET_MNEMONIC = 'test test test test test test test test test test test junk';
+const DEVNET_PORT = 8545;
+
+const PROXY_SOURCE = '@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol';
+
+// The test enclave, trusted for every attribute
+export const DEVNET_ISSUER: IssuerRegistration = {
+  id: toIssuerId('zkkyc-devnet'),
+  signer: TEST_ENCLAVE_ADDRESS,
+  attributeScope: VERIFICATION_ATTRIBUTES,
+  jurisdiction: 'DEV',
+};
+
+export const devnetChain = defineChain({
+  id: 1337,
+  name: 'zkKYC Devnet',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: { default: { http: [`http://127.0.0.1:${DEVNET_PORT}`] } },
+});
+
+export interface CompiledContract {
+  abi: Abi;
+  bytecode: Hex;
+}
+
+export interface CompiledKYCVerifier {
+  implementation: CompiledContract;
+  proxy: CompiledContract;
+  // The full_kyc Groth16 verifier; null until `pnpm circuits:build` has produced its verification key
+  zkVerifier: CompiledContract | null;
+}
+
+export interface Devnet {
+  provider: EthereumProvider;
+  // Unlocked accounts; the first one deploys the contract and holds every role
+  accounts: Address[];
+  // The proxy, which is the address the app talks to
+  verifierAddress: Address;
+  // The Groth16 verifier submitZKProof uses, if the full_kyc circuit is built
+  zkVerifierAddress: Address | null;
+  compiled: CompiledKYCVerifier;
+  // Move the chain's clock forward and mine a block at the new time
+  increaseTime(seconds: number): Promise<void>;
+  stop(): Promise<void>;
+}
+
+interface SolcOutput {
+  errors?: { severity: 'error' | 'warning'; formattedMessage: string }[];
+  contracts: Record<string, Record<string, { abi: Abi; evm: { bytecode: { object: string } } }>>;
+}
+
+/**
+ * Compile KYCVerifier, OpenZeppelin's ERC1967Proxy and, if full_kyc is built, its Groth16 verifier
+ * Imports are resolved from node_modules
+ */
+export function compileKYCVerifier(): CompiledKYCVerifier {
+  const solc = require('solc');
+  const { verificationKey } = getCircuitArtifacts('full_kyc');
+  const zkVerifierCode = existsSync(verificationKey)
+    ? generateGroth16VerifierCode(JSON.parse(readFileSync(verificationKey, 'utf8')) as Groth16VerificationKey)
+    : null;
+  const input = {
+    language: 'Solidity',
+    sources: {
+      'KYCVerifier.sol': { content: generateContractCode() },
+      [PROXY_SOURCE]: { content: readFileSync(require.resolve(PROXY_SOURCE), 'utf8') },
+      ...(zkVerifierCode ? { 'Groth16Verifier.sol': { content: zkVerifierCode } } : {}),
+    },
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      // Ganache runs up to Shanghai; Paris bytecode also runs on Arbitrum
+      evmVersion: 'paris',
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } },
+    },
+  };
+  const findImports = (importPath: string) => {
+    try {
+      return { contents: readFileSync(require.resolve(importPath), 'utf8') };
+    } catch {
+      return { error: `Import not found: ${importPath}` };
+    }
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input), { import: findImports })) as SolcOutput;
+  const errors = (output.errors ?? []).filter(error => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`KYCVerifier does not compile:\n${errors.map(error => error.formattedMessage).join('\n')}`);
+  }
+  const artifact = (source: string, name: string): CompiledContract => {
+    const contract = output.contracts[source][name];
+    return { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+  };
+  return {
+    implementation: artifact('KYCVerifier.sol', 'KYCVerifier'),
+    proxy: artifact(PROXY_SOURCE, 'ERC1967Proxy'),
+    zkVerifier: zkVerifierCode ? artifact('Groth16Verifier.sol', 'Groth16Verifier') : null,
+  };
+}
+
+async function deploy(
+  provider: EthereumProvider,
+  deployer: Address,
+  contract: CompiledContract,
+  args: readonly unknown[]
+): Promise<Address> {
+  const transport = custom(provider);
+  const walletClient = createWalletClient({ account: deployer, chain: devnetChain, transport });
+  const publicClient = createPublicClient({ chain: devnetChain, transport });
+
+  const hash = await walletClient.deployContract({ abi: contract.abi, bytecode: contract.bytecode, args });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success' || !receipt.contractAddress) {
+    throw new Error(`Deployment failed in transaction ${hash}`);
+  }
+  return getAddress(receipt.contractAddress);
+}
+
+/**
+ * Deploy a KYCVerifier implementation on its own, e.g. to upgrade the proxy to
+ */
+export async function deployImplementation(
+  provider: EthereumProvider,
+  deployer: Address,
+  compiled: CompiledKYCVerifier = compileKYCVerifier()
+): Promise<Address> {
+  return deploy(provider, deployer, compiled.implementation, []);
+}
+
+/**
+ * Deploy KYCVerifier behind a proxy from an unlocked account, which gets every role, and register the issuers
+ * The Groth16 verifier is deployed and set as well when it was compiled
+ * Returns the proxy's address
+ */
+export async function deployKYCVerifier(
+  provider: EthereumProvider,
+  deployer: Address,
+  issuers: IssuerRegistration[],
+  compiled: CompiledKYCVerifier = compileKYCVerifier()
+): Promise<Address> {
+  const implementation = await deployImplementation(provider, deployer, compiled);
+  const initialize = encodeFunctionData({ abi: compiled.implementation.abi, functionName: 'initialize', args: [deployer] });
+  const address = await deploy(provider, deployer, compiled.proxy, [implementation, initialize]);
+
+  const clients = createContractClients(provider, deployer, devnetChain);
+  for (const issuer of issuers) {
+    await addIssuer(clients, issuer, { address });
+  }
+  if (compiled.zkVerifier) {
+    const zkVerifier = await deploy(provider, deployer, compiled.zkVerifier, []);
+    await setZKVerifier(clients, zkVerifier, { address });
+  }
+  return address;
+}
+
+async function setUp(provider: EthereumProvider, stop: () => Promise<void>): Promise<Devnet> {
+  const accounts = (await provider.request({ method: 'eth_accounts' }) as string[]).map(account => getAddress(account));
+  const compiled = compileKYCVerifier();
+  const verifierAddress = await deployKYCVerifier(provider, accounts[0], [DEVNET_ISSUER], compiled);
+  const publicClient = createPublicClient({ chain: devnetChain, transport: custom(provider) });
+  const zkVerifier = await publicClient.readContract({ address: verifierAddress, abi: KYC_VERIFIER_ABI, functionName: 'zkVerifier' });
+  return {
+    provider,
+    accounts,
+    verifierAddress,
+    zkVerifierAddress: zkVerifier === zeroAddress ? null : zkVerifier,
+    compiled,
+    async increaseTime(seconds) {
+      await provider.request({ method: 'evm_increaseTime', params: [seconds] });
+      await provider.request({ method: 'evm_mine', params: [] });
+    },
+    stop,
+  };
+}
+
+const chainOptions = {
+  wallet: { mnemonic: DEVNET_MNEMONIC, totalAccounts: 5 },
+  chain: { chainId: devnetChain.id },
+  // Estimate gas for transactions sent without it, as a browser wallet does
+  miner: { defaultTransactionGasLimit: 'estimate' },
+  logging: { quiet: true },
+} as const;
+
+/**
+ * An in-process chain with KYCVerifier deployed, for scripts that drive contract.ts
+ */
+export async function startDevnet(): Promise<Devnet> {
+  const provider = ganache.provider(chainOptions);
+  return setUp(provider as EthereumProvider, () => provider.disconnect());
+}
+
+async function main() {
+  const server = ganache.server(chainOptions);
+  await server.listen(DEVNET_PORT);
+  const devnet = await setUp(server.provider as EthereumProvider, () => server.close());
+
+  console.log(`==> Devnet listening on http://127.0.0.1:${DEVNET_PORT} (chain ID ${devnetChain.id})`);
+  console.log(`KYCVerifier:   ${devnet.verifierAddress} (admin ${devnet.accounts[0]})`);
+  console.log(`Test enclave:  ${TEST_ENCLAVE_ADDRESS} (issuer ${DEVNET_ISSUER.id})`);
+  console.log(`ZK verifier:   ${devnet.zkVerifierAddress ?? 'not deployed (run pnpm circuits:build full_kyc)'}`);
+  console.log(`Accounts:      ${devnet.accounts.slice(1).join(', ')}`);
+  console.log(`\nNEXT_PUBLIC_KYC_VERIFIER_ADDRESS=${devnet.verifierAddress}`);
+
+  const shutdown = () => {
+    devnet.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,228 @@
+// Runs the verification pipeline against the in-memory DataProtector, from a
+// session whose data is already protected: access is granted, the "TEE app"
+// answers with a report and the (simulated) submission follows.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GrantAccessParams, GrantedAccess, ProcessProtectedDataParams, RevokedAccess } from '@iexec/dataprotector';
+import { InMemoryDataProtector } from '@/lib/services/data-protector-memory';
+import type { InMemoryApp } from '@/lib/services/data-protector-memory';
+import { DataProtectorClient } from '@/lib/services/data-protector';
+import { IEXEC_KYC_APP_ADDRESS } from '@/lib/services/iexec';
+import { PipelineAbortedError, PipelineStepError, StepTimeoutError, runPipeline } from '@/lib/services/pipeline';
+import type { PipelineStep } from '@/lib/services/pipeline';
+import { createVerificationPipeline, endsSession } from '@/lib/services/verification-pipeline';
+import type { VerificationContext, VerificationStepName } from '@/lib/services/verification-pipeline';
+import type { ZKProof } from '@/lib/types/kyc';
+
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const COMMITMENT = '0x' + '11'.repeat(32);
+
+// Only carried along: proving is skipped when the session has a proof
+const ZK_PROOF: ZKProof = {
+  proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+  publicSignals: [],
+  nullifierHash: '0',
+};
+
+// A wallet prompt the test confirms; the call waits on it like the SDK waits on the wallet
+interface WalletPrompt {
+  opened: Promise<void>;
+  confirm(): void;
+}
+
+type PromptedOperation = 'grantAccess' | 'processProtectedData';
+
+class TestDataProtector extends InMemoryDataProtector {
+  // Failures the iExec protocol reports before processing goes through
+  protocolFailures = 0;
+  readonly revoked: RevokedAccess[] = [];
+  private readonly prompts = new Map<PromptedOperation, { open(): void; confirmed: Promise<void> }>();
+
+  prompt(operation: PromptedOperation): WalletPrompt {
+    let open!: () => void;
+    let confirm!: () => void;
+    const opened = new Promise<void>(resolve => { open = resolve; });
+    const confirmed = new Promise<void>(resolve => { confirm = resolve; });
+    this.prompts.set(operation, { open, confirmed });
+    return { opened, confirm };
+  }
+
+  override async grantAccess(params: GrantAccessParams): Promise<GrantedAccess> {
+    await this.waitForWallet('grantAccess');
+    return super.grantAccess(params);
+  }
+
+  override async processProtectedData<Params extends ProcessProtectedDataParams>(params: Params) {
+    await this.waitForWallet('processProtectedData');
+    if (this.protocolFailures > 0) {
+      this.protocolFailures -= 1;
+      throw Object.assign(new Error('No workerpool order available'), { isProtocolError: true });
+    }
+    return super.processProtectedData(params);
+  }
+
+  override async revokeOneAccess(access: GrantedAccess): Promise<RevokedAccess> {
+    const revoked = await super.revokeOneAccess(access);
+    this.revoked.push(revoked);
+    return revoked;
+  }
+
+  private async waitForWallet(operation: PromptedOperation) {
+    const prompt = this.prompts.get(operation);
+    if (!prompt) return;
+    prompt.open();
+    await prompt.confirmed;
+  }
+}
+
+// The report the iApp writes for one verified record, unsigned as without an enclave key
+const verifiedReport: InMemoryApp = () => new TextEncoder().encode(JSON.stringify({
+  verificationId: 'test-verification',
+  verificationResults: [{
+    userId: OWNER,
+    commitment: COMMITMENT,
+    documentHash: null,
+    verificationStatus: 'VERIFIED',
+    verificationDetails: { checks: { isAdult: true, notExpired: true, notSanctioned: true } },
+    timestamp: new Date().toISOString(),
+    attestation: null,
+  }],
+})).buffer as ArrayBuffer;
+
+async function setup(app: InMemoryApp = verifiedReport) {
+  const core = new TestDataProtector({ owner: OWNER, apps: { [IEXEC_KYC_APP_ADDRESS]: app } });
+  const dataProtector = new DataProtectorClient(core);
+  const { address } = await core.protectData({ data: { commitment: COMMITMENT } });
+  const startedAt = Date.now();
+  const context: VerificationContext = {
+    owner: OWNER,
+    chainId: null,
+    provider: null,
+    proofRequest: null,
+    protectedData: { address: OWNER, dataHash: COMMITMENT, timestamp: startedAt },
+    zkProof: ZK_PROOF,
+    dataProtector,
+    session: {
+      version: 1,
+      owner: OWNER,
+      step: 'protected',
+      protectedDataAddress: address,
+      commitment: COMMITMENT,
+      zkProof: ZK_PROOF,
+      startedAt,
+      updatedAt: startedAt,
+    },
+  };
+  const grants = async () => (await dataProtector.getGrantedAccess({ protectedData: address })).grantedAccess;
+  return { core, context, grants };
+}
+
+// The run's steps, with some timings shortened so the test does not wait on them
+function withTimings(
+  overrides: Partial<Record<VerificationStepName, Pick<PipelineStep<VerificationContext>, 'timeoutMs' | 'retries' | 'retryDelayMs'>>>
+): PipelineStep<VerificationContext, VerificationStepName>[] {
+  return createVerificationPipeline().map(step => ({ ...step, ...overrides[step.name] }));
+}
+
+async function until(condition: () => boolean | Promise<boolean>) {
+  for (let i = 0; i < 100; i++) {
+    if (await condition()) return;
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  assert.fail('Condition not met in time');
+}
+
+describe('verification pipeline', () => {
+  it('grants access, runs the TEE app and submits its result', async () => {
+    const { context, grants } = await setup();
+    const started: VerificationStepName[] = [];
+
+    const result = await runPipeline(createVerificationPipeline(), context, {
+      onStepStart: name => started.push(name),
+    });
+
+    assert.deepEqual(started, ['screenAddress', 'grant', 'runTask', 'checkResult', 'submit']);
+    assert.equal(result.verificationResult?.isValid, true);
+    assert.deepEqual(result.verificationResult?.attributes, { isAdult: true, isNotExpired: true, isNotSanctioned: true });
+    assert.equal(result.session?.step, 'verified');
+    assert.match(result.transactionHash ?? '', /^0x[0-9a-f]{64}$/);
+    // The task used the one access it was granted
+    const [access] = await grants();
+    assert.equal(access.remainingAccess, 0);
+  });
+
+  it('retries the task when the iExec protocol fails', async () => {
+    const { core, context } = await setup();
+    core.protocolFailures = 1;
+    const retries: [VerificationStepName, number][] = [];
+
+    const result = await runPipeline(withTimings({ runTask: { retryDelayMs: 0 } }), context, {
+      onStepRetry: (name, attempt) => retries.push([name, attempt]),
+    });
+
+    assert.deepEqual(retries, [['runTask', 1]]);
+    assert.equal(result.verificationResult?.isValid, true);
+  });
+
+  it('does not retry a task that ran and failed', async () => {
+    const { context } = await setup(() => {
+      throw new Error('Document image unreadable');
+    });
+
+    const error = await runPipeline(withTimings({ runTask: { retryDelayMs: 0 } }), context).catch(caught => caught);
+
+    assert.ok(error instanceof PipelineStepError);
+    assert.equal(error.step, 'runTask');
+    assert.match(String((error.cause as Error).message), /Document image unreadable/);
+    assert.equal(endsSession(error), true);
+  });
+
+  it('fails the step when the task runs out of time, keeping the session and its grant', async () => {
+    const { context, grants } = await setup(() => new Promise<ArrayBuffer>(() => {}));
+
+    const error = await runPipeline(withTimings({ runTask: { timeoutMs: 20, retries: 0 } }), context).catch(caught => caught);
+
+    assert.ok(error instanceof PipelineStepError);
+    assert.equal(error.step, 'runTask');
+    assert.ok(error.cause instanceof StepTimeoutError);
+    // The task exists and may still finish, so the run can be resumed to watch it
+    assert.equal(endsSession(error), false);
+    assert.equal((await grants()).length, 1);
+  });
+
+  it('revokes the access it granted when cancelled before the task starts', async () => {
+    const { core, context, grants } = await setup();
+    const prompt = core.prompt('processProtectedData');
+    const controller = new AbortController();
+
+    const running = runPipeline(createVerificationPipeline(), context, { signal: controller.signal });
+    await prompt.opened;
+    controller.abort();
+    const error = await running.catch(caught => caught);
+
+    assert.ok(error instanceof PipelineAbortedError);
+    assert.equal(error.step, 'runTask');
+    assert.equal(core.revoked.length, 1);
+    assert.deepEqual(await grants(), []);
+  });
+
+  it('revokes a grant the wallet confirms after the run was cancelled', async () => {
+    const { core, context, grants } = await setup();
+    const prompt = core.prompt('grantAccess');
+    const controller = new AbortController();
+
+    const running = runPipeline(createVerificationPipeline(), context, { signal: controller.signal });
+    await prompt.opened;
+    controller.abort();
+    const error = await running.catch(caught => caught);
+
+    assert.ok(error instanceof PipelineAbortedError);
+    assert.equal(error.step, 'grant');
+    assert.equal(core.revoked.length, 0);
+
+    prompt.confirm();
+    await until(() => core.revoked.length === 1);
+    assert.deepEqual(await grants(), []);
+  });
+});